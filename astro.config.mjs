@@ -1,9 +1,18 @@
 // @ts-check
-import { defineConfig } from 'astro/config';
+import { defineConfig, envField } from 'astro/config';
 
 import db from '@astrojs/db';
+import node from '@astrojs/node';
 
 // https://astro.build/config
 export default defineConfig({
-  integrations: [db()]
-});
\ No newline at end of file
+  integrations: [db()],
+  // API routes render on demand (`prerender = false`); pages stay static
+  adapter: node({ mode: 'standalone' }),
+  env: {
+    schema: {
+      // Password for /admin (see src/middleware.ts); unset keeps it closed
+      ADMIN_TOKEN: envField.string({ context: 'server', access: 'secret', optional: true })
+    }
+  }
+});
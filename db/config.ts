@@ -19,9 +19,47 @@ export const Venue = defineTable({
  */
 export type EventType = 'music' | 'comedy' | 'theatre' | 'screening' | 'other';
 
+/**
+ * Event Status - Lifecycle of a listing.
+ * 'removed' means the event disappeared from the venue's calendar.
+ */
+export type EventStatus = 'scheduled' | 'sold-out' | 'cancelled' | 'postponed' | 'removed';
+
+/**
+ * Performer - An act on the bill. Stored as JSON, headliners first.
+ */
+export interface Performer {
+  name: string;
+  role: 'headliner' | 'support';
+}
+
+/**
+ * PriceTier - One ticket price: "$15 advance", "$25-$40", "$20 + fees".
+ */
+export interface PriceTier {
+  label: string | null;          // 'advance', 'door', 'students', ... (null = unlabelled)
+  min: number;                   // cents
+  max: number | null;            // cents, for ranges (null = a single price)
+  currency: string;              // ISO 4217, 'CAD' unless stated
+  feesIncluded: boolean | null;  // null = not stated
+}
+
+/**
+ * Pricing - Everything a listing says about price. Stored as JSON;
+ * `Event.price` keeps the lowest price for filtering and sorting.
+ */
+export interface Pricing {
+  tiers: PriceTier[];
+  pwyc: boolean;                 // pay what you can
+  slidingScale: boolean;
+  donation: boolean;
+}
+
 /**
  * Event - A single event scraped from a venue.
- * The 'hash' column is used for deduplication (MD5 of venueId + date + title).
+ * The 'hash' column identifies the event across scrapes: MD5 of venueId plus the
+ * venue's own event ID or URL, or else the Vancouver date and title
+ * (see src/lib/utils/event-identity.ts). scripts/rekey-events.ts re-keys old rows.
  */
 export const Event = defineTable({
   columns: {
@@ -29,20 +67,99 @@ export const Event = defineTable({
     venueId: column.text({ references: () => Venue.columns.id }),
     title: column.text(),
     date: column.date(),                     // event start date/time
+    endDate: column.date({ optional: true }), // end of a run or set (null = not stated)
     doorsTime: column.date({ optional: true }), // doors open time (nullable)
     url: column.text({ optional: true }),    // event detail page
-    price: column.number({ optional: true }), // price in cents (null = unknown)
+    externalId: column.text({ optional: true }), // the venue's own ID (platform APIs, iCalendar UID)
+    seriesId: column.text({ optional: true }), // shared by the dates of a recurring event or multi-showtime listing
+    price: column.number({ optional: true }), // lowest price in cents, from pricing (null = unknown)
     isFree: column.boolean({ default: false }),
+    pricing: column.json({ optional: true }), // Pricing (null = no price listed)
     eventType: column.text({ default: 'other' }), // EventType enum stored as text
     hash: column.text({ unique: true }),     // deduplication hash
+    status: column.text({ default: 'scheduled' }), // EventStatus enum stored as text
+    performers: column.json({ default: [] }), // Performer[]
+    description: column.text({ optional: true }),
+    imageUrl: column.text({ optional: true }),
+    ticketUrl: column.text({ optional: true }), // where to buy, if not the event page
+    ageRestriction: column.text({ optional: true }), // '19+', '18+', 'All ages' (null = not stated)
+    duplicateOf: column.text({ optional: true }), // Event.id this row was merged into (hidden from listings)
+    lastSeenAt: column.date({ optional: true }), // last scrape that listed this event
     createdAt: column.date({ default: new Date() }),
     updatedAt: column.date({ default: new Date() }),
   },
 });
 
+/**
+ * Match Status - Outcome of a likely-duplicate pair.
+ * 'pending' awaits review at /admin/matches; 'linked' keeps both listings
+ * as the same show; 'merged' hides the newer one as a duplicate.
+ */
+export type MatchStatus = 'pending' | 'linked' | 'merged' | 'rejected';
+
+/**
+ * EventMatch - Two events that look like the same show, with a confidence score.
+ * 'eventId' is the newer listing; 'matchedEventId' the one it resembles.
+ */
+export const EventMatch = defineTable({
+  columns: {
+    id: column.text({ primaryKey: true }),  // UUID
+    eventId: column.text({ references: () => Event.columns.id }),
+    matchedEventId: column.text({ references: () => Event.columns.id }),
+    score: column.number(),                  // 0..1
+    reasons: column.json({ default: [] }),   // string[], e.g. ['similar title', 'same time']
+    status: column.text({ default: 'pending' }), // MatchStatus enum stored as text
+    createdAt: column.date({ default: new Date() }),
+    reviewedAt: column.date({ optional: true }),
+  },
+});
+
+/**
+ * EventChange - History of field changes detected when re-scraping an event.
+ * Values are stored as text (dates as ISO strings, null as NULL).
+ */
+export const EventChange = defineTable({
+  columns: {
+    id: column.text({ primaryKey: true }),  // UUID
+    eventId: column.text({ references: () => Event.columns.id }),
+    field: column.text(),                    // column name, e.g. 'price'
+    oldValue: column.text({ optional: true }),
+    newValue: column.text({ optional: true }),
+    changedAt: column.date(),
+  },
+});
+
+/**
+ * Rejection Reason - Why normalizeEvents skipped a scraped event.
+ * 'no-date' means the scraper found no date at all; 'unparsable-date'
+ * that no format matched the one it found.
+ */
+export type RejectionReason = 'no-date' | 'unparsable-date';
+
+/**
+ * RejectedEvent - Scraped events normalizeEvents couldn't use, quarantined for
+ * review at /admin/rejections and replayed once the parser handles them.
+ * 'hash' identifies the raw listing, so re-scrapes update the same row.
+ */
+export const RejectedEvent = defineTable({
+  columns: {
+    id: column.text({ primaryKey: true }),  // UUID
+    venueId: column.text({ references: () => Venue.columns.id }),
+    hash: column.text({ unique: true }),     // MD5 of venueId, title and date text
+    raw: column.json(),                      // RawEvent as scraped
+    reason: column.text(),                   // RejectionReason enum stored as text
+    attempted: column.text(),                // normalized date string the parser tried
+    pattern: column.text(),                  // its shape, e.g. 'EEE MMM N @ N pm'
+    timesSeen: column.number({ default: 1 }),
+    firstSeenAt: column.date(),
+    lastSeenAt: column.date(),
+    resolvedAt: column.date({ optional: true }), // replayed into Event
+  },
+});
+
 /**
  * ScrapeLog - Audit trail for scraper runs.
- * Used for the health check dashboard.
+ * Backs the health dashboard (/admin/health, /api/health).
  */
 export const ScrapeLog = defineTable({
   columns: {
@@ -53,10 +170,51 @@ export const ScrapeLog = defineTable({
     itemsFound: column.number({ default: 0 }),
     errorMessage: column.text({ optional: true }),
     durationMs: column.number({ optional: true }),
+    unparsableDates: column.number({ default: 0 }),  // raw events dropped by normalizeEvents
+    missingPrices: column.number({ default: 0 }),    // kept events with no price (and not free)
+    anomalies: column.json({ optional: true }),      // Anomaly[] flagged by post-run checks
+  },
+});
+
+/**
+ * ScrapeSchedule - How often the scheduler scrapes each venue.
+ * Set either 'cron' (5-field, Vancouver time) or 'intervalMinutes'.
+ */
+export const ScrapeSchedule = defineTable({
+  columns: {
+    venueId: column.text({ primaryKey: true, references: () => Venue.columns.id }),
+    cron: column.text({ optional: true }),   // e.g. '0 3 * * *' = nightly at 3 AM
+    intervalMinutes: column.number({ optional: true }), // e.g. 60 = hourly
+    jitterSeconds: column.number({ default: 300 }), // spreads out runs sharing a slot
+    enabled: column.boolean({ default: true }),
+  },
+});
+
+/**
+ * Job Status - Lifecycle of a background scrape run.
+ */
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+/**
+ * ScrapeJob - A background scrape run over all or some venues.
+ * 'progress' maps venueId -> per-venue outcome, filled in as venues finish.
+ */
+export const ScrapeJob = defineTable({
+  columns: {
+    id: column.text({ primaryKey: true }),  // UUID
+    status: column.text({ default: 'queued' }), // JobStatus enum stored as text
+    venueIds: column.json(),                 // string[] of venues to scrape
+    progress: column.json({ default: {} }),  // Record<venueId, VenueReport>
+    report: column.json({ optional: true }), // ScrapeReport once finished
+    errorMessage: column.text({ optional: true }),
+    createdAt: column.date({ default: new Date() }),
+    startedAt: column.date({ optional: true }),
+    heartbeatAt: column.date({ optional: true }), // start, then each venue finishing
+    finishedAt: column.date({ optional: true }),
   },
 });
 
 // https://astro.build/db/config
 export default defineDb({
-  tables: { Venue, Event, ScrapeLog },
+  tables: { Venue, Event, EventChange, EventMatch, RejectedEvent, ScrapeLog, ScrapeSchedule, ScrapeJob },
 });
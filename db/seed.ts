@@ -1,4 +1,4 @@
-import { db, Venue } from 'astro:db';
+import { db, Venue, ScrapeSchedule } from 'astro:db';
 
 /**
  * Seed the database with initial venue data.
@@ -45,4 +45,13 @@ export default async function seed() {
 
 	await db.insert(Venue).values(venues);
 	console.log(`✅ Seeded ${venues.length} venues`);
+
+	const schedules = [
+		{ venueId: 'rickshaw-theatre', intervalMinutes: 60 },  // hourly
+		{ venueId: 'rio-theatre', cron: '0 3 * * *' },         // nightly at 3 AM
+		{ venueId: 'fox-cabaret', intervalMinutes: 6 * 60 },
+	];
+
+	await db.insert(ScrapeSchedule).values(schedules);
+	console.log(`✅ Seeded ${schedules.length} scrape schedules`);
 }
@@ -0,0 +1,58 @@
+import { EthicalScraper, getFetchMode } from '../src/lib/utils/scraper-core';
+import { FixtureRecorder, fixtureDir } from '../src/lib/utils/fixtures';
+import { getEnabledVenues, getVenueById } from '../src/config/venues';
+
+/**
+ * Record venue pages for offline scraper tests.
+ *
+ * Usage:
+ *   npm run fixtures:record                      # every enabled venue
+ *   npm run fixtures:record -- fox-cabaret       # just these venues
+ *
+ * Each venue is scraped for real (robots.txt and rate limits apply), and
+ * everything it loaded is written to src/lib/venues/__fixtures__/<id>/
+ * together with the events it found. Commit the result, then
+ * `npm test` replays it. Re-record when a venue's markup changes on purpose.
+ */
+async function main() {
+    const ids = process.argv.slice(2);
+    const venues = ids.length > 0
+        ? ids.map((id) => getVenueById(id) ?? fail(`Unknown venue: ${id}`))
+        : getEnabledVenues();
+
+    for (const venue of venues) {
+        console.log(`🎞️  Recording ${venue.name}...`);
+
+        const scraper = new EthicalScraper();
+        const recorder = new FixtureRecorder(venue);
+        const restoreFetch = recorder.wrapFetch();
+
+        try {
+            if (getFetchMode(venue) === 'dynamic') {
+                await scraper.init();
+                recorder.attach(scraper.browserContext!);
+            }
+
+            // Disabled venues can be recorded too, to check them before enabling
+            const result = await scraper.runScraper({ ...venue, enabled: true });
+            if (result.status !== 'success') {
+                console.error(`   ❌ ${venue.name}: ${result.errorMessage ?? result.status}, fixture not written`);
+                process.exitCode = 1;
+                continue;
+            }
+
+            const manifest = await recorder.save(fixtureDir(venue.id), result.events);
+            console.log(`   ✅ ${manifest.entries.length} responses, ${result.events.length} events`);
+        } finally {
+            restoreFetch();
+            await scraper.close();
+        }
+    }
+}
+
+function fail(message: string): never {
+    console.error(message);
+    process.exit(1);
+}
+
+main();
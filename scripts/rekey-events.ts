@@ -0,0 +1,40 @@
+import { db, Event, eq } from 'astro:db';
+import { planRekey } from '../src/lib/utils/event-identity';
+
+/**
+ * Migration - re-key stored events to the current identity scheme
+ * (venue event ID or URL, else Vancouver date + title).
+ *
+ * Usage:
+ *   npm run migrate:rekey                  # apply
+ *   REKEY_DRY_RUN=1 npm run migrate:rekey  # only report what would change
+ *
+ * Rows that turn out to be the same show are kept, but marked as
+ * duplicates of the most recently seen one, so their history survives.
+ * Safe to run more than once.
+ */
+const DRY_RUN = process.env.REKEY_DRY_RUN === '1';
+
+export default async function rekeyEvents() {
+    console.log(`🔑 Re-keying events${DRY_RUN ? ' (dry run)' : ''}...`);
+
+    const rows = await db.select().from(Event);
+    const changes = planRekey(rows);
+    const duplicates = changes.filter((c) => c.duplicateOf && !rows.find((r) => r.id === c.id)?.duplicateOf);
+
+    console.log(`   ${rows.length} events, ${changes.length} to re-key, ${duplicates.length} newly marked as duplicates`);
+    if (DRY_RUN || changes.length === 0) return;
+
+    // Move changing rows out of the way first, so no new hash collides
+    // with one another row still has
+    for (const change of changes) {
+        await db.update(Event).set({ hash: `rekey:${change.id}` }).where(eq(Event.id, change.id));
+    }
+    for (const change of changes) {
+        await db.update(Event)
+            .set({ hash: change.hash, duplicateOf: change.duplicateOf })
+            .where(eq(Event.id, change.id));
+    }
+
+    console.log('   ✅ Done');
+}
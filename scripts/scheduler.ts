@@ -0,0 +1,52 @@
+import { getDueVenues, getScheduledVenues } from '../src/lib/db/schedules';
+import { enqueueScrapeJob, JobConflictError } from '../src/lib/db/jobs';
+import { formatForDisplay } from '../src/lib/utils/date-parser';
+
+/**
+ * Scrape scheduler - runs due venues according to `ScrapeSchedule`.
+ *
+ * Usage:
+ *   npm run scheduler                      # long-running, ticks every minute
+ *   SCHEDULER_ONCE=1 npm run scheduler     # single tick (for system cron)
+ *
+ * Due venues are batched into one scrape job per tick. Ticks that land while
+ * another job is running (e.g. one started from the API) are skipped.
+ */
+const TICK_MS = parseInt(process.env.SCHEDULER_TICK_MS || '60000', 10);
+const RUN_ONCE = process.env.SCHEDULER_ONCE === '1';
+
+export default async function scheduler() {
+    console.log('⏰ Scrape scheduler started');
+
+    for (const { venue, nextRunAt } of await getScheduledVenues()) {
+        console.log(`   - ${venue.name}: next run ${formatForDisplay(nextRunAt)}`);
+    }
+
+    do {
+        await tick();
+        if (!RUN_ONCE) {
+            await new Promise((resolve) => setTimeout(resolve, TICK_MS));
+        }
+    } while (!RUN_ONCE);
+}
+
+async function tick(): Promise<void> {
+    const due = await getDueVenues();
+    if (due.length === 0) return;
+
+    const venues = due.map((d) => d.venue);
+    console.log(`\n🐻 Scheduled scrape: ${venues.map((v) => v.name).join(', ')}`);
+
+    try {
+        const { job, finished } = await enqueueScrapeJob(venues);
+        console.log(`   Job ${job.id} started`);
+        await finished;
+        console.log(`   Job ${job.id} finished`);
+    } catch (e) {
+        if (e instanceof JobConflictError) {
+            console.log(`   ⏭️  Skipping tick: ${e.message}`);
+            return;
+        }
+        console.error('   ❌ Scheduler tick failed:', e);
+    }
+}
@@ -1,5 +1,5 @@
-
 import { db, Event, ScrapeLog, desc } from 'astro:db';
+import { getHealthReport } from '../src/lib/db/health';
 
 export default async function verify() {
     console.log('🔍 Verifying Database Content...\n');
@@ -13,4 +13,12 @@ export default async function verify() {
     const logs = await db.select().from(ScrapeLog).orderBy(desc(ScrapeLog.timestamp)).limit(5);
     console.log(`\n✅ Found ${logs.length} scrape logs:`);
     logs.forEach(l => console.log(`   - ${l.venueId}: ${l.status} (${l.itemsFound} items)`));
+
+    // Scraper health (same data as /admin/health)
+    const health = await getHealthReport();
+    console.log('\n🩺 Scraper health:');
+    health.forEach(h => console.log(
+        `   - ${h.venue}: ${h.status}${h.dropped ? ' (items dropped)' : ''}, ` +
+        `${h.consecutiveFailures} failures in a row`
+    ));
 }
@@ -1,6 +1,8 @@
 /**
  * Venue Registry - Central configuration for all venue scrapers.
  * To add a venue: import its module and add to the `venues` array.
+ * Venues with a common calendar layout can be pure configuration (see `defineVenue`),
+ * and venues on a ticketing or CMS platform need only a URL (see `definePlatformVenue`).
  * To disable a venue: set `enabled: false` in its module.
  */
 
@@ -10,8 +12,8 @@ import type { VenueScraper } from '../lib/utils/scraper-core';
 import { RickshawTheatre } from '../lib/venues/rickshaw';
 import { RioTheatre } from '../lib/venues/rio';
 import { FoxCabaret } from '../lib/venues/fox';
-// import { ParkTheatre } from '../lib/venues/park';
-// import { HerosWelcome } from '../lib/venues/heros-welcome';
+import { ParkTheatre } from '../lib/venues/park';
+import { HerosWelcome } from '../lib/venues/heros-welcome';
 
 /**
  * All registered venue scrapers.
@@ -21,8 +23,8 @@ export const venues: VenueScraper[] = [
     RickshawTheatre,
     RioTheatre,
     FoxCabaret,
-    // ParkTheatre,
-    // HerosWelcome,
+    ParkTheatre,
+    HerosWelcome,
 ];
 
 /**
@@ -0,0 +1,24 @@
+import { db, ScrapeLog, and, eq, desc } from 'astro:db';
+import type { RunStats } from '../utils/anomaly';
+
+/**
+ * How many previous successful runs a new run is compared against.
+ */
+export const ANOMALY_HISTORY_RUNS = 10;
+
+/**
+ * Stats of a venue's recent successful runs, oldest first.
+ */
+export async function getRunHistory(venueId: string): Promise<RunStats[]> {
+    const logs = await db.select({
+        itemsFound: ScrapeLog.itemsFound,
+        unparsableDates: ScrapeLog.unparsableDates,
+        missingPrices: ScrapeLog.missingPrices,
+    })
+        .from(ScrapeLog)
+        .where(and(eq(ScrapeLog.venueId, venueId), eq(ScrapeLog.status, 'success')))
+        .orderBy(desc(ScrapeLog.timestamp))
+        .limit(ANOMALY_HISTORY_RUNS);
+
+    return logs.reverse();
+}
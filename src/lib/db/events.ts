@@ -0,0 +1,169 @@
+import { db, Event, Venue, and, or, eq, ne, gt, lt, gte, lte, inArray, isNull, asc, desc, sql } from 'astro:db';
+import { encodeCursor } from '../utils/event-query';
+import type { EventQuery } from '../utils/event-query';
+
+/**
+ * Sort value used for events with an unknown price, so they always sort last.
+ */
+const NULL_PRICE_ASC = Number.MAX_SAFE_INTEGER;
+const NULL_PRICE_DESC = -1;
+
+/**
+ * An event row joined with its venue's display name.
+ */
+export type EventWithVenue = typeof Event.$inferSelect & { venueName: string };
+
+/**
+ * Columns selected for `EventWithVenue` rows.
+ */
+const EVENT_WITH_VENUE = {
+    id: Event.id,
+    venueId: Event.venueId,
+    venueName: Venue.name,
+    title: Event.title,
+    date: Event.date,
+    endDate: Event.endDate,
+    doorsTime: Event.doorsTime,
+    url: Event.url,
+    externalId: Event.externalId,
+    seriesId: Event.seriesId,
+    price: Event.price,
+    isFree: Event.isFree,
+    pricing: Event.pricing,
+    eventType: Event.eventType,
+    hash: Event.hash,
+    status: Event.status,
+    performers: Event.performers,
+    description: Event.description,
+    imageUrl: Event.imageUrl,
+    ticketUrl: Event.ticketUrl,
+    ageRestriction: Event.ageRestriction,
+    duplicateOf: Event.duplicateOf,
+    lastSeenAt: Event.lastSeenAt,
+    createdAt: Event.createdAt,
+    updatedAt: Event.updatedAt,
+};
+
+/**
+ * Run an events query with keyset (cursor) pagination.
+ * Fetches one extra row to know whether another page exists.
+ */
+export async function queryEvents(query: EventQuery): Promise<{
+    events: EventWithVenue[];
+    nextCursor: string | null;
+}> {
+    // Listings that vanished from the venue's calendar, or were merged into
+    // another listing of the same show, are never served
+    const conditions: Parameters<typeof and> = [ne(Event.status, 'removed'), isNull(Event.duplicateOf)];
+
+    if (query.venueIds.length > 0) conditions.push(inArray(Event.venueId, query.venueIds));
+    if (query.eventTypes.length > 0) conditions.push(inArray(Event.eventType, query.eventTypes));
+    // Runs that started earlier but are still on count as upcoming
+    if (query.from) conditions.push(or(gte(Event.date, query.from), gte(Event.endDate, query.from)));
+    if (query.to) conditions.push(lt(Event.date, query.to));
+    if (query.isFree !== null) conditions.push(eq(Event.isFree, query.isFree));
+    if (query.maxPrice !== null) conditions.push(lte(Event.price, query.maxPrice));
+
+    const sortColumn = query.sort === 'price'
+        ? sql`coalesce(${Event.price}, ${query.order === 'asc' ? NULL_PRICE_ASC : NULL_PRICE_DESC})`
+        : sql`${Event.date}`;
+    const direction = query.order === 'asc' ? asc : desc;
+    const after = query.order === 'asc' ? gt : lt;
+
+    if (query.cursor) {
+        // Dates are stored as ISO strings, so the cursor value compares as-is
+        const value = query.cursor.value;
+        conditions.push(or(
+            after(sortColumn, value),
+            and(eq(sortColumn, value), after(Event.id, query.cursor.id))
+        ));
+    }
+
+    const rows = await db
+        .select(EVENT_WITH_VENUE)
+        .from(Event)
+        .innerJoin(Venue, eq(Event.venueId, Venue.id))
+        .where(and(...conditions))
+        .orderBy(direction(sortColumn), direction(Event.id))
+        .limit(query.limit + 1);
+
+    const hasMore = rows.length > query.limit;
+    const events = hasMore ? rows.slice(0, query.limit) : rows;
+
+    let nextCursor: string | null = null;
+    if (hasMore) {
+        const last = events[events.length - 1];
+        nextCursor = encodeCursor({
+            value: query.sort === 'date'
+                ? last.date.toISOString()
+                : last.price ?? (query.order === 'asc' ? NULL_PRICE_ASC : NULL_PRICE_DESC),
+            id: last.id,
+        });
+    }
+
+    return { events, nextCursor };
+}
+
+/**
+ * Most recently added events, newest first.
+ */
+export async function getRecentlyAdded(
+    filters: Pick<EventQuery, 'venueIds' | 'eventTypes'>,
+    limit = 50
+): Promise<EventWithVenue[]> {
+    const conditions: Parameters<typeof and> = [ne(Event.status, 'removed'), isNull(Event.duplicateOf)];
+    if (filters.venueIds.length > 0) conditions.push(inArray(Event.venueId, filters.venueIds));
+    if (filters.eventTypes.length > 0) conditions.push(inArray(Event.eventType, filters.eventTypes));
+
+    return db
+        .select(EVENT_WITH_VENUE)
+        .from(Event)
+        .innerJoin(Venue, eq(Event.venueId, Venue.id))
+        .where(and(...conditions))
+        .orderBy(desc(Event.createdAt), desc(Event.id))
+        .limit(limit);
+}
+
+/**
+ * Get a single event with its venue name.
+ */
+export async function getEventById(id: string): Promise<EventWithVenue | undefined> {
+    const [event] = await db
+        .select(EVENT_WITH_VENUE)
+        .from(Event)
+        .innerJoin(Venue, eq(Event.venueId, Venue.id))
+        .where(eq(Event.id, id));
+    return event;
+}
+
+/**
+ * Events with their venue names, in no particular order. Unknown IDs are skipped.
+ */
+export async function getEventsByIds(ids: string[]): Promise<EventWithVenue[]> {
+    if (ids.length === 0) return [];
+
+    return db
+        .select(EVENT_WITH_VENUE)
+        .from(Event)
+        .innerJoin(Venue, eq(Event.venueId, Venue.id))
+        .where(inArray(Event.id, ids));
+}
+
+/**
+ * Other upcoming dates of a recurring event or multi-showtime listing,
+ * soonest first.
+ */
+export async function getSeriesDates(seriesId: string, excludeId: string, now: Date = new Date()): Promise<EventWithVenue[]> {
+    return db
+        .select(EVENT_WITH_VENUE)
+        .from(Event)
+        .innerJoin(Venue, eq(Event.venueId, Venue.id))
+        .where(and(
+            eq(Event.seriesId, seriesId),
+            ne(Event.id, excludeId),
+            ne(Event.status, 'removed'),
+            isNull(Event.duplicateOf),
+            gte(Event.date, now)
+        ))
+        .orderBy(asc(Event.date), asc(Event.id));
+}
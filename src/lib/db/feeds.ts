@@ -0,0 +1,129 @@
+import { queryEvents, getRecentlyAdded } from './events';
+import type { EventWithVenue } from './events';
+import { parseEventQuery } from '../utils/event-query';
+import type { EventQuery } from '../utils/event-query';
+import { renderCalendar } from '../utils/ics';
+import { cachedResponse } from '../utils/http-cache';
+import { describePrice } from '../utils/price-parser';
+import { formatForDisplay, formatTimeForDisplay } from '../utils/date-parser';
+import type { FeedItem, FeedMeta } from '../utils/syndication';
+import type { Performer } from '../../../db/config';
+
+/**
+ * Upper bound on events in a single feed.
+ */
+const FEED_LIMIT = 1000;
+
+/**
+ * Unless a date range is given, feeds keep the last week of events so
+ * calendar clients don't drop a show the moment it starts.
+ */
+const FEED_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Load events for a feed. Accepts the same filters as GET /api/events;
+ * `overrides` pins filters that come from the route (venue, event type).
+ * Throws EventQueryError on invalid params.
+ */
+export async function getFeedEvents(
+    params: URLSearchParams,
+    overrides: Partial<EventQuery> = {}
+): Promise<EventWithVenue[]> {
+    const query = parseEventQuery(params);
+    if (!params.has('from') && !params.has('to')) {
+        query.from = new Date(Date.now() - FEED_LOOKBACK_MS);
+    }
+
+    const { events } = await queryEvents({ ...query, ...overrides, limit: FEED_LIMIT, cursor: null });
+    return events;
+}
+
+/**
+ * Render events as an iCalendar feed with ETag/Last-Modified support.
+ */
+export function icsFeedResponse(request: Request, name: string, events: EventWithVenue[]): Response {
+    const body = renderCalendar(name, events.map((e) => ({
+        // The row ID, unlike the hash, survives reschedules and re-keying
+        uid: `${e.id}@paperbear`,
+        title: e.title,
+        start: e.date,
+        end: e.endDate,
+        venueName: e.venueName,
+        description: describeEvent(e),
+        url: e.url ?? null,
+        cancelled: e.status === 'cancelled',
+        lastModified: e.updatedAt,
+    })));
+
+    return cachedResponse(request, body, {
+        contentType: 'text/calendar; charset=utf-8',
+        lastModified: latestUpdate(events),
+    });
+}
+
+/**
+ * Newest `updatedAt` among the events, for Last-Modified.
+ */
+export function latestUpdate(events: EventWithVenue[]): Date | null {
+    if (events.length === 0) return null;
+    return new Date(Math.max(...events.map((e) => e.updatedAt.getTime())));
+}
+
+function describeEvent(event: EventWithVenue): string {
+    const lines: string[] = [];
+
+    if (event.doorsTime) lines.push(`Doors: ${formatTimeForDisplay(event.doorsTime)}`);
+    lines.push(`Show: ${formatTimeForDisplay(event.date)}`);
+
+    const price = describePrice(event);
+    if (price) lines.push(`Price: ${price}`);
+    if (event.status === 'sold-out') lines.push('Sold out');
+    if (event.ageRestriction) lines.push(`Ages: ${event.ageRestriction}`);
+
+    const support = ((event.performers as Performer[] | null) ?? []).filter((p) => p.role === 'support');
+    if (support.length > 0) lines.push(`With: ${support.map((p) => p.name).join(', ')}`);
+
+    if (event.description) lines.push('', event.description, '');
+    if (event.ticketUrl) lines.push(`Tickets: ${event.ticketUrl}`);
+    if (event.url) lines.push(event.url);
+
+    return lines.join('\n');
+}
+
+/**
+ * Feed of recently added events, filterable by `venueId` and `eventType`.
+ * Throws EventQueryError on invalid params.
+ */
+export async function getNewEventsFeed(url: URL): Promise<{ meta: FeedMeta; items: FeedItem[] }> {
+    const { venueIds, eventTypes } = parseEventQuery(url.searchParams);
+    const events = await getRecentlyAdded({ venueIds, eventTypes });
+
+    const items = events.map((e): FeedItem => {
+        const price = describePrice(e);
+
+        return {
+            id: `urn:paperbear:event:${e.id}`,
+            title: `${e.title} @ ${e.venueName} (${formatForDisplay(e.date)})`,
+            url: e.url ?? new URL(`/events/${e.id}`, url).href,
+            summary: [
+                formatForDisplay(e.date),
+                e.venueName,
+                e.doorsTime ? `Doors ${formatTimeForDisplay(e.doorsTime)}` : null,
+                price,
+            ].filter(Boolean).join(' · '),
+            published: e.createdAt,
+            updated: e.updatedAt,
+            tags: [e.eventType, e.venueName],
+        };
+    });
+
+    const meta: FeedMeta = {
+        title: 'Paper Bear: Newly Added Events',
+        description: 'Events recently added to Paper Bear from Vancouver venue calendars',
+        siteUrl: new URL('/', url).href,
+        feedUrl: url.href,
+        updated: latestUpdate(events) ?? new Date(0),
+    };
+
+    return { meta, items };
+}
@@ -0,0 +1,57 @@
+import { db, ScrapeLog, gte, desc } from 'astro:db';
+import { listVenues } from './venues';
+import { summarizeHealth } from '../utils/health';
+import type { VenueHealth, RunLog } from '../utils/health';
+import type { Anomaly } from '../utils/anomaly';
+
+/**
+ * How far back the health report looks.
+ */
+export const HEALTH_WINDOW_DAYS = 30;
+
+export interface VenueHealthReport extends VenueHealth {
+    venueId: string;
+    venue: string;
+    lastError: string | null;
+    anomalies: Anomaly[];        // flagged on the latest successful run
+}
+
+/**
+ * Build a health report for every venue from the last HEALTH_WINDOW_DAYS of
+ * ScrapeLog. Venues with no runs in the window are reported as 'unknown'.
+ */
+export async function getHealthReport(now: Date = new Date()): Promise<VenueHealthReport[]> {
+    const since = new Date(now.getTime() - HEALTH_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const [venues, logs] = await Promise.all([
+        listVenues(),
+        db.select().from(ScrapeLog)
+            .where(gte(ScrapeLog.timestamp, since))
+            .orderBy(desc(ScrapeLog.timestamp)),
+    ]);
+
+    const byVenue = new Map<string, (RunLog & { errorMessage: string | null; anomalies: Anomaly[] })[]>();
+    for (const log of logs) {
+        const venueLogs = byVenue.get(log.venueId) ?? [];
+        venueLogs.push({
+            timestamp: log.timestamp,
+            status: log.status,
+            itemsFound: log.itemsFound,
+            durationMs: log.durationMs ?? null,
+            errorMessage: log.errorMessage ?? null,
+            anomalies: (log.anomalies as Anomaly[] | null) ?? [],
+        });
+        byVenue.set(log.venueId, venueLogs);
+    }
+
+    return venues.map((venue) => {
+        const venueLogs = byVenue.get(venue.id) ?? [];
+        return {
+            venueId: venue.id,
+            venue: venue.name,
+            lastError: venueLogs.find((log) => log.status === 'error')?.errorMessage ?? null,
+            anomalies: venueLogs.find((log) => log.status === 'success')?.anomalies ?? [],
+            ...summarizeHealth(venueLogs),
+        };
+    });
+}
@@ -0,0 +1,150 @@
+import { db, ScrapeJob, and, eq, inArray, desc } from 'astro:db';
+import { randomUUID } from 'crypto';
+import type { JobStatus } from '../../../db/config';
+import { DEFAULT_CONFIG } from '../utils/scraper-core';
+import type { VenueScraper } from '../utils/scraper-core';
+import { DEFAULT_POOL_OPTIONS, venueTimeoutFor } from '../utils/scrape-pool';
+import { runScrape } from './scrape-run';
+import type { VenueReport } from './scrape-run';
+
+/**
+ * A job with no heartbeat for this long is assumed to have died with its
+ * process (e.g. a server restart) and no longer blocks new runs. A live job
+ * beats whenever a venue finishes, and no venue runs past its timeout; the
+ * margin covers syncing the results.
+ */
+const STALE_JOB_MS = (DEFAULT_POOL_OPTIONS.venueTimeoutMs ?? venueTimeoutFor(DEFAULT_CONFIG.horizonDays)) + 15 * 60 * 1000;
+
+export type ScrapeJobRow = typeof ScrapeJob.$inferSelect;
+
+/**
+ * Thrown when a run is requested while another one is queued or running.
+ */
+export class JobConflictError extends Error {
+    constructor(public readonly activeJobId: string) {
+        super(`Scrape job ${activeJobId} is already in progress`);
+        this.name = 'JobConflictError';
+    }
+}
+
+// Guards the check-then-insert in enqueueScrapeJob within this process
+let enqueueLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Create a scrape job and start it in the background.
+ * Refuses to start while another job is active.
+ * `finished` resolves once the job is done or failed; API callers ignore it and poll.
+ */
+export async function enqueueScrapeJob(
+    venues: VenueScraper[]
+): Promise<{ job: ScrapeJobRow; finished: Promise<void> }> {
+    const run = enqueueLock.then(async () => {
+        const active = await getActiveJob();
+        if (active) {
+            throw new JobConflictError(active.id);
+        }
+
+        const [job] = await db.insert(ScrapeJob).values({
+            id: randomUUID(),
+            status: 'queued',
+            venueIds: venues.map((v) => v.id),
+            progress: {},
+            createdAt: new Date(),
+        }).returning();
+
+        return job;
+    });
+    enqueueLock = run.catch(() => {});
+
+    const job = await run;
+
+    // Runs in the background; never rejects
+    const finished = runScrapeJob(job.id, venues);
+
+    return { job, finished };
+}
+
+/**
+ * Get the queued or running job, if any. Stale jobs are marked failed.
+ */
+export async function getActiveJob(): Promise<ScrapeJobRow | undefined> {
+    const active = await db.select().from(ScrapeJob)
+        .where(inArray(ScrapeJob.status, ['queued', 'running'] satisfies JobStatus[]));
+
+    for (const job of active) {
+        const since = job.heartbeatAt ?? job.startedAt ?? job.createdAt;
+        if (Date.now() - since.getTime() < STALE_JOB_MS) {
+            return job;
+        }
+
+        await db.update(ScrapeJob)
+            .set({ status: 'failed', errorMessage: 'Job went stale', finishedAt: new Date() })
+            .where(eq(ScrapeJob.id, job.id));
+    }
+
+    return undefined;
+}
+
+export async function getScrapeJob(id: string): Promise<ScrapeJobRow | undefined> {
+    const [job] = await db.select().from(ScrapeJob).where(eq(ScrapeJob.id, id));
+    return job;
+}
+
+export async function listScrapeJobs(limit = 20): Promise<ScrapeJobRow[]> {
+    return db.select().from(ScrapeJob).orderBy(desc(ScrapeJob.createdAt)).limit(limit);
+}
+
+/**
+ * Public view of a job for the status endpoint.
+ */
+export function describeJob(job: ScrapeJobRow) {
+    const venueIds = job.venueIds as string[];
+    const progress = job.progress as Record<string, VenueReport>;
+
+    return {
+        id: job.id,
+        status: job.status as JobStatus,
+        venues: venueIds.map((id) => progress[id] ?? { venueId: id, status: 'pending' }),
+        completed: Object.keys(progress).length,
+        total: venueIds.length,
+        report: job.report ?? null,
+        errorMessage: job.errorMessage ?? null,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt ?? null,
+        finishedAt: job.finishedAt ?? null,
+    };
+}
+
+async function runScrapeJob(jobId: string, venues: VenueScraper[]): Promise<void> {
+    const progress: Record<string, VenueReport> = {};
+
+    // A job already failed as stale keeps that status; another run may have started since
+    const stillRunning = and(eq(ScrapeJob.id, jobId), inArray(ScrapeJob.status, ['queued', 'running'] satisfies JobStatus[]));
+
+    try {
+        const started = new Date();
+        await db.update(ScrapeJob)
+            .set({ status: 'running', startedAt: started, heartbeatAt: started })
+            .where(eq(ScrapeJob.id, jobId));
+
+        const report = await runScrape(venues, {
+            onVenueDone: async (line) => {
+                progress[line.venueId] = line;
+                await db.update(ScrapeJob).set({ progress, heartbeatAt: new Date() }).where(stillRunning);
+            },
+        });
+
+        await db.update(ScrapeJob)
+            .set({ status: 'done', report, finishedAt: new Date() })
+            .where(stillRunning);
+    } catch (e) {
+        console.error(`Scrape job ${jobId} failed:`, e);
+        await db.update(ScrapeJob)
+            .set({
+                status: 'failed',
+                errorMessage: e instanceof Error ? e.message : String(e),
+                finishedAt: new Date(),
+            })
+            .where(stillRunning);
+    }
+}
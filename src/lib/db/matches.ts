@@ -0,0 +1,149 @@
+import { db, Event, EventMatch, and, eq, ne, gte, lte, or, inArray, isNull, desc } from 'astro:db';
+import { randomUUID } from 'crypto';
+import type { MatchStatus } from '../../../db/config';
+import { AUTO_MATCH_SCORE, MATCH_WINDOW_MS, findBestMatch, sharesListing } from '../utils/event-match';
+import type { MatchResult, MatchableEvent } from '../utils/event-match';
+import { getEventsByIds } from './events';
+import type { EventWithVenue } from './events';
+
+export type EventMatchRow = typeof EventMatch.$inferSelect;
+
+/**
+ * A match with both of its events, for the review queue.
+ */
+export interface MatchForReview extends EventMatchRow {
+    event: EventWithVenue;
+    matchedEvent: EventWithVenue;
+}
+
+/**
+ * Decisions a reviewer can make about a pending match.
+ */
+export type MatchDecision = Exclude<MatchStatus, 'pending'>;
+
+/**
+ * Thrown when reviewing a match that doesn't exist or was already reviewed.
+ */
+export class MatchReviewError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MatchReviewError';
+    }
+}
+
+/**
+ * Store a likely-duplicate pair. Anything but 'pending' counts as reviewed.
+ */
+export async function recordMatch(
+    eventId: string,
+    matchedEventId: string,
+    result: MatchResult,
+    status: MatchStatus,
+    now: Date = new Date()
+): Promise<void> {
+    await db.insert(EventMatch).values({
+        id: randomUUID(),
+        eventId,
+        matchedEventId,
+        score: result.score,
+        reasons: result.reasons,
+        status,
+        createdAt: now,
+        reviewedAt: status === 'pending' ? undefined : now,
+    });
+}
+
+/**
+ * Look for other venues' (or promoters') listings of newly inserted events.
+ * Confident matches that share a page, ticket link or platform ID are
+ * linked straight away; the rest are queued for review, however well the
+ * title and time agree. Returns how many matches were recorded.
+ */
+export async function matchAcrossVenues(events: MatchableEvent[], now: Date = new Date()): Promise<number> {
+    let recorded = 0;
+
+    for (const event of events) {
+        const candidates = await db.select().from(Event).where(and(
+            ne(Event.venueId, event.venueId),
+            ne(Event.status, 'removed'),
+            isNull(Event.duplicateOf),
+            gte(Event.date, new Date(event.date.getTime() - MATCH_WINDOW_MS)),
+            lte(Event.date, new Date(event.date.getTime() + MATCH_WINDOW_MS))
+        ));
+
+        const match = findBestMatch(event, candidates);
+        if (!match) continue;
+
+        const linked = match.score >= AUTO_MATCH_SCORE && sharesListing(event, match.candidate);
+        await recordMatch(event.id, match.candidate.id, match, linked ? 'linked' : 'pending', now);
+        recorded++;
+    }
+
+    return recorded;
+}
+
+/**
+ * Matches awaiting review, most confident first.
+ */
+export async function getPendingMatches(): Promise<MatchForReview[]> {
+    const matches = await db.select().from(EventMatch)
+        .where(eq(EventMatch.status, 'pending'))
+        .orderBy(desc(EventMatch.score), desc(EventMatch.createdAt));
+
+    const events = new Map((await getEventsByIds(matches.flatMap((m) => [m.eventId, m.matchedEventId])))
+        .map((e) => [e.id, e]));
+
+    return matches.flatMap((match) => {
+        const event = events.get(match.eventId);
+        const matchedEvent = events.get(match.matchedEventId);
+        return event && matchedEvent ? [{ ...match, event, matchedEvent }] : [];
+    });
+}
+
+/**
+ * Settle a pending match. Merging hides the newer listing (`eventId`) from
+ * listings and feeds as a duplicate of the other; linking keeps both as
+ * listings of the same show.
+ */
+export async function reviewMatch(id: string, decision: MatchDecision, now: Date = new Date()): Promise<void> {
+    const [match] = await db.select().from(EventMatch).where(eq(EventMatch.id, id));
+    if (!match) {
+        throw new MatchReviewError(`No match ${id}`);
+    }
+    if (match.status !== 'pending') {
+        throw new MatchReviewError(`Match ${id} was already reviewed (${match.status})`);
+    }
+
+    if (decision === 'merged') {
+        // Point at the surviving listing, even if it was itself merged since
+        const [target] = await db.select().from(Event).where(eq(Event.id, match.matchedEventId));
+        await db.update(Event)
+            .set({ duplicateOf: target?.duplicateOf ?? match.matchedEventId, updatedAt: now })
+            .where(eq(Event.id, match.eventId));
+    }
+
+    await db.update(EventMatch).set({ status: decision, reviewedAt: now }).where(eq(EventMatch.id, id));
+}
+
+/**
+ * Every other listing of the same show: events linked or merged with this
+ * one, directly or through other matches.
+ */
+export async function getSameShowListings(eventId: string): Promise<EventWithVenue[]> {
+    const cluster = new Set([eventId]);
+    let frontier = [eventId];
+
+    while (frontier.length > 0) {
+        const matches = await db.select().from(EventMatch).where(and(
+            inArray(EventMatch.status, ['linked', 'merged']),
+            or(inArray(EventMatch.eventId, frontier), inArray(EventMatch.matchedEventId, frontier))
+        ));
+
+        frontier = [...new Set(matches.flatMap((m) => [m.eventId, m.matchedEventId]))]
+            .filter((id) => !cluster.has(id));
+        frontier.forEach((id) => cluster.add(id));
+    }
+
+    cluster.delete(eventId);
+    return getEventsByIds([...cluster]);
+}
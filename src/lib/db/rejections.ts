@@ -0,0 +1,140 @@
+import { db, RejectedEvent, and, desc, inArray, isNull, sql } from 'astro:db';
+import { randomUUID } from 'crypto';
+import type { RejectionReason } from '../../../db/config';
+import { eventDateSpec, normalizeEvents } from '../utils/normalize';
+import type { EventRejection } from '../utils/normalize';
+import { generateIdentityHash } from '../utils/event-identity';
+import { DEFAULT_CONFIG } from '../utils/scraper-core';
+import type { RawEvent } from '../utils/scraper-core';
+import { syncVenueEvents } from './sync';
+
+export type RejectedEventRow = typeof RejectedEvent.$inferSelect;
+
+/**
+ * Open rejections that failed the same way, for the admin view.
+ */
+export interface RejectionGroup {
+    reason: RejectionReason;
+    pattern: string;
+    count: number;
+    venueIds: string[];
+    ids: string[];
+    examples: RejectedEventRow[];   // most recently seen first
+}
+
+/**
+ * What replaying quarantined events did.
+ */
+export interface ReplaySummary {
+    resolved: number;        // rejections that parse now
+    stillRejected: number;
+    inserted: number;
+    updated: number;
+}
+
+/**
+ * Show at most this many examples per group.
+ */
+const EXAMPLES_PER_GROUP = 5;
+
+/**
+ * Keep events `normalizeEvents` skipped. A listing rejected again is
+ * updated (and reopened if it had been resolved) rather than duplicated.
+ */
+export async function quarantineEvents(venueId: string, rejections: EventRejection[], now: Date = new Date()): Promise<void> {
+    for (const rejection of rejections) {
+        const values = {
+            raw: rejection.raw,
+            reason: rejection.reason,
+            attempted: rejection.attempted,
+            pattern: rejection.pattern,
+            lastSeenAt: now,
+        };
+
+        await db.insert(RejectedEvent)
+            .values({ id: randomUUID(), venueId, hash: rejectionHash(venueId, rejection.raw), firstSeenAt: now, ...values })
+            .onConflictDoUpdate({
+                target: RejectedEvent.hash,
+                set: { ...values, timesSeen: sql`${RejectedEvent.timesSeen} + 1`, resolvedAt: null },
+            });
+    }
+}
+
+/**
+ * Open rejections grouped by reason and date pattern, largest group first.
+ */
+export async function getRejectionGroups(): Promise<RejectionGroup[]> {
+    const rows = await db.select().from(RejectedEvent)
+        .where(isNull(RejectedEvent.resolvedAt))
+        .orderBy(desc(RejectedEvent.lastSeenAt));
+
+    const groups = new Map<string, RejectionGroup>();
+    for (const row of rows) {
+        const key = `${row.reason}|${row.pattern}`;
+        let group = groups.get(key);
+        if (!group) {
+            group = { reason: row.reason as RejectionReason, pattern: row.pattern, count: 0, venueIds: [], ids: [], examples: [] };
+            groups.set(key, group);
+        }
+
+        group.count++;
+        group.ids.push(row.id);
+        if (!group.venueIds.includes(row.venueId)) group.venueIds.push(row.venueId);
+        if (group.examples.length < EXAMPLES_PER_GROUP) group.examples.push(row);
+    }
+
+    return [...groups.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Run open rejections (all, or just `ids`) through the normalizer again,
+ * e.g. after a parser fix. Those that parse now are synced into `Event`
+ * like a scrape that can't remove anything, and marked resolved.
+ *
+ * Each venue's rows are replayed per scrape run (rows last seen together),
+ * with dates read as of that run, so "Fri Jan 12" or "Tuesday 8pm" lands
+ * where it would have then. Hashes are only assigned across the replayed
+ * rows, so one may be keyed by a URL the full scrape shares with another
+ * event; the next scrape still finds it by title and start time (see
+ * `findReschedules`) and re-keys it.
+ */
+export async function replayRejections(ids?: string[], now: Date = new Date()): Promise<ReplaySummary> {
+    const conditions: Parameters<typeof and> = [isNull(RejectedEvent.resolvedAt)];
+    if (ids) conditions.push(inArray(RejectedEvent.id, ids));
+
+    const rows = await db.select().from(RejectedEvent).where(and(...conditions));
+    const summary: ReplaySummary = { resolved: 0, stillRejected: 0, inserted: 0, updated: 0 };
+
+    const byRun = new Map<string, RejectedEventRow[]>();
+    for (const row of rows) {
+        if (!eventDateSpec(row.raw as RawEvent, row.lastSeenAt)) {
+            summary.stillRejected++;
+            continue;
+        }
+        const key = `${row.venueId}|${row.lastSeenAt.toISOString()}`;
+        byRun.set(key, [...byRun.get(key) ?? [], row]);
+    }
+
+    for (const resolved of byRun.values()) {
+        const { venueId, lastSeenAt } = resolved[0];
+        const normalized = normalizeEvents(venueId, resolved.map((row) => row.raw as RawEvent), {
+            now: lastSeenAt,
+            horizonDays: DEFAULT_CONFIG.horizonDays,
+        });
+        const sync = await syncVenueEvents(venueId, normalized, now, { markRemoved: false });
+
+        await db.update(RejectedEvent)
+            .set({ resolvedAt: now })
+            .where(inArray(RejectedEvent.id, resolved.map((row) => row.id)));
+
+        summary.resolved += resolved.length;
+        summary.inserted += sync.inserted;
+        summary.updated += sync.updated;
+    }
+
+    return summary;
+}
+
+function rejectionHash(venueId: string, raw: RawEvent): string {
+    return generateIdentityHash(venueId, `rejected:${raw.title}|${raw.dateRaw ?? ''}|${raw.startDate ?? ''}`);
+}
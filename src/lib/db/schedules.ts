@@ -0,0 +1,72 @@
+import { db, ScrapeLog, ScrapeSchedule, eq, desc } from 'astro:db';
+import { getVenueById } from '../../config/venues';
+import type { VenueScraper } from '../utils/scraper-core';
+import { countConsecutiveFailures, nextRunAt } from '../utils/schedule';
+import type { VenueRunState } from '../utils/schedule';
+
+/**
+ * Enough history to see a full backoff streak.
+ */
+const RUN_HISTORY_LIMIT = 20;
+
+/**
+ * A scheduled venue with its next due time.
+ */
+export interface ScheduledVenue {
+    venue: VenueScraper;
+    nextRunAt: Date;
+    state: VenueRunState;
+}
+
+/**
+ * Load every enabled schedule with the next time its venue is due.
+ * Schedules for venues without a registered (or enabled) scraper are ignored.
+ */
+export async function getScheduledVenues(): Promise<ScheduledVenue[]> {
+    const schedules = await db.select().from(ScrapeSchedule);
+    const scheduled: ScheduledVenue[] = [];
+
+    for (const schedule of schedules) {
+        const venue = getVenueById(schedule.venueId);
+        if (!venue?.enabled) continue;
+
+        const state = await getRunState(schedule.venueId);
+        const due = nextRunAt({
+            venueId: schedule.venueId,
+            cron: schedule.cron ?? null,
+            intervalMinutes: schedule.intervalMinutes ?? null,
+            jitterSeconds: schedule.jitterSeconds,
+            enabled: schedule.enabled,
+        }, state);
+
+        if (due) {
+            scheduled.push({ venue, nextRunAt: due, state });
+        }
+    }
+
+    return scheduled;
+}
+
+/**
+ * Get the venues that are due to be scraped now.
+ */
+export async function getDueVenues(now: Date = new Date()): Promise<ScheduledVenue[]> {
+    const scheduled = await getScheduledVenues();
+    return scheduled.filter((s) => s.nextRunAt <= now);
+}
+
+/**
+ * Summarize a venue's recent runs from ScrapeLog.
+ */
+export async function getRunState(venueId: string): Promise<VenueRunState> {
+    const logs = await db.select({ status: ScrapeLog.status, timestamp: ScrapeLog.timestamp })
+        .from(ScrapeLog)
+        .where(eq(ScrapeLog.venueId, venueId))
+        .orderBy(desc(ScrapeLog.timestamp))
+        .limit(RUN_HISTORY_LIMIT);
+
+    return {
+        lastRunAt: logs[0]?.timestamp ?? null,
+        consecutiveFailures: countConsecutiveFailures(logs),
+    };
+}
@@ -0,0 +1,166 @@
+import { db, ScrapeLog } from 'astro:db';
+import { randomUUID } from 'crypto';
+import { runScrapePool } from '../utils/scrape-pool';
+import type { ScrapePoolOptions } from '../utils/scrape-pool';
+import { findRejectedEvents, normalizeEvents } from '../utils/normalize';
+import { DEFAULT_CONFIG } from '../utils/scraper-core';
+import type { ScrapeResult, VenueScraper } from '../utils/scraper-core';
+import { detectAnomalies } from '../utils/anomaly';
+import type { Anomaly, RunStats } from '../utils/anomaly';
+import { createNotifier } from '../utils/notifier';
+import type { Notifier } from '../utils/notifier';
+import { syncVenueEvents } from './sync';
+import { getRunHistory } from './anomalies';
+import { quarantineEvents } from './rejections';
+
+/**
+ * Per-venue line of a scrape report.
+ */
+export interface VenueReport {
+    venueId: string;
+    venue: string;
+    status: ScrapeResult['status'];
+    found: number;
+    inserted: number;
+    updated: number;
+    removed: number;
+    durationMs: number;
+    anomalies: Anomaly[];
+}
+
+/**
+ * Aggregated outcome of a scrape run.
+ */
+export interface ScrapeReport {
+    startTime: Date;
+    endTime: Date;
+    totalEvents: number;
+    insertedEvents: number;
+    updatedEvents: number;
+    removedEvents: number;
+    results: VenueReport[];
+    errors: string[];
+}
+
+/**
+ * Options for `runScrape`: pool settings, a per-venue progress hook and
+ * where to send anomaly alerts (defaults to `createNotifier()`).
+ */
+export interface ScrapeRunOptions extends Partial<ScrapePoolOptions> {
+    onVenueDone?: (line: VenueReport) => Promise<void>;
+    notifier?: Notifier;
+}
+
+/**
+ * Scrape venues concurrently, logging each attempt to `ScrapeLog`
+ * and syncing successful results into `Event`.
+ *
+ * Successful runs are compared against the venue's recent history, and
+ * anything that looks like a silently broken scraper raises an alert.
+ */
+export async function runScrape(
+    venues: VenueScraper[],
+    { onVenueDone, notifier = createNotifier(), ...options }: ScrapeRunOptions = {}
+): Promise<ScrapeReport> {
+    const report: ScrapeReport = {
+        startTime: new Date(),
+        endTime: new Date(),
+        totalEvents: 0,
+        insertedEvents: 0,
+        updatedEvents: 0,
+        removedEvents: 0,
+        results: [],
+        errors: [],
+    };
+
+    await runScrapePool(venues, options, async (venue, result) => {
+        const line: VenueReport = {
+            venueId: venue.id,
+            venue: venue.name,
+            status: result.status,
+            found: result.events.length,
+            inserted: 0,
+            updated: 0,
+            removed: 0,
+            durationMs: result.durationMs,
+            anomalies: [],
+        };
+        report.results.push(line);
+
+        if (result.status !== 'success') {
+            await logRun(venue.id, result);
+            report.errors.push(`${venue.name}: ${result.errorMessage}`);
+            await onVenueDone?.(line);
+            return;
+        }
+
+        const now = new Date();
+        const normalized = normalizeEvents(venue.id, result.events, {
+            now,
+            horizonDays: options.config?.horizonDays ?? DEFAULT_CONFIG.horizonDays,
+        });
+        const rejections = findRejectedEvents(result.events, now);
+        const stats: RunStats = {
+            itemsFound: result.events.length,
+            unparsableDates: rejections.length,
+            missingPrices: normalized.filter((e) => e.price === null && !e.isFree).length,
+        };
+
+        // Compare against history before this run is part of it
+        line.anomalies = detectAnomalies(stats, await getRunHistory(venue.id));
+        await logRun(venue.id, result, stats, line.anomalies);
+        await quarantineEvents(venue.id, rejections, now);
+
+        if (line.anomalies.length > 0) {
+            await notifier.notify({
+                venueId: venue.id,
+                venue: venue.name,
+                timestamp: new Date(),
+                anomalies: line.anomalies,
+            }).catch((e) => console.error(`   ❌ Failed to send alert for ${venue.name}:`, e));
+        }
+
+        // A run that looks broken can't be trusted to say what was taken down
+        const summary = await syncVenueEvents(venue.id, normalized, new Date(), {
+            markRemoved: line.anomalies.length === 0,
+        });
+
+        console.log(`   ✅ ${venue.name}: ${summary.inserted} new, ${summary.updated} updated, ${summary.removed} removed, ${summary.matched} matched elsewhere, ${rejections.length} quarantined`);
+        line.inserted = summary.inserted;
+        line.updated = summary.updated;
+        line.removed = summary.removed;
+        report.insertedEvents += summary.inserted;
+        report.updatedEvents += summary.updated;
+        report.removedEvents += summary.removed;
+
+        await onVenueDone?.(line);
+    });
+
+    report.endTime = new Date();
+    report.totalEvents = report.results.reduce((acc, r) => acc + r.found, 0);
+
+    return report;
+}
+
+/**
+ * Record one scrape attempt in ScrapeLog.
+ */
+async function logRun(
+    venueId: string,
+    result: ScrapeResult,
+    stats?: RunStats,
+    anomalies: Anomaly[] = []
+): Promise<void> {
+    await db.insert(ScrapeLog).values({
+        id: randomUUID(),
+        venueId,
+        timestamp: new Date(),
+        status: result.status,
+        itemsFound: result.events.length,
+        errorMessage: result.errorMessage,
+        durationMs: result.durationMs,
+        unparsableDates: stats?.unparsableDates ?? 0,
+        missingPrices: stats?.missingPrices ?? 0,
+        anomalies: anomalies.length > 0 ? anomalies : undefined,
+    });
+}
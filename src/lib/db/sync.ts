@@ -0,0 +1,177 @@
+import { db, Event, EventChange, eq, inArray } from 'astro:db';
+import { randomUUID } from 'crypto';
+import type { EventStatus } from '../../../db/config';
+import { diffEvent, TRACKED_FIELDS } from '../utils/event-diff';
+import type { FieldChange } from '../utils/event-diff';
+import type { NormalizedEvent } from '../utils/normalize';
+import { AUTO_MATCH_SCORE, findBestMatch, findReschedules } from '../utils/event-match';
+import type { MatchResult } from '../utils/event-match';
+import { matchAcrossVenues, recordMatch } from './matches';
+
+type EventRow = typeof Event.$inferSelect;
+
+/**
+ * Statuses of events still on a venue's calendar, which vanish as 'removed'.
+ */
+const LISTED_STATUSES = new Set<string>(['scheduled', 'sold-out', 'postponed'] satisfies EventStatus[]);
+
+/**
+ * Counts of what a sync did to a venue's events.
+ */
+export interface SyncSummary {
+    inserted: number;
+    updated: number;
+    unchanged: number;
+    removed: number;
+    matched: number;     // new events linked to, or queued for review against, other venues' listings
+}
+
+/**
+ * Reconcile a venue's freshly scraped events with the `Event` table.
+ *
+ * - Existing hashes are updated field by field, with each change recorded in `EventChange`.
+ * - Unknown hashes that are reschedules of a stored event (see `findReschedules`) update it.
+ * - Other unknown hashes are fuzzy-matched against the venue's other stored events (see
+ *   `findBestMatch`): a confident match is updated like a known hash, anything else is
+ *   inserted, with an uncertain match queued for review and other venues' listings of
+ *   the same show linked or queued (see `matchAcrossVenues`).
+ * - Listed events take the scraped status ('sold-out', 'cancelled' or 'postponed' if the
+ *   venue says so, else 'scheduled').
+ * - Upcoming events that are no longer listed are marked 'removed' (cancelled ones stay cancelled).
+ *   Only events up to the latest scraped date are considered, so anything beyond
+ *   the calendar's visible range is left alone. An empty scrape removes nothing,
+ *   and neither does one with `markRemoved: false` (e.g. a run flagged as anomalous).
+ */
+export async function syncVenueEvents(
+    venueId: string,
+    incoming: NormalizedEvent[],
+    now: Date = new Date(),
+    { markRemoved = true }: { markRemoved?: boolean } = {}
+): Promise<SyncSummary> {
+    const summary: SyncSummary = { inserted: 0, updated: 0, unchanged: 0, removed: 0, matched: 0 };
+
+    const existing = await db.select().from(Event).where(eq(Event.venueId, venueId));
+    const existingByHash = new Map(existing.map((e) => [e.hash, e]));
+    const incomingHashes = new Set<string>();
+    const claimedIds = new Set<string>();
+
+    const unmatched: NormalizedEvent[] = [];
+    const newEvents: NormalizedEvent[] = [];
+    const seenIds: string[] = [];
+
+    const update = async (stored: EventRow, event: NormalizedEvent) => {
+        claimedIds.add(stored.id);
+
+        const changes = diffEvent(stored, event);
+        if (stored.status !== event.status) {
+            changes.push({ field: 'status', oldValue: stored.status, newValue: event.status });
+        }
+
+        if (changes.length === 0) {
+            // Still re-key it when a second showing that day changed its hash
+            if (stored.hash !== event.hash) {
+                await db.update(Event).set({ hash: event.hash }).where(eq(Event.id, stored.id));
+            }
+            seenIds.push(stored.id);
+            summary.unchanged++;
+            return;
+        }
+
+        const updates = Object.fromEntries(TRACKED_FIELDS.map((field) => [field, event[field]]));
+        await db.update(Event)
+            .set({ ...updates, hash: event.hash, externalId: event.externalId, seriesId: event.seriesId, status: event.status, lastSeenAt: now, updatedAt: now })
+            .where(eq(Event.id, stored.id));
+        await recordChanges(stored.id, changes, now);
+        summary.updated++;
+    };
+
+    for (const event of incoming) {
+        // The same listing can appear twice in one scrape; keep the first
+        if (incomingHashes.has(event.hash)) continue;
+        incomingHashes.add(event.hash);
+
+        const stored = existingByHash.get(event.hash);
+        if (stored) {
+            await update(stored, event);
+        } else {
+            unmatched.push(event);
+        }
+    }
+
+    // A rescheduled listing without a venue ID or URL of its own hashes
+    // differently; the date change is recorded like any other
+    const listed = existing.filter((e) => !e.duplicateOf);
+    const reschedules = findReschedules(unmatched, listed, { now, claimed: claimedIds });
+    for (const [event, stored] of reschedules) {
+        await update(stored, event);
+    }
+
+    // Likewise a listing whose title or time changed; find the stored
+    // event it most likely is before treating it as new
+    const pendingMatches: [NormalizedEvent, EventRow, MatchResult][] = [];
+    for (const event of unmatched.filter((e) => !reschedules.has(e))) {
+        const match = findBestMatch(event, listed.filter((e) => !claimedIds.has(e.id)));
+
+        if (match && match.score >= AUTO_MATCH_SCORE) {
+            await update(match.candidate, event);
+            continue;
+        }
+
+        newEvents.push({ ...event, createdAt: now, updatedAt: now });
+        if (match) pendingMatches.push([event, match.candidate, match]);
+    }
+
+    if (seenIds.length > 0) {
+        await db.update(Event).set({ lastSeenAt: now }).where(inArray(Event.id, seenIds));
+    }
+
+    if (newEvents.length > 0) {
+        await db.insert(Event).values(newEvents.map((e) => ({ ...e, lastSeenAt: now })));
+        summary.inserted = newEvents.length;
+    }
+
+    for (const [event, stored, match] of pendingMatches) {
+        await recordMatch(event.id, stored.id, match, 'pending', now);
+    }
+    summary.matched = await matchAcrossVenues(newEvents, now);
+
+    // Mark vanished listings, within the range this scrape covered
+    if (markRemoved && incoming.length > 0) {
+        const horizon = Math.max(...incoming.map((e) => e.date.getTime()));
+        const vanished = existing.filter((e) =>
+            LISTED_STATUSES.has(e.status) &&
+            !claimedIds.has(e.id) &&
+            e.date >= now &&
+            e.date.getTime() <= horizon
+        );
+
+        for (const event of vanished) {
+            await markEventStatus(event.id, event.status, 'removed', now);
+        }
+        summary.removed = vanished.length;
+    }
+
+    return summary;
+}
+
+/**
+ * Change an event's status and record it in the change history.
+ */
+export async function markEventStatus(
+    eventId: string,
+    from: string,
+    to: EventStatus,
+    now: Date = new Date()
+): Promise<void> {
+    await db.update(Event).set({ status: to, updatedAt: now }).where(eq(Event.id, eventId));
+    await recordChanges(eventId, [{ field: 'status', oldValue: from, newValue: to }], now);
+}
+
+async function recordChanges(eventId: string, changes: FieldChange[], changedAt: Date): Promise<void> {
+    await db.insert(EventChange).values(changes.map((change) => ({
+        id: randomUUID(),
+        eventId,
+        ...change,
+        changedAt,
+    })));
+}
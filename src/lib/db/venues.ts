@@ -0,0 +1,15 @@
+import { db, Venue, eq, asc } from 'astro:db';
+
+export type VenueRow = typeof Venue.$inferSelect;
+
+/**
+ * All venues in the database, by name.
+ */
+export async function listVenues(): Promise<VenueRow[]> {
+    return db.select().from(Venue).orderBy(asc(Venue.name));
+}
+
+export async function getVenue(id: string): Promise<VenueRow | undefined> {
+    const [venue] = await db.select().from(Venue).where(eq(Venue.id, id));
+    return venue;
+}
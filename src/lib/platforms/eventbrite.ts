@@ -0,0 +1,97 @@
+import type { RawEvent, ScrapeContext, StructuredEventStatus } from '../utils/scraper-core';
+import { MAX_PAGES, lowestPrice, toIsoDate } from './shared';
+
+/**
+ * Eventbrite organizer events (API v3). Needs a private token in
+ * EVENTBRITE_TOKEN.
+ *
+ * Endpoint: https://www.eventbriteapi.com/v3/organizers/{organizerId}/events/
+ *
+ * Response fields used:
+ * - events[]: id, series_id, name.text, description.text, start.utc, end.utc, url, is_free,
+ *   status ("canceled"), logo.url, venue.name,
+ *   ticket_availability.minimum_ticket_price.major_value,
+ *   ticket_availability.is_sold_out
+ * - pagination.has_more_items, pagination.continuation
+ */
+
+interface EventbriteEvent {
+    id?: string;
+    series_id?: string | null;
+    name: { text: string };
+    description?: { text?: string | null } | null;
+    start: { utc: string };
+    end?: { utc?: string } | null;
+    url: string;
+    is_free?: boolean;
+    status?: string;
+    logo?: { url?: string } | null;
+    venue?: { name?: string } | null;
+    ticket_availability?: {
+        minimum_ticket_price?: { major_value?: string } | null;
+        is_sold_out?: boolean;
+    } | null;
+}
+
+interface EventbriteEventsPage {
+    events?: EventbriteEvent[];
+    pagination?: { has_more_items?: boolean; continuation?: string };
+}
+
+const API_BASE = 'https://www.eventbriteapi.com/v3';
+
+export async function fetchEventbriteEvents(
+    organizerId: string,
+    context: ScrapeContext,
+    token: string | undefined = process.env.EVENTBRITE_TOKEN
+): Promise<RawEvent[]> {
+    if (!token) {
+        throw new Error('EVENTBRITE_TOKEN is not set');
+    }
+
+    const events: RawEvent[] = [];
+    let continuation: string | undefined;
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+        const url = new URL(`${API_BASE}/organizers/${encodeURIComponent(organizerId)}/events/`);
+        url.searchParams.set('status', 'live,started');
+        url.searchParams.set('order_by', 'start_asc');
+        url.searchParams.set('expand', 'venue,ticket_availability');
+        url.searchParams.set('token', token);
+        if (continuation) url.searchParams.set('continuation', continuation);
+
+        const data: EventbriteEventsPage = await context.fetchJson<EventbriteEventsPage>(url.href);
+
+        for (const item of data.events ?? []) {
+            const startDate = toIsoDate(item.start?.utc);
+            if (!item.name?.text || !startDate) continue;
+
+            const minimum = item.ticket_availability?.minimum_ticket_price?.major_value;
+
+            events.push({
+                title: item.name.text.trim(),
+                dateRaw: startDate,
+                startDate,
+                endDate: toIsoDate(item.end?.utc),
+                url: item.url,
+                externalId: item.id,
+                seriesKey: item.series_id || undefined,
+                priceRaw: item.is_free ? 'Free' : lowestPrice(minimum ? [minimum] : []),
+                location: item.venue?.name || undefined,
+                description: item.description?.text || undefined,
+                imageUrl: item.logo?.url || undefined,
+                soldOut: item.ticket_availability?.is_sold_out || undefined,
+                eventStatus: statusOf(item.status),
+            });
+        }
+
+        continuation = data.pagination?.continuation;
+        if (!data.pagination?.has_more_items || !continuation) break;
+    }
+
+    return events;
+}
+
+function statusOf(status: string | undefined): StructuredEventStatus | undefined {
+    return status === 'canceled' ? 'cancelled' : undefined;
+}
@@ -0,0 +1,75 @@
+import type { RawEvent, ScrapeContext } from '../utils/scraper-core';
+import { MAX_PAGES, htmlToText } from './shared';
+
+/**
+ * WordPress + The Events Calendar ("Tribe Events") REST API.
+ *
+ * Endpoint: {site}/wp-json/tribe/events/v1/events (upcoming events by default)
+ *
+ * Response fields used:
+ * - events[]: id, title (HTML), url, utc_start_date ("2024-01-13 03:30:00"), utc_end_date,
+ *   cost ("$15 – $25", "Free"), description (HTML), website (tickets),
+ *   venue.venue, image.url
+ * - next_rest_url
+ */
+
+interface TribeEvent {
+    id?: number;
+    title: string;
+    url: string;
+    utc_start_date: string;
+    utc_end_date?: string;
+    cost?: string;
+    description?: string;
+    website?: string;
+    venue?: { venue?: string } | [];
+    image?: { url?: string } | false;
+}
+
+interface TribeEventsPage {
+    events?: TribeEvent[];
+    next_rest_url?: string;
+}
+
+const PER_PAGE = 50;
+
+export async function fetchEventsCalendarEvents(siteUrl: string, context: ScrapeContext): Promise<RawEvent[]> {
+    const events: RawEvent[] = [];
+    const first = new URL('/wp-json/tribe/events/v1/events', siteUrl);
+    first.searchParams.set('per_page', String(PER_PAGE));
+    let pageUrl: string | undefined = first.href;
+
+    for (let page = 1; pageUrl && page <= MAX_PAGES; page++) {
+        const data: TribeEventsPage = await context.fetchJson<TribeEventsPage>(pageUrl);
+
+        for (const item of data.events ?? []) {
+            const startDate = fromUtcDate(item.utc_start_date);
+            if (!item.title || !startDate) continue;
+
+            events.push({
+                title: htmlToText(item.title),
+                dateRaw: startDate,
+                startDate,
+                endDate: fromUtcDate(item.utc_end_date),
+                url: item.url,
+                externalId: item.id?.toString(),
+                priceRaw: item.cost ? htmlToText(item.cost) || undefined : undefined,
+                location: (!Array.isArray(item.venue) && item.venue?.venue) ? htmlToText(item.venue.venue) : undefined,
+                description: item.description ? htmlToText(item.description) || undefined : undefined,
+                ticketUrl: item.website || undefined,
+                imageUrl: item.image ? item.image.url : undefined,
+            });
+        }
+
+        pageUrl = data.next_rest_url;
+    }
+
+    return events;
+}
+
+/**
+ * "2024-01-13 03:30:00" (UTC) -> ISO 8601.
+ */
+function fromUtcDate(value: string | undefined): string | undefined {
+    return value ? new Date(`${value.replace(' ', 'T')}Z`).toISOString() : undefined;
+}
@@ -0,0 +1,45 @@
+import type { RawEvent, ScrapeContext } from '../utils/scraper-core';
+import { expandEvents, parseIcs } from '../utils/ics-parser';
+import { horizonEnd } from '../utils/calendar-months';
+
+/**
+ * iCalendar (.ics) feeds, as published by Google Calendar, WordPress
+ * calendar plugins and many promoters.
+ *
+ * Recurring events are expanded from now until the horizon (the venue's
+ * `horizonDays`, else the scraper's). Start times are already absolute,
+ * so they're passed on as `startDate` and normalization never has to
+ * guess at `dateRaw`.
+ */
+
+export async function fetchIcsEvents(
+    feedUrl: string,
+    context: ScrapeContext,
+    options: { now?: Date; horizonDays?: number } = {}
+): Promise<RawEvent[]> {
+    const now = options.now ?? context.now ?? new Date();
+    const until = horizonEnd(now, options.horizonDays ?? context.horizonDays);
+
+    const calendar = await context.fetchHtml(feedUrl);
+    if (!/BEGIN:VCALENDAR/i.test(calendar)) {
+        throw new Error(`${feedUrl} is not an iCalendar feed`);
+    }
+
+    return expandEvents(parseIcs(calendar), { from: now, until }).map((occurrence) => {
+        const startDate = occurrence.start.toISOString();
+
+        return {
+            title: occurrence.summary,
+            dateRaw: startDate,
+            startDate,
+            endDate: occurrence.end?.toISOString(),
+            url: occurrence.url,
+            // Occurrences of a recurring event share a UID
+            externalId: occurrence.recurrenceId ? `${occurrence.uid}@${occurrence.recurrenceId.toISOString()}` : occurrence.uid,
+            seriesKey: occurrence.recurrenceId ? occurrence.uid : undefined,
+            location: occurrence.location,
+            description: occurrence.description,
+            eventStatus: occurrence.status === 'CANCELLED' ? 'cancelled' : undefined,
+        };
+    });
+}
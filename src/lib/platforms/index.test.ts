@@ -0,0 +1,259 @@
+import { describe, it, expect, vi } from 'vitest';
+import { definePlatformVenue } from './index';
+import { fetchEventbriteEvents } from './eventbrite';
+import { fetchIcsEvents } from './ics';
+import { normalizeEvents } from '../utils/normalize';
+import type { ScrapeContext } from '../utils/scraper-core';
+
+/**
+ * A scrape context that answers fetchJson from canned responses, keyed by URL.
+ */
+function jsonContext(responses: Record<string, unknown>): ScrapeContext {
+    return {
+        fetchHtml: async (url) => { throw new Error(`Unexpected HTML fetch: ${url}`); },
+        fetchJson: async <T>(url: string) => {
+            if (!(url in responses)) throw new Error(`No response for ${url}`);
+            return responses[url] as T;
+        },
+    };
+}
+
+const venue = { id: 'example', name: 'Example', enabled: true };
+
+describe('definePlatformVenue', () => {
+    it('fetches through the scrape context instead of a browser', async () => {
+        const scraper = definePlatformVenue({ ...venue, url: 'https://example.com/events', platform: 'squarespace' });
+
+        expect(scraper.fetchMode).toBe('api');
+        await expect(scraper.scrape(null, null)).rejects.toThrow('scrape context');
+    });
+
+    it('reads Squarespace events collections and follows pagination', async () => {
+        const context = jsonContext({
+            'https://example.com/events?format=json': {
+                upcoming: [{
+                    title: 'Band X ',
+                    startDate: Date.parse('2024-01-13T04:00:00Z'),
+                    fullUrl: '/events/band-x',
+                    assetUrl: 'https://images.example.com/band-x.jpg',
+                    location: { addressTitle: 'Example Hall' },
+                }],
+                pagination: { nextPage: true, nextPageUrl: '/events?offset=1' },
+            },
+            'https://example.com/events?offset=1&format=json': {
+                upcoming: [{ title: 'Comic Y', startDate: Date.parse('2024-01-14T05:00:00Z'), fullUrl: '/events/comic-y' }],
+            },
+        });
+
+        const scraper = definePlatformVenue({ ...venue, url: 'https://example.com/events', platform: 'squarespace' });
+        const events = await scraper.scrape(null, null, context);
+
+        expect(events).toEqual([
+            {
+                title: 'Band X',
+                dateRaw: '2024-01-13T04:00:00.000Z',
+                startDate: '2024-01-13T04:00:00.000Z',
+                url: 'https://example.com/events/band-x',
+                location: 'Example Hall',
+                imageUrl: 'https://images.example.com/band-x.jpg',
+            },
+            expect.objectContaining({ title: 'Comic Y', url: 'https://example.com/events/comic-y' }),
+        ]);
+    });
+
+    it('reads The Events Calendar REST API and decodes HTML titles', async () => {
+        const context = jsonContext({
+            'https://venue.example.com/wp-json/tribe/events/v1/events?per_page=50': {
+                events: [{
+                    title: 'Rock &amp; Roll &#8211; Night',
+                    url: 'https://venue.example.com/event/rock-roll/',
+                    utc_start_date: '2024-01-13 03:30:00',
+                    cost: '$15 &ndash; $20',
+                    venue: { venue: 'Park Theatre' },
+                    image: { url: 'https://venue.example.com/rock.jpg' },
+                }],
+                next_rest_url: 'https://venue.example.com/wp-json/tribe/events/v1/events?per_page=50&page=2',
+            },
+            'https://venue.example.com/wp-json/tribe/events/v1/events?per_page=50&page=2': {
+                events: [{ title: 'Film', url: 'https://venue.example.com/event/film/', utc_start_date: '2024-01-14 04:00:00', venue: [], image: false }],
+            },
+        });
+
+        const scraper = definePlatformVenue({ ...venue, url: 'https://venue.example.com/events/', platform: 'events-calendar' });
+        const events = await scraper.scrape(null, null, context);
+
+        expect(events).toHaveLength(2);
+        expect(events[0]).toMatchObject({
+            title: 'Rock & Roll – Night',
+            startDate: '2024-01-13T03:30:00.000Z',
+            priceRaw: '$15 – $20',
+            location: 'Park Theatre',
+            imageUrl: 'https://venue.example.com/rock.jpg',
+        });
+        expect(events[1]).toMatchObject({ title: 'Film', priceRaw: undefined, location: undefined, imageUrl: undefined });
+
+        // Adapter output goes through normalization like any scraped event
+        const [normalized] = normalizeEvents('park-theatre', events);
+        expect(normalized).toMatchObject({ price: 1500, date: new Date('2024-01-13T03:30:00Z') });
+    });
+
+    it('reads Showpass events with their lowest ticket price', async () => {
+        const context = jsonContext({
+            'https://www.showpass.com/api/public/events/?venue__in=123&page_size=50': {
+                results: [{
+                    name: 'DJ Night',
+                    starts_on: '2024-01-12T21:00:00-08:00',
+                    frontend_details_url: 'https://www.showpass.com/dj-night/',
+                    image: null,
+                    is_cancelled: true,
+                    venue: { name: 'Example Club' },
+                    ticket_types: [{ price: '25.00' }, { price: '12.50' }],
+                }],
+                next: null,
+            },
+        });
+
+        const scraper = definePlatformVenue({ ...venue, url: 'https://example.com', platform: 'showpass', venueId: '123' });
+        const [event] = await scraper.scrape(null, null, context);
+
+        expect(event).toMatchObject({
+            title: 'DJ Night',
+            startDate: '2024-01-13T05:00:00.000Z',
+            priceRaw: '$12.50',
+            location: 'Example Club',
+            eventStatus: 'cancelled',
+        });
+    });
+
+    it('pages through Tixr until a short page', async () => {
+        const page = (n: number) => `https://studio.tixr.com/v1/groups/42/events?cpk=key&page_number=${n}&page_size=50`;
+        const full = Array.from({ length: 50 }, (_, i) => ({ name: `Show ${i}`, start_date: Date.parse('2024-02-01T04:00:00Z') + i * 86_400_000 }));
+        const context = jsonContext({
+            [page(1)]: full,
+            [page(2)]: [{ name: 'Last Show', start_date: '2024-04-01T20:00:00-07:00', sales: [{ current_price: 0 }] }],
+        });
+
+        const fetchJson = vi.spyOn(context, 'fetchJson');
+
+        const scraper = definePlatformVenue({ ...venue, url: 'https://example.com', platform: 'tixr', groupId: '42', publicKey: 'key' });
+        const events = await scraper.scrape(null, null, context);
+
+        expect(events).toHaveLength(51);
+        expect(events[50]).toMatchObject({ title: 'Last Show', startDate: '2024-04-02T03:00:00.000Z', priceRaw: 'Free' });
+        expect(fetchJson).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('ics platform', () => {
+    const feed = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:karaoke',
+        'SUMMARY:Karaoke',
+        'URL:https://example.com/karaoke',
+        'DTSTART;TZID=America/Vancouver:20240103T210000',
+        'RRULE:FREQ=WEEKLY;BYDAY=WE',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:gala',
+        'SUMMARY:Gala',
+        'STATUS:CANCELLED',
+        'DTSTART:20240120T040000Z',
+        'END:VEVENT',
+        'END:VCALENDAR',
+    ].join('\r\n');
+
+    it('expands the feed into events with absolute start dates', async () => {
+        const context = jsonContext({});
+        context.fetchHtml = async (url) => {
+            expect(url).toBe('https://example.com/calendar.ics');
+            return feed;
+        };
+
+        const events = await definePlatformVenue({
+            ...venue,
+            url: 'https://example.com/calendar',
+            platform: 'ics',
+            feedUrl: 'https://example.com/calendar.ics',
+            horizonDays: 14,
+        }).scrape(null, null, context);
+
+        // Run "now" is the real clock, so check the shape rather than dates
+        expect(events.length).toBeGreaterThanOrEqual(2);
+        expect(events.every((e) => e.title === 'Karaoke' && e.startDate === e.dateRaw)).toBe(true);
+    });
+
+    it('skips dateRaw parsing and hashes occurrences like any event', async () => {
+        const context = jsonContext({});
+        context.fetchHtml = async () => feed;
+
+        const events = await fetchIcsEvents('https://example.com/calendar.ics', context, {
+            now: new Date('2024-01-01T00:00:00Z'),
+            horizonDays: 14,
+        });
+
+        expect(events).toEqual([
+            expect.objectContaining({ title: 'Karaoke', startDate: '2024-01-04T05:00:00.000Z' }),
+            expect.objectContaining({ title: 'Karaoke', startDate: '2024-01-11T05:00:00.000Z' }),
+            expect.objectContaining({ title: 'Gala', startDate: '2024-01-20T04:00:00.000Z', eventStatus: 'cancelled' }),
+        ]);
+
+        // A re-listed occurrence gets the same hash, so sync keeps one copy
+        const normalized = normalizeEvents('example', [...events, { ...events[0] }]);
+        expect(normalized.map((e) => e.date.toISOString())).toEqual([
+            '2024-01-04T05:00:00.000Z',
+            '2024-01-11T05:00:00.000Z',
+            '2024-01-20T04:00:00.000Z',
+            '2024-01-04T05:00:00.000Z',
+        ]);
+        expect(new Set(normalized.map((e) => e.hash)).size).toBe(3);
+        expect(normalized[2].status).toBe('cancelled');
+    });
+
+    it('rejects responses that are not calendars', async () => {
+        const context = jsonContext({});
+        context.fetchHtml = async () => '<html>Not found</html>';
+
+        await expect(fetchIcsEvents('https://example.com/calendar.ics', context)).rejects.toThrow('not an iCalendar feed');
+    });
+});
+
+describe('fetchEventbriteEvents', () => {
+    it('requires a token', async () => {
+        await expect(fetchEventbriteEvents('1', jsonContext({}), '')).rejects.toThrow('EVENTBRITE_TOKEN');
+    });
+
+    it('follows continuations and maps free and cancelled events', async () => {
+        const base = 'https://www.eventbriteapi.com/v3/organizers/99/events/?status=live%2Cstarted&order_by=start_asc&expand=venue%2Cticket_availability&token=secret';
+        const context = jsonContext({
+            [base]: {
+                events: [{
+                    name: { text: 'Workshop' },
+                    start: { utc: '2024-01-13T02:00:00Z' },
+                    url: 'https://www.eventbrite.ca/e/workshop-1',
+                    is_free: true,
+                    status: 'live',
+                    logo: { url: 'https://img.evbuc.com/workshop.jpg' },
+                }],
+                pagination: { has_more_items: true, continuation: 'abc' },
+            },
+            [`${base}&continuation=abc`]: {
+                events: [{
+                    name: { text: 'Concert' },
+                    start: { utc: '2024-01-14T04:00:00Z' },
+                    url: 'https://www.eventbrite.ca/e/concert-2',
+                    status: 'canceled',
+                    ticket_availability: { minimum_ticket_price: { major_value: '30.00' } },
+                }],
+                pagination: { has_more_items: false },
+            },
+        });
+
+        const events = await fetchEventbriteEvents('99', context, 'secret');
+
+        expect(events).toEqual([
+            expect.objectContaining({ title: 'Workshop', priceRaw: 'Free', imageUrl: 'https://img.evbuc.com/workshop.jpg', eventStatus: undefined }),
+            expect.objectContaining({ title: 'Concert', priceRaw: '$30', eventStatus: 'cancelled' }),
+        ]);
+    });
+});
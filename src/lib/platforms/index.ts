@@ -0,0 +1,68 @@
+import type { RawEvent, ScrapeContext, VenueScraper } from '../utils/scraper-core';
+import { fetchSquarespaceEvents } from './squarespace';
+import { fetchEventsCalendarEvents } from './events-calendar';
+import { fetchEventbriteEvents } from './eventbrite';
+import { fetchShowpassEvents } from './showpass';
+import { fetchTixrEvents } from './tixr';
+import { fetchIcsEvents } from './ics';
+
+/**
+ * Platform adapters.
+ *
+ * Many venues publish their calendar through a ticketing or CMS platform
+ * with a public JSON API, or as an iCalendar feed. For those, a venue is
+ * just its URL and platform; no browser or selectors are needed.
+ */
+
+export type Platform = PlatformVenueConfig['platform'];
+
+export type PlatformVenueConfig = {
+    id: string;
+    name: string;
+    url: string;            // the venue's calendar page, for people and robots.txt
+    enabled: boolean;
+} & (
+    | { platform: 'squarespace' }          // url is the events collection
+    | { platform: 'events-calendar' }      // url is on the WordPress site
+    | { platform: 'eventbrite'; organizerId: string }
+    | { platform: 'showpass'; venueId: string }
+    | { platform: 'tixr'; groupId: string; publicKey: string }
+    | { platform: 'ics'; feedUrl?: string; horizonDays?: number }   // feedUrl defaults to url
+);
+
+/**
+ * Build a VenueScraper that reads a platform's API.
+ */
+export function definePlatformVenue(config: PlatformVenueConfig): VenueScraper {
+    return {
+        id: config.id,
+        name: config.name,
+        url: config.url,
+        enabled: config.enabled,
+        fetchMode: 'api',
+
+        async scrape(_page, _html, context?: ScrapeContext): Promise<RawEvent[]> {
+            if (!context) {
+                throw new Error(`${config.name}: platform venues need a scrape context`);
+            }
+            return fetchPlatformEvents(config, context);
+        },
+    };
+}
+
+export function fetchPlatformEvents(config: PlatformVenueConfig, context: ScrapeContext): Promise<RawEvent[]> {
+    switch (config.platform) {
+        case 'squarespace':
+            return fetchSquarespaceEvents(config.url, context);
+        case 'events-calendar':
+            return fetchEventsCalendarEvents(config.url, context);
+        case 'eventbrite':
+            return fetchEventbriteEvents(config.organizerId, context);
+        case 'showpass':
+            return fetchShowpassEvents(config.venueId, context);
+        case 'tixr':
+            return fetchTixrEvents(config.groupId, config.publicKey, context);
+        case 'ics':
+            return fetchIcsEvents(config.feedUrl ?? config.url, context, { horizonDays: config.horizonDays });
+    }
+}
@@ -0,0 +1,43 @@
+import { parseHTML } from '../utils/scraper-core';
+import { formatPrice } from '../utils/classifier';
+
+/**
+ * Helpers shared by the platform adapters.
+ */
+
+/**
+ * Stop following "next page" links after this many pages.
+ */
+export const MAX_PAGES = 10;
+
+/**
+ * Strip tags and decode entities ("Rock &amp; Roll" -> "Rock & Roll").
+ */
+export function htmlToText(html: string): string {
+    return parseHTML(html).root().text().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The lowest of a list of dollar amounts as a price string ("$15", "Free"),
+ * ready for parsePrice. Returns undefined if none are numbers.
+ */
+export function lowestPrice(values: unknown[]): string | undefined {
+    const dollars = values
+        .map((value) => typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^\d.]/g, '')))
+        .filter((value) => Number.isFinite(value));
+
+    if (dollars.length === 0) return undefined;
+
+    const lowest = Math.min(...dollars);
+    return formatPrice(Math.round(lowest * 100), lowest === 0) ?? undefined;
+}
+
+/**
+ * Epoch milliseconds or an ISO string with an offset, as ISO 8601 (UTC).
+ */
+export function toIsoDate(value: unknown): string | undefined {
+    if (typeof value !== 'number' && typeof value !== 'string') return undefined;
+
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
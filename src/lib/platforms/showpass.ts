@@ -0,0 +1,71 @@
+import type { RawEvent, ScrapeContext } from '../utils/scraper-core';
+import { MAX_PAGES, htmlToText, lowestPrice, toIsoDate } from './shared';
+
+/**
+ * Showpass public events API.
+ *
+ * Endpoint: https://www.showpass.com/api/public/events/?venue__in={venueId}
+ *
+ * Response fields used:
+ * - results[]: id, name, starts_on, ends_on (ISO with offset), frontend_details_url,
+ *   image, description (HTML), is_cancelled, inventory_sold_out, venue.name,
+ *   ticket_types[].price ("15.00")
+ * - next (URL of the following page, or null)
+ */
+
+interface ShowpassEvent {
+    id?: number;
+    name: string;
+    starts_on: string;
+    ends_on?: string | null;
+    frontend_details_url?: string;
+    image?: string | null;
+    description?: string | null;
+    is_cancelled?: boolean;
+    inventory_sold_out?: boolean;
+    venue?: { name?: string } | null;
+    ticket_types?: { price?: string | number }[];
+}
+
+interface ShowpassEventsPage {
+    results?: ShowpassEvent[];
+    next?: string | null;
+}
+
+const API_BASE = 'https://www.showpass.com/api/public/events/';
+
+export async function fetchShowpassEvents(venueId: string, context: ScrapeContext): Promise<RawEvent[]> {
+    const events: RawEvent[] = [];
+    const first = new URL(API_BASE);
+    first.searchParams.set('venue__in', venueId);
+    first.searchParams.set('page_size', '50');
+    let pageUrl: string | null | undefined = first.href;
+
+    for (let page = 1; pageUrl && page <= MAX_PAGES; page++) {
+        const data: ShowpassEventsPage = await context.fetchJson<ShowpassEventsPage>(pageUrl);
+
+        for (const item of data.results ?? []) {
+            const startDate = toIsoDate(item.starts_on);
+            if (!item.name || !startDate) continue;
+
+            events.push({
+                title: item.name.trim(),
+                dateRaw: startDate,
+                startDate,
+                endDate: toIsoDate(item.ends_on),
+                url: item.frontend_details_url || undefined,
+                externalId: item.id?.toString(),
+                priceRaw: lowestPrice((item.ticket_types ?? []).map((ticket) => ticket.price)),
+                location: item.venue?.name || undefined,
+                imageUrl: item.image || undefined,
+                description: item.description ? htmlToText(item.description) || undefined : undefined,
+                soldOut: item.inventory_sold_out || undefined,
+                eventStatus: item.is_cancelled ? 'cancelled' : undefined,
+            });
+        }
+
+        pageUrl = data.next;
+    }
+
+    return events;
+}
@@ -0,0 +1,69 @@
+import type { RawEvent, ScrapeContext } from '../utils/scraper-core';
+import { MAX_PAGES, htmlToText, toIsoDate } from './shared';
+
+/**
+ * Squarespace events collections.
+ *
+ * Endpoint: any events collection page with ?format=json
+ *   (e.g. Fox Cabaret's https://www.foxcabaret.com/monthly-calendar-list)
+ *
+ * Response fields used:
+ * - upcoming[] (or items[]): id, title, startDate, endDate (epoch ms), fullUrl,
+ *   assetUrl (image), excerpt (HTML), location.addressTitle
+ * - pagination.nextPageUrl
+ */
+
+interface SquarespaceEvent {
+    id?: string;
+    title: string;
+    startDate: number;
+    endDate?: number;
+    fullUrl: string;
+    assetUrl?: string;
+    excerpt?: string;
+    location?: { addressTitle?: string };
+}
+
+interface SquarespaceCollection {
+    upcoming?: SquarespaceEvent[];
+    items?: SquarespaceEvent[];
+    pagination?: { nextPage?: boolean; nextPageUrl?: string };
+}
+
+export async function fetchSquarespaceEvents(collectionUrl: string, context: ScrapeContext): Promise<RawEvent[]> {
+    const events: RawEvent[] = [];
+    let pageUrl: string | undefined = withJsonFormat(collectionUrl);
+
+    for (let page = 1; pageUrl && page <= MAX_PAGES; page++) {
+        const data: SquarespaceCollection = await context.fetchJson<SquarespaceCollection>(pageUrl);
+
+        for (const item of data.upcoming ?? data.items ?? []) {
+            const startDate = toIsoDate(item.startDate);
+            if (!item.title || !startDate) continue;
+
+            events.push({
+                title: item.title.trim(),
+                dateRaw: startDate,
+                startDate,
+                endDate: toIsoDate(item.endDate),
+                url: new URL(item.fullUrl, collectionUrl).href,
+                externalId: item.id,
+                location: item.location?.addressTitle || undefined,
+                description: item.excerpt ? htmlToText(item.excerpt) || undefined : undefined,
+                imageUrl: item.assetUrl || undefined,
+            });
+        }
+
+        pageUrl = data.pagination?.nextPage && data.pagination.nextPageUrl
+            ? withJsonFormat(new URL(data.pagination.nextPageUrl, collectionUrl).href)
+            : undefined;
+    }
+
+    return events;
+}
+
+function withJsonFormat(url: string): string {
+    const parsed = new URL(url);
+    parsed.searchParams.set('format', 'json');
+    return parsed.href;
+}
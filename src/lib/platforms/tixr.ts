@@ -0,0 +1,59 @@
+import type { RawEvent, ScrapeContext } from '../utils/scraper-core';
+import { MAX_PAGES, lowestPrice, toIsoDate } from './shared';
+
+/**
+ * Tixr group events. Tixr doesn't document this API; the public key
+ * ("cpk") is the one the venue's own Tixr widget sends.
+ *
+ * Endpoint: https://studio.tixr.com/v1/groups/{groupId}/events?cpk={publicKey}
+ *
+ * Response: an array per page (empty past the last page) of
+ * - id, name, start_date (epoch ms or ISO), url, flyer_url, venue.name,
+ *   sales[].current_price
+ */
+
+interface TixrEvent {
+    id?: number | string;
+    name: string;
+    start_date: number | string;
+    url?: string;
+    flyer_url?: string | null;
+    venue?: { name?: string } | null;
+    sales?: { current_price?: number | string | null }[];
+}
+
+const API_BASE = 'https://studio.tixr.com/v1';
+const PAGE_SIZE = 50;
+
+export async function fetchTixrEvents(groupId: string, publicKey: string, context: ScrapeContext): Promise<RawEvent[]> {
+    const events: RawEvent[] = [];
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+        const url = new URL(`${API_BASE}/groups/${encodeURIComponent(groupId)}/events`);
+        url.searchParams.set('cpk', publicKey);
+        url.searchParams.set('page_number', String(page));
+        url.searchParams.set('page_size', String(PAGE_SIZE));
+
+        const items: TixrEvent[] = await context.fetchJson<TixrEvent[]>(url.href);
+
+        for (const item of items) {
+            const startDate = toIsoDate(item.start_date);
+            if (!item.name || !startDate) continue;
+
+            events.push({
+                title: item.name.trim(),
+                dateRaw: startDate,
+                startDate,
+                url: item.url || undefined,
+                externalId: item.id?.toString(),
+                priceRaw: lowestPrice((item.sales ?? []).map((sale) => sale.current_price)),
+                location: item.venue?.name || undefined,
+                imageUrl: item.flyer_url || undefined,
+            });
+        }
+
+        if (items.length < PAGE_SIZE) break;
+    }
+
+    return events;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { isAdminAuthorized, isAdminPath, isAdminRequest } from './admin-auth';
+
+const basic = (user: string, password: string) =>
+    `Basic ${Buffer.from(`${user}:${password}`).toString('base64')}`;
+
+describe('isAdminPath', () => {
+    it('covers /admin and everything under it', () => {
+        expect(isAdminPath('/admin')).toBe(true);
+        expect(isAdminPath('/admin/matches')).toBe(true);
+        expect(isAdminPath('/administrivia')).toBe(false);
+        expect(isAdminPath('/events/admin')).toBe(false);
+    });
+});
+
+describe('isAdminRequest', () => {
+    it('covers the admin pages and API calls that change data', () => {
+        expect(isAdminRequest('GET', '/admin/matches')).toBe(true);
+        expect(isAdminRequest('POST', '/api/scrape')).toBe(true);
+        expect(isAdminRequest('delete', '/api/scrape/abc')).toBe(true);
+    });
+
+    it('leaves reads and the public site open', () => {
+        expect(isAdminRequest('GET', '/api/scrape')).toBe(false);
+        expect(isAdminRequest('HEAD', '/api/health')).toBe(false);
+        expect(isAdminRequest('POST', '/apiary')).toBe(false);
+        expect(isAdminRequest('GET', '/')).toBe(false);
+    });
+});
+
+describe('isAdminAuthorized', () => {
+    it('accepts the token as a basic auth password or bearer token', () => {
+        expect(isAdminAuthorized(basic('anyone', 's3cret'), 's3cret')).toBe(true);
+        expect(isAdminAuthorized('Bearer s3cret', 's3cret')).toBe(true);
+    });
+
+    it('rejects a wrong or missing token', () => {
+        expect(isAdminAuthorized(basic('admin', 'guess'), 's3cret')).toBe(false);
+        expect(isAdminAuthorized('Bearer guess', 's3cret')).toBe(false);
+        expect(isAdminAuthorized(null, 's3cret')).toBe(false);
+        expect(isAdminAuthorized('Digest s3cret', 's3cret')).toBe(false);
+    });
+
+    it('lets no one in when no token is configured', () => {
+        expect(isAdminAuthorized(basic('admin', ''), undefined)).toBe(false);
+        expect(isAdminAuthorized(basic('admin', ''), '')).toBe(false);
+    });
+});
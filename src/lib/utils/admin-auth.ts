@@ -0,0 +1,48 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Access to the /admin pages and the API calls that change data: HTTP
+ * basic auth with ADMIN_TOKEN as the password (the username is ignored).
+ * Without a token they're closed.
+ */
+
+/**
+ * Sent with a 401 so browsers prompt for the password.
+ */
+export const ADMIN_CHALLENGE = 'Basic realm="Paper Bear admin", charset="UTF-8"';
+
+export function isAdminPath(pathname: string): boolean {
+    return /^\/admin(?:\/|$)/.test(pathname);
+}
+
+/**
+ * The admin pages, and any API request but a read (POST /api/scrape starts a job).
+ */
+export function isAdminRequest(method: string, pathname: string): boolean {
+    if (isAdminPath(pathname)) return true;
+    return /^\/api(?:\/|$)/.test(pathname) && !['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase());
+}
+
+/**
+ * Whether an Authorization header carries the admin token, either as the
+ * basic auth password or as a bearer token (for scripts).
+ */
+export function isAdminAuthorized(header: string | null, token: string | undefined): boolean {
+    if (!token || !header) return false;
+
+    const [scheme, credentials = ''] = header.trim().split(/\s+/, 2);
+    if (/^bearer$/i.test(scheme)) return sameSecret(credentials, token);
+    if (!/^basic$/i.test(scheme)) return false;
+
+    const decoded = Buffer.from(credentials, 'base64').toString('utf8');
+    const colon = decoded.indexOf(':');
+    return colon >= 0 && sameSecret(decoded.slice(colon + 1), token);
+}
+
+/**
+ * Compare without leaking how much of the secret matched.
+ */
+function sameSecret(given: string, secret: string): boolean {
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(given), digest(secret));
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { detectAnomalies } from './anomaly';
+import type { RunStats } from './anomaly';
+
+const run = (itemsFound: number, unparsableDates = 0, missingPrices = 0): RunStats =>
+    ({ itemsFound, unparsableDates, missingPrices });
+
+const steady = [run(40, 1, 2), run(42, 0, 3), run(41, 1, 2), run(39, 0, 2)];
+
+describe('detectAnomalies', () => {
+    it('accepts runs in line with history', () => {
+        expect(detectAnomalies(run(38, 1, 3), steady)).toEqual([]);
+    });
+
+    it('never flags venues without history', () => {
+        expect(detectAnomalies(run(0), [])).toEqual([]);
+    });
+
+    it('flags a collapse in event count', () => {
+        const [anomaly] = detectAnomalies(run(0), steady);
+        expect(anomaly.check).toBe('event-count');
+        expect(anomaly.baseline).toBe(40.5);
+    });
+
+    it('flags a jump in unparsable dates', () => {
+        const anomalies = detectAnomalies(run(40, 20, 1), steady);
+        expect(anomalies.map((a) => a.check)).toEqual(['unparsable-dates']);
+        expect(anomalies[0].message).toBe('50% of events had unparsable dates, usually 1%');
+    });
+
+    it('flags missing prices only relative to the venue baseline', () => {
+        expect(detectAnomalies(run(40, 0, 30), steady).map((a) => a.check)).toEqual(['missing-prices']);
+
+        // A venue that never lists prices is not an anomaly
+        const noPrices = [run(20, 0, 20), run(22, 0, 22), run(21, 0, 21)];
+        expect(detectAnomalies(run(20, 0, 20), noPrices)).toEqual([]);
+    });
+
+    it('ignores share checks on tiny runs', () => {
+        const small = [run(3), run(4), run(3)];
+        expect(detectAnomalies(run(3, 2, 1), small)).toEqual([]);
+    });
+});
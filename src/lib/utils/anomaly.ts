@@ -0,0 +1,82 @@
+import { DROP_BASELINE_RUNS, isDrop, median } from './health';
+
+/**
+ * What a single successful run produced, as recorded in ScrapeLog.
+ */
+export interface RunStats {
+    itemsFound: number;       // raw events returned by the scraper
+    unparsableDates: number;  // dropped by normalizeEvents
+    missingPrices: number;    // kept, but with no price and not free
+}
+
+export type AnomalyCheck = 'event-count' | 'unparsable-dates' | 'missing-prices';
+
+/**
+ * A run that looks wrong compared to the venue's recent history.
+ */
+export interface Anomaly {
+    check: AnomalyCheck;
+    message: string;
+    value: number;
+    baseline: number;
+}
+
+/**
+ * Share checks fire when the current share is at least SHARE_JUMP above the
+ * venue's usual share. Comparing against the baseline (instead of a fixed
+ * limit) keeps venues that never list prices from alerting on every run.
+ */
+export const SHARE_JUMP = 0.3;
+
+/**
+ * Share checks need this many raw events to mean anything.
+ */
+export const SHARE_MIN_ITEMS = 5;
+
+/**
+ * Compare a successful run against the venue's previous successful runs
+ * (oldest first). Venues with no history are never flagged.
+ */
+export function detectAnomalies(current: RunStats, history: RunStats[]): Anomaly[] {
+    if (history.length === 0) return [];
+
+    const anomalies: Anomaly[] = [];
+    const counts = history.map((run) => run.itemsFound);
+
+    if (isDrop([...counts, current.itemsFound])) {
+        const baseline = median(counts.slice(-DROP_BASELINE_RUNS))!;
+        anomalies.push({
+            check: 'event-count',
+            message: `Found ${current.itemsFound} events, usually ${baseline}`,
+            value: current.itemsFound,
+            baseline,
+        });
+    }
+
+    const shareAnomaly = (check: AnomalyCheck, label: string, pick: (run: RunStats) => number) => {
+        if (current.itemsFound < SHARE_MIN_ITEMS) return;
+
+        const value = pick(current) / current.itemsFound;
+        const baseline = median(
+            history.filter((run) => run.itemsFound > 0).map((run) => pick(run) / run.itemsFound)
+        ) ?? 0;
+
+        if (value - baseline >= SHARE_JUMP) {
+            anomalies.push({
+                check,
+                message: `${percent(value)} of events had ${label}, usually ${percent(baseline)}`,
+                value,
+                baseline,
+            });
+        }
+    };
+
+    shareAnomaly('unparsable-dates', 'unparsable dates', (run) => run.unparsableDates);
+    shareAnomaly('missing-prices', 'no price', (run) => run.missingPrices);
+
+    return anomalies;
+}
+
+function percent(share: number): string {
+    return `${Math.round(share * 100)}%`;
+}
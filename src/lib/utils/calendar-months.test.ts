@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+    addMonths,
+    calendarDateRaw,
+    horizonEnd,
+    monthOf,
+    monthStartsAfter,
+    parseMonthLabel,
+    yearForDay,
+} from './calendar-months';
+import { parseVancouverDate } from './date-parser';
+
+describe('calendar months', () => {
+    it('finds the Vancouver month, not the UTC one', () => {
+        // 2am UTC on Feb 1 is still January 31 in Vancouver
+        expect(monthOf(new Date('2026-02-01T02:00:00Z'))).toEqual({ year: 2026, month: 1 });
+    });
+
+    it('adds months across year boundaries', () => {
+        expect(addMonths({ year: 2025, month: 11 }, 3)).toEqual({ year: 2026, month: 2 });
+        expect(addMonths({ year: 2026, month: 1 }, -1)).toEqual({ year: 2025, month: 12 });
+    });
+
+    it('stops at the first month starting after the horizon', () => {
+        const end = horizonEnd(new Date('2025-12-20T20:00:00Z'), 45);   // Feb 3, 2026
+
+        expect(monthStartsAfter({ year: 2026, month: 2 }, end)).toBe(false);
+        expect(monthStartsAfter({ year: 2026, month: 3 }, end)).toBe(true);
+    });
+
+    it('parses month labels', () => {
+        expect(parseMonthLabel('January 2026')).toEqual({ year: 2026, month: 1 });
+        expect(parseMonthLabel('Calendar: Sept. 2025')).toEqual({ year: 2025, month: 9 });
+        expect(parseMonthLabel('Upcoming events')).toBeNull();
+    });
+
+    it('gives padding days from neighbouring years the right year', () => {
+        expect(yearForDay({ year: 2026, month: 1 }, 12)).toBe(2025);
+        expect(yearForDay({ year: 2025, month: 12 }, 1)).toBe(2026);
+        expect(yearForDay({ year: 2026, month: 3 }, 2)).toBe(2026);
+    });
+
+    it('builds dateRaw values parseVancouverDate reads with their year', () => {
+        const raw = calendarDateRaw({ year: 2026, month: 1 }, 30, '7:00 pm', 12);
+
+        expect(raw).toBe('December 30, 2025 7:00 pm');
+        expect(parseVancouverDate(raw, new Date('2025-06-01T00:00:00Z'))).toEqual(new Date('2025-12-31T03:00:00Z'));
+    });
+});
@@ -0,0 +1,104 @@
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+const VANCOUVER_TZ = 'America/Vancouver';
+
+/**
+ * Month-grid calendars (Fox Cabaret, Rio Theatre) only show one month at a
+ * time. These helpers let a scraper walk forward month by month until it
+ * has covered the look-ahead horizon.
+ */
+
+/**
+ * How far ahead to scrape by default (SCRAPER_HORIZON_DAYS overrides it).
+ */
+export const DEFAULT_HORIZON_DAYS = 90;
+
+/**
+ * Never walk more than this many months, whatever the horizon or the
+ * calendar's navigation says.
+ */
+export const MAX_CALENDAR_MONTHS = 12;
+
+/**
+ * Visit at most this many event detail pages per venue; events past it keep
+ * what the calendar grid shows, so a long horizon can't run a venue out of time.
+ */
+export const MAX_DETAIL_PAGES = 100;
+
+const MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+export interface CalendarMonth {
+    year: number;
+    month: number;      // 1-12
+}
+
+/**
+ * The last moment inside the horizon.
+ */
+export function horizonEnd(now: Date, horizonDays: number = DEFAULT_HORIZON_DAYS): Date {
+    return new Date(now.getTime() + horizonDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * The Vancouver calendar month containing `date`.
+ */
+export function monthOf(date: Date): CalendarMonth {
+    const [year, month] = formatInTimeZone(date, VANCOUVER_TZ, 'yyyy-M').split('-').map(Number);
+    return { year, month };
+}
+
+export function addMonths({ year, month }: CalendarMonth, count: number): CalendarMonth {
+    const index = year * 12 + (month - 1) + count;
+    return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+/**
+ * Whether a month begins after `date` (so it's past the horizon).
+ */
+export function monthStartsAfter({ year, month }: CalendarMonth, date: Date): boolean {
+    const start = fromZonedTime(`${year}-${String(month).padStart(2, '0')}-01T00:00:00`, VANCOUVER_TZ);
+    return start > date;
+}
+
+/**
+ * "January 2026" -> { year: 2026, month: 1 }. Abbreviated month names work too.
+ */
+export function parseMonthLabel(label: string): CalendarMonth | null {
+    const match = label.match(/([A-Za-z]{3,})\.?\s+(\d{4})/);
+    if (!match) return null;
+
+    const month = monthNumber(match[1]);
+    return month ? { year: parseInt(match[2], 10), month } : null;
+}
+
+/**
+ * "Jan", "january" -> 1. Returns null for anything that isn't a month.
+ */
+export function monthNumber(name: string): number | null {
+    const lower = name.toLowerCase();
+    const index = MONTH_NAMES.findIndex((m) => lower.length >= 3 && m.toLowerCase().startsWith(lower));
+    return index === -1 ? null : index + 1;
+}
+
+/**
+ * The year of a day shown on a month's grid. Grids pad their first and
+ * last weeks with days from the neighbouring months, which may fall in
+ * the previous or next year (December days on a January grid).
+ */
+export function yearForDay(grid: CalendarMonth, dayMonth: number): number {
+    if (grid.month === 1 && dayMonth === 12) return grid.year - 1;
+    if (grid.month === 12 && dayMonth === 1) return grid.year + 1;
+    return grid.year;
+}
+
+/**
+ * A dateRaw for a day on a month grid, with the year spelled out so
+ * parseVancouverDate never has to infer it: "January 12, 2026 10:30 PM".
+ */
+export function calendarDateRaw(grid: CalendarMonth, day: number, time: string, dayMonth: number = grid.month): string {
+    const year = yearForDay(grid, dayMonth);
+    return `${MONTH_NAMES[dayMonth - 1]} ${day}, ${year} ${time}`.trim();
+}
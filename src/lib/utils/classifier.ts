@@ -29,6 +29,11 @@ const KEYWORDS: Record<EventType, string[]> = {
     other: [], // fallback, no keywords
 };
 
+/**
+ * All known event types, in classifier order.
+ */
+export const EVENT_TYPES = Object.keys(KEYWORDS) as EventType[];
+
 /**
  * Classify an event based on its title.
  * Returns the most likely event type.
@@ -68,37 +73,29 @@ export function classifyEventType(title: string): EventType {
 }
 
 /**
- * Parse a price string into a structured format.
- * Returns price in cents, or null if unparseable.
+ * Format a price in cents for display: "Free", "$15" or "$12.50".
+ * Returns null if the price is unknown.
  */
-export function parsePrice(raw: string | undefined): {
-    price: number | null;
-    isFree: boolean;
-} {
-    if (!raw) {
-        return { price: null, isFree: false };
-    }
+export function formatPrice(price: number | null, isFree: boolean): string | null {
+    if (isFree) return 'Free';
+    if (price === null) return null;
+
+    const dollars = price / 100;
+    return `$${Number.isInteger(dollars) ? dollars : dollars.toFixed(2)}`;
+}
 
-    const normalized = raw.toLowerCase().trim();
+/**
+ * Find an age restriction in listing text: "19+", "18+" or "All ages".
+ * Returns null if the text doesn't state one.
+ */
+export function parseAgeRestriction(text: string | undefined): string | null {
+    if (!text) return null;
 
-    // Check for free indicators
-    if (
-        normalized.includes('free') ||
-        normalized === 'pwyc' ||
-        normalized === 'pay what you can' ||
-        normalized === '$0' ||
-        normalized === '0'
-    ) {
-        return { price: 0, isFree: true };
-    }
+    const plus = text.match(/\b(1[6-9]|2[01])\s*(?:\+|and over|& over|years and over)/i);
+    if (plus) return `${plus[1]}+`;
 
-    // Try to extract a numeric price
-    // Handles: "$15", "$15.00", "15", "$15-$25" (takes first)
-    const priceMatch = normalized.match(/\$?(\d+(?:\.\d{2})?)/);
-    if (priceMatch) {
-        const dollars = parseFloat(priceMatch[1]);
-        return { price: Math.round(dollars * 100), isFree: false };
-    }
+    if (/\ball[\s-]ages\b/i.test(text)) return 'All ages';
+    if (/\bno minors\b/i.test(text)) return '19+'; // BC's drinking age
 
-    return { price: null, isFree: false };
+    return null;
 }
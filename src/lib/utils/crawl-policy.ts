@@ -0,0 +1,68 @@
+import { RobotsCache } from './robots';
+
+/**
+ * Thrown when robots.txt disallows a URL for our User-Agent.
+ */
+export class RobotsDisallowedError extends Error {
+    constructor(public readonly url: string) {
+        super(`Disallowed by robots.txt: ${url}`);
+        this.name = 'RobotsDisallowedError';
+    }
+}
+
+/**
+ * Spaces out requests to each host.
+ * Concurrent callers for the same host are queued, each getting its own slot.
+ */
+export class HostRateLimiter {
+    private nextSlot = new Map<string, number>();
+
+    /**
+     * Wait until a request to this URL's host is allowed.
+     */
+    async wait(url: string, delayMs: number): Promise<void> {
+        const host = new URL(url).host;
+        const now = Date.now();
+        const slot = Math.max(now, this.nextSlot.get(host) ?? 0);
+
+        this.nextSlot.set(host, slot + delayMs);
+
+        if (slot > now) {
+            await new Promise((resolve) => setTimeout(resolve, slot - now));
+        }
+    }
+}
+
+/**
+ * CrawlPolicy - Gatekeeper for every request a scraper makes.
+ * Checks robots.txt and paces requests per host, honouring Crawl-delay
+ * when it's longer than our own delay.
+ */
+export class CrawlPolicy {
+    constructor(
+        private userAgent: string,
+        private delayMs: number,
+        private robots: RobotsCache = new RobotsCache(userAgent),
+        private limiter: HostRateLimiter = new HostRateLimiter()
+    ) {}
+
+    /**
+     * Throw if robots.txt disallows this URL.
+     */
+    async check(url: string): Promise<void> {
+        if (!(await this.robots.isAllowed(url))) {
+            throw new RobotsDisallowedError(url);
+        }
+    }
+
+    /**
+     * Check robots.txt, then wait for this host's next request slot.
+     */
+    async acquire(url: string): Promise<void> {
+        await this.check(url);
+
+        const { crawlDelay } = await this.robots.getPolicy(url);
+        const delayMs = Math.max(this.delayMs, (crawlDelay ?? 0) * 1000);
+        await this.limiter.wait(url, delayMs);
+    }
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseCron, nextCronRun } from './cron';
+
+describe('parseCron', () => {
+    it('parses lists, ranges and steps', () => {
+        const cron = parseCron('0,30 9-17/4 * * 1-5');
+        expect([...cron.minutes]).toEqual([0, 30]);
+        expect([...cron.hours]).toEqual([9, 13, 17]);
+        expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('expands macros', () => {
+        expect([...parseCron('@hourly').minutes]).toEqual([0]);
+    });
+
+    it('rejects invalid expressions', () => {
+        expect(() => parseCron('* * * *')).toThrow();
+        expect(() => parseCron('60 * * * *')).toThrow();
+        expect(() => parseCron('*/0 * * * *')).toThrow();
+    });
+});
+
+describe('nextCronRun', () => {
+    it('evaluates in Vancouver time', () => {
+        // 2024-01-12 10:00 PST; nightly at 3 AM -> 2024-01-13 03:00 PST = 11:00 UTC
+        const next = nextCronRun('0 3 * * *', new Date('2024-01-12T18:00:00Z'));
+        expect(next.toISOString()).toBe('2024-01-13T11:00:00.000Z');
+    });
+
+    it('is strictly after the reference time', () => {
+        const next = nextCronRun('0 * * * *', new Date('2024-01-12T18:00:00Z'));
+        expect(next.toISOString()).toBe('2024-01-12T19:00:00.000Z');
+    });
+
+    it('matches either day field when both are restricted', () => {
+        // The 1st of the month or any Monday; Fri Jan 12 2024 -> Mon Jan 15
+        const next = nextCronRun('0 12 1 * 1', new Date('2024-01-12T20:00:00Z'));
+        expect(next.toISOString()).toBe('2024-01-15T20:00:00.000Z');
+    });
+});
@@ -0,0 +1,145 @@
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+
+const VANCOUVER_TZ = 'America/Vancouver';
+
+/**
+ * A parsed 5-field cron expression: minute hour day-of-month month day-of-week.
+ */
+export interface CronExpression {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;        // 1-12
+    daysOfWeek: Set<number>;    // 0-6, Sunday = 0
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@nightly': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+};
+
+const FIELD_RANGES: [number, number][] = [
+    [0, 59],  // minute
+    [0, 23],  // hour
+    [1, 31],  // day of month
+    [1, 12],  // month
+    [0, 7],   // day of week (7 = Sunday too)
+];
+
+/**
+ * Parse a cron expression. Supports `*`, lists, ranges, steps and @macros.
+ * Throws on invalid input.
+ */
+export function parseCron(expression: string): CronExpression {
+    const expanded = MACROS[expression.trim().toLowerCase()] ?? expression;
+    const fields = expanded.trim().split(/\s+/);
+
+    if (fields.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+        parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1], expression)
+    );
+
+    // Both 0 and 7 mean Sunday
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        anyDayOfMonth: fields[2] === '*',
+        anyDayOfWeek: fields[4] === '*',
+    };
+}
+
+function parseField(field: string, min: number, max: number, expression: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepRaw] = part.split('/');
+        const step = stepRaw === undefined ? 1 : Number(stepRaw);
+
+        let start = min;
+        let end = max;
+        if (range !== '*') {
+            const [a, b] = range.split('-').map(Number);
+            start = a;
+            end = b ?? (stepRaw === undefined ? a : max);
+        }
+
+        if (
+            !Number.isInteger(start) || !Number.isInteger(end) || !Number.isInteger(step) ||
+            start < min || end > max || start > end || step < 1
+        ) {
+            throw new Error(`Invalid cron field "${field}" in "${expression}"`);
+        }
+
+        for (let v = start; v <= end; v += step) values.add(v);
+    }
+
+    return values;
+}
+
+/**
+ * Find the first time strictly after `after` that matches the expression,
+ * evaluated in Vancouver wall-clock time.
+ */
+export function nextCronRun(expression: string | CronExpression, after: Date): Date {
+    const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+    // Work on a "wall clock" date whose local fields are Vancouver time
+    const t = toZonedTime(after, VANCOUVER_TZ);
+    t.setSeconds(0, 0);
+    t.setMinutes(t.getMinutes() + 1);
+
+    // Bounded search: the rarest schedules (e.g. Feb 29) recur within 8 years
+    const limit = new Date(t);
+    limit.setFullYear(limit.getFullYear() + 8);
+
+    while (t < limit) {
+        if (!cron.months.has(t.getMonth() + 1)) {
+            t.setMonth(t.getMonth() + 1, 1);
+            t.setHours(0, 0);
+            continue;
+        }
+        if (!matchesDay(cron, t)) {
+            t.setDate(t.getDate() + 1);
+            t.setHours(0, 0);
+            continue;
+        }
+        if (!cron.hours.has(t.getHours())) {
+            t.setHours(t.getHours() + 1, 0);
+            continue;
+        }
+        if (!cron.minutes.has(t.getMinutes())) {
+            t.setMinutes(t.getMinutes() + 1);
+            continue;
+        }
+
+        return fromZonedTime(t, VANCOUVER_TZ);
+    }
+
+    throw new Error('Cron expression never matches');
+}
+
+/**
+ * Standard cron semantics: if both day fields are restricted, either may match.
+ */
+function matchesDay(cron: CronExpression, t: Date): boolean {
+    const dom = cron.daysOfMonth.has(t.getDate());
+    const dow = cron.daysOfWeek.has(t.getDay());
+
+    if (cron.anyDayOfMonth && cron.anyDayOfWeek) return true;
+    if (cron.anyDayOfMonth) return dow;
+    if (cron.anyDayOfWeek) return dom;
+    return dom || dow;
+}
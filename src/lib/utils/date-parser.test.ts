@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { parseVancouverDate, extractDoorsAndShow } from './date-parser';
+import {
+    parseVancouverDate,
+    parseStructuredDate,
+    parseDateSpec,
+    expandDateSpec,
+    extractDoorsAndShow,
+    groupByVancouverDay,
+    normalizeDateText,
+    dateTextPattern,
+} from './date-parser';
 import { format } from 'date-fns';
 
 describe('parseVancouverDate', () => {
@@ -46,22 +55,166 @@ describe('parseVancouverDate', () => {
     });
 });
 
+describe('parseDateSpec', () => {
+    const refDate = new Date('2024-01-01T20:00:00Z'); // Monday, Jan 1 2024, noon PST
+    const iso = (date: Date) => date.toISOString();
+
+    it('reads a plain date as a single start', () => {
+        expect(parseDateSpec('January 12, 2024 7:30 PM', refDate)).toEqual({
+            kind: 'single',
+            start: new Date('2024-01-13T03:30:00.000Z'),
+        });
+        expect(parseDateSpec('next Friday-ish', refDate)).toBeNull();
+    });
+
+    it.each([
+        ['Jan 12-14', '2024-01-12T08:00:00.000Z', '2024-01-14T08:00:00.000Z'],
+        ['January 12 – 14, 2024 8pm', '2024-01-13T04:00:00.000Z', '2024-01-15T04:00:00.000Z'],
+        ['Fri Jan 30 - Sun Feb 2', '2024-01-30T08:00:00.000Z', '2024-02-02T08:00:00.000Z'],
+        ['Dec 30 - Jan 2, 2025', '2024-12-30T08:00:00.000Z', '2025-01-02T08:00:00.000Z'],
+        ['January 12, 2024 8pm - 11pm', '2024-01-13T04:00:00.000Z', '2024-01-13T07:00:00.000Z'],
+        ['Jan 12 10pm-2am', '2024-01-13T06:00:00.000Z', '2024-01-13T10:00:00.000Z'],
+        ['Friday Jan 12, 10pm - 2am', '2024-01-13T06:00:00.000Z', '2024-01-13T10:00:00.000Z'],
+    ])('reads "%s" as a range', (raw, start, end) => {
+        const spec = parseDateSpec(raw, refDate);
+
+        expect(spec?.kind).toBe('range');
+        expect(spec?.kind === 'range' && [iso(spec.start), iso(spec.end)]).toEqual([start, end]);
+    });
+
+    it('reads several showtimes on one day, sharing am/pm', () => {
+        expect(parseDateSpec('January 8, 2026 1:00, 4:00 & 7:30 pm', refDate)).toEqual({
+            kind: 'occurrences',
+            starts: [
+                new Date('2026-01-08T21:00:00.000Z'),
+                new Date('2026-01-09T00:00:00.000Z'),
+                new Date('2026-01-09T03:30:00.000Z'),
+            ],
+        });
+    });
+
+    it.each(['Jan 12 at 8 & 10pm', 'Friday Jan 12, 8 & 10pm', 'Jan 12 8pm & 10pm'])('reads bare hours in "%s" by the last am/pm', (raw) => {
+        expect(parseDateSpec(raw, refDate)).toEqual({
+            kind: 'occurrences',
+            starts: [new Date('2024-01-13T04:00:00.000Z'), new Date('2024-01-13T06:00:00.000Z')],
+        });
+    });
+
+    it('leaves doors and show times to extractDoorsAndShow', () => {
+        expect(parseDateSpec('Doors 7pm / Show 8pm', refDate)?.kind).not.toBe('occurrences');
+        expect(parseDateSpec('January 12, 2024 | Doors 7pm / Show 8pm', refDate))
+            .toEqual({ kind: 'single', start: new Date('2024-01-12T08:00:00.000Z') });
+    });
+
+    it.each([
+        ['Every Tuesday 9pm', ['2024-01-03T05', '2024-01-10T05', '2024-01-17T05', '2024-01-24T05']],
+        ['Mondays & Wednesdays 7:30pm', ['2024-01-02T03', '2024-01-04T03', '2024-01-09T03', '2024-01-11T03', '2024-01-16T03', '2024-01-18T03', '2024-01-23T03']],
+        ['Every other Friday at 8pm', ['2024-01-06T04', '2024-01-20T04']],
+        ['First Friday of every month 8pm', ['2024-01-06T04']],
+        ['Every Tuesday starting Jan 16 at 9pm until Jan 23', ['2024-01-17T05', '2024-01-24T05']],
+        ['Tuesdays from 9pm - 1am', ['2024-01-03T05', '2024-01-10T05', '2024-01-17T05', '2024-01-24T05']],
+    ])('expands "%s" up to the horizon', (raw, starts) => {
+        const spec = parseDateSpec(raw, refDate);
+
+        expect(spec?.kind).toBe('recurring');
+        expect(expandDateSpec(spec!, new Date('2024-01-25T00:00:00Z')).map((t) => iso(t.start).slice(0, 13))).toEqual(starts);
+    });
+
+    it.each(['Mondays are for comedy', 'Every Tuesday we spin records at 9pm', 'Fridays, all night long'])(
+        'does not read "%s" as a recurrence',
+        (raw) => {
+            expect(parseDateSpec(raw, refDate)).toBeNull();
+        },
+    );
+});
+
+describe('dateTextPattern', () => {
+    it('groups date text that fails the same way', () => {
+        const a = dateTextPattern(normalizeDateText('Sat. Jan 12th @ 8pm'));
+        const b = dateTextPattern(normalizeDateText('Friday  February 2nd @ 10pm'));
+
+        expect(a).toBe('EEE MMM N @ N pm');
+        expect(b).toBe(a);
+    });
+});
+
 describe('extractDoorsAndShow', () => {
-    it('extracts doors and show times from string', () => {
-        const text = "Doors 7:00pm Show 8:00pm";
-        const { doors, show } = extractDoorsAndShow(text);
+    const day = new Date('2024-01-12T08:00:00Z'); // January 12, no time
+
+    it('extracts doors and show times on the event\'s date', () => {
+        const { doors, show } = extractDoorsAndShow('Doors 7:00pm Show 8:00pm', day);
 
-        expect(doors).not.toBeNull();
-        expect(show).not.toBeNull();
+        // 7pm and 8pm PST on January 12
+        expect(doors?.toISOString()).toBe('2024-01-13T03:00:00.000Z');
+        expect(show?.toISOString()).toBe('2024-01-13T04:00:00.000Z');
+    });
+
+    it('keeps Vancouver wall-clock times across daylight saving', () => {
+        const { doors } = extractDoorsAndShow('Doors at 7pm', new Date('2024-07-12T07:00:00Z'));
+        expect(doors?.toISOString()).toBe('2024-07-13T02:00:00.000Z');
+    });
+
+    it('reads times without am/pm as evening, and a bare time as doors', () => {
+        expect(extractDoorsAndShow('Doors 7 / Show 8', day)).toEqual({
+            doors: new Date('2024-01-13T03:00:00.000Z'),
+            show: new Date('2024-01-13T04:00:00.000Z'),
+        });
+        expect(extractDoorsAndShow('7:00 PM', day).doors?.toISOString()).toBe('2024-01-13T03:00:00.000Z');
+    });
+
+    it('reads a show time written before "show"', () => {
+        expect(extractDoorsAndShow('Doors 7pm / 9pm show', day)).toEqual({
+            doors: new Date('2024-01-13T03:00:00.000Z'),
+            show: new Date('2024-01-13T05:00:00.000Z'),
+        });
+        expect(extractDoorsAndShow('Doors 7, 2 sets', day).show).toBeNull();
+    });
+
+    it('puts a show after midnight on the next day', () => {
+        const { doors, show } = extractDoorsAndShow('Doors 11 PM, Show 12:30', day);
+
+        expect(doors?.toISOString()).toBe('2024-01-13T07:00:00.000Z');
+        expect(show?.toISOString()).toBe('2024-01-13T08:30:00.000Z');
+    });
+
+    it('reads doors against the event\'s own time', () => {
+        const afterMidnight = new Date('2024-01-13T08:30:00Z'); // 12:30 am January 13
+        const matinee = new Date('2024-01-12T19:00:00Z');       // 11 am January 12
+
+        expect(extractDoorsAndShow('Doors 11pm', afterMidnight).doors?.toISOString()).toBe('2024-01-13T07:00:00.000Z');
+        expect(extractDoorsAndShow('Doors 10:30', matinee).doors?.toISOString()).toBe('2024-01-12T18:30:00.000Z');
+    });
+});
+
+describe('groupByVancouverDay', () => {
+    it('groups late-evening events by their Vancouver date, not UTC', () => {
+        const items = [
+            { id: 'a', date: new Date('2024-01-13T03:30:00.000Z') }, // Jan 12, 7:30 PM PST
+            { id: 'b', date: new Date('2024-01-13T06:00:00.000Z') }, // Jan 12, 10:00 PM PST
+            { id: 'c', date: new Date('2024-01-13T20:00:00.000Z') }, // Jan 13, 12:00 PM PST
+        ];
+
+        const groups = groupByVancouverDay(items);
+
+        expect(groups.map((g) => g.day)).toEqual(['2024-01-12', '2024-01-13']);
+        expect(groups[0].items.map((i) => i.id)).toEqual(['a', 'b']);
+        expect(groups[1].items.map((i) => i.id)).toEqual(['c']);
+    });
+});
+
+describe('parseStructuredDate', () => {
+    it('honours explicit offsets', () => {
+        expect(parseStructuredDate('2024-01-12T20:00:00-08:00')?.toISOString()).toBe('2024-01-13T04:00:00.000Z');
+        expect(parseStructuredDate('2024-01-13T04:00:00Z')?.toISOString()).toBe('2024-01-13T04:00:00.000Z');
+    });
 
-        // 7pm PST = 03:00 UTC
-        expect(doors?.getUTCHours()).toBe(3);
-        // 8pm PST = 04:00 UTC
-        expect(show?.getUTCHours()).toBe(4);
+    it('reads local times as Vancouver time', () => {
+        expect(parseStructuredDate('2024-07-12T20:00')?.toISOString()).toBe('2024-07-13T03:00:00.000Z');
     });
 
-    it('handles "Doors at 7pm"', () => {
-        const { doors } = extractDoorsAndShow("Doors at 7pm");
-        expect(doors?.getUTCHours()).toBe(3);
+    it('rejects date-only and malformed values', () => {
+        expect(parseStructuredDate('2024-01-12')).toBeNull();
+        expect(parseStructuredDate('next Friday')).toBeNull();
+        expect(parseStructuredDate(undefined)).toBeNull();
     });
 });
@@ -7,9 +7,54 @@ import {
     isValid,
 } from 'date-fns';
 import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import { monthNumber } from './calendar-months';
+import { expandRecurrence } from './ics-parser';
+import type { RecurrenceRule } from './ics-parser';
 
 const VANCOUVER_TZ = 'America/Vancouver';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Look this far ahead for the first occurrence of a recurrence.
+ */
+const RECURRENCE_SEARCH_DAYS = 400;
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const ORDINALS: Record<string, number> = {
+    first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4, last: -1,
+};
+
+/**
+ * A clock time with an am/pm or minutes, so it can't be a day of the month.
+ */
+const CLOCK_TIME = String.raw`\d{1,2}(?::\d{2})?\s*(?:am|pm)|\d{1,2}:\d{2}`;
+const TIME_SEPARATOR = String.raw`\s*(?:,|&|\+|/|\band\b)\s*`;
+
+/**
+ * A showtime before the last in a list, which may leave its am/pm to the
+ * last: the "8" in "8 & 10pm".
+ */
+const LISTED_TIME = String.raw`\d{1,2}(?::\d{2})?(?:\s*(?:am|pm))?`;
+
+/**
+ * What may be left of a recurrence once its weekdays, start time and
+ * "starting"/"until" dates are read: punctuation, or an end time.
+ */
+const RECURRENCE_TAIL = new RegExp(
+    String.raw`^[\s,:;.@]*(?:(?:at|from)\s*)?(?:-\s*(?:${CLOCK_TIME}|\d{1,2}|late|close)\s*)?\.?$`,
+    'i',
+);
+
+/**
+ * "Doors 7:30pm", "Show @ 8", "Music at 9 p.m.": the clock and any am/pm.
+ */
+const DOORS_TIME = /\bdoors?\s*(?:open\s*)?(?:@|at|:)?\s*(\d{1,2}(?:[:.]\d{2})?)(?!\d)\s*([ap]\.?m\b\.?)?/i;
+const SHOW_TIME = /\b(?:show|music|start)s?(?:\s*time)?\s*(?:@|at|:)?\s*(\d{1,2}(?:[:.]\d{2})?)(?!\d)\s*([ap]\.?m\b\.?)?/i;
+const TIME_THEN_SHOW = /(?<![\d:.])(\d{1,2}(?:[:.]\d{2})?)\s*([ap]\.?m\b\.?)?\s*(?:show|music|start)\b/i; // "9pm show"
+const BARE_TIME = /^(\d{1,2}(?:[:.]\d{2})?)\s*([ap]\.?m\.?)?$/i;
+
 /**
  * Common date formats found on Vancouver venue websites.
  * Ordered from most specific to least specific.
@@ -22,6 +67,7 @@ const DATE_FORMATS = [
     'MMMM d, yyyy',                // "January 12, 2024" (no time)
     'MMM d, yyyy',                 // "Jan 12, 2024" (no time)
     'yyyy-MM-dd HH:mm',            // "2024-01-12 19:30"
+    'yyyy-MM-dd h:mm a',           // "2024-01-12 7:30 PM" (datetime attribute + displayed time)
     'yyyy-MM-dd',                  // "2024-01-12"
 
     // Without year
@@ -55,17 +101,7 @@ export function parseVancouverDate(
         return null;
     }
 
-    // Normalize the input
-    const normalized = raw
-        .trim()
-        .replace(/\s+/g, ' ')           // collapse whitespace
-        .replace(/,\s*/g, ', ')         // normalize comma spacing
-        .replace(/(\d+)(st|nd|rd|th)/gi, '$1') // remove ordinal suffixes: 23rd -> 23
-        .replace(/\./g, '')                    // remove dots: "p.m." -> "pm"
-        .replace(/(\d)(am|pm)/gi, '$1 $2') // "7pm" -> "7 pm"
-        .replace(/doors?\s*(?:@|at|:)?\s*/gi, '') // remove "Doors @/at/:" prefix
-        .replace(/show\s*(?:@|at|:)?\s*/gi, '')   // remove "Show @/at/:" prefix
-        .trim();
+    const normalized = normalizeDateText(raw);
 
     let parsed: Date | null = null;
     let usedFormatWithYear = false;
@@ -85,8 +121,7 @@ export function parseVancouverDate(
     }
 
     if (!parsed) {
-        // console.warn(`[parseVancouverDate] Failed to parse: "${raw}" normalized to "${normalized}"`);
-        return null;
+        return null; // normalizeEvents quarantines these (see RejectedEvent)
     }
 
     // Year inference: if format didn't include year, infer from context
@@ -98,6 +133,305 @@ export function parseVancouverDate(
     return fromZonedTime(parsed, VANCOUVER_TZ);
 }
 
+/**
+ * The string `parseVancouverDate` matches against DATE_FORMATS.
+ */
+export function normalizeDateText(raw: string): string {
+    return raw
+        .trim()
+        .replace(/\s+/g, ' ')           // collapse whitespace
+        .replace(/,\s*/g, ', ')         // normalize comma spacing
+        .replace(/(\d+)(st|nd|rd|th)/gi, '$1') // remove ordinal suffixes: 23rd -> 23
+        .replace(/\./g, '')                    // remove dots: "p.m." -> "pm"
+        .replace(/(\d)(am|pm)/gi, '$1 $2') // "7pm" -> "7 pm"
+        .replace(/doors?\s*(?:@|at|:)?\s*/gi, '') // remove "Doors @/at/:" prefix
+        .replace(/show\s*(?:@|at|:)?\s*/gi, '')   // remove "Show @/at/:" prefix
+        .trim();
+}
+
+/**
+ * The shape of a date string, for grouping ones that fail the same way:
+ * month and weekday names become "MMM" and "EEE", numbers "N".
+ * "Sat Jan 12 @ 8 pm" -> "EEE MMM N @ N pm".
+ */
+export function dateTextPattern(text: string): string {
+    return text
+        .replace(/[a-z]+/gi, (word) => {
+            if (weekdayNumber(word) !== null) return 'EEE';
+            if (monthNumber(word) !== null) return 'MMM';
+            return word.toLowerCase();
+        })
+        .replace(/\d+/g, 'N');
+}
+
+/**
+ * When a listing says an event happens:
+ * - 'single': one start time
+ * - 'range': a run or a set with an end ("Jan 12–14", "8pm–11pm")
+ * - 'occurrences': several showings ("January 8 1:00 pm, 4:00 pm & 7:30 pm")
+ * - 'recurring': a residency ("Every Tuesday 9pm"), from its next occurrence
+ */
+export type DateSpec =
+    | { kind: 'single'; start: Date }
+    | { kind: 'range'; start: Date; end: Date }
+    | { kind: 'occurrences'; starts: Date[] }
+    | { kind: 'recurring'; start: Date; rule: RecurrenceRule };
+
+/**
+ * One event's start, and end if known.
+ */
+export interface EventTime {
+    start: Date;
+    end: Date | null;
+}
+
+/**
+ * Parse a raw date string into a `DateSpec`. Anything that isn't a range,
+ * a list of showtimes or a recurrence is read by `parseVancouverDate`.
+ *
+ * A date range ends at the same time of day on its last day, or at
+ * midnight when no time is given.
+ *
+ * @param raw - The raw date string scraped from the venue
+ * @param referenceDate - Optional reference date for year inference and
+ *   the first occurrence of a recurrence (defaults to now)
+ */
+export function parseDateSpec(raw: string, referenceDate: Date = new Date()): DateSpec | null {
+    if (!raw || typeof raw !== 'string') {
+        return null;
+    }
+
+    // "Jan 12 | Doors 7pm / Show 8pm": those times are extractDoorsAndShow's
+    const dateText = withoutDoorsAndShow(raw);
+
+    const text = dateText
+        .trim()
+        .replace(/\s+/g, ' ')
+        .replace(/\./g, '')
+        .replace(/(?<![\d-])(\d{1,2}(?::\d{2})?\s*(?:am|pm)?)-(?=\d{1,2}(?![\d-]))/gi, '$1 - ') // "12-14", "8-11pm"
+        .replace(/(\d)-(?=[a-z])/gi, '$1 - ')                                            // "Jan 30-Feb 2"
+        .replace(/\s*[–—]\s*|\s+-\s+|\s+to\s+(?=\d|[a-z]{3,}\s+\d)/gi, ' - ');
+
+    const spec = parseRecurrence(text, referenceDate)
+        ?? parseDateRange(text, referenceDate)
+        ?? parseTimeRange(text, referenceDate)
+        ?? parseShowtimes(text, referenceDate);
+    if (spec) return spec;
+
+    const start = parseVancouverDate(dateText, referenceDate);
+    return start ? { kind: 'single', start } : null;
+}
+
+/**
+ * The events a spec describes: one per showing, one per recurrence up to
+ * `until`, and a single event for a range.
+ */
+export function expandDateSpec(spec: DateSpec, until: Date): EventTime[] {
+    switch (spec.kind) {
+        case 'single':
+            return [{ start: spec.start, end: null }];
+        case 'range':
+            return [{ start: spec.start, end: spec.end }];
+        case 'occurrences':
+            return spec.starts.map((start) => ({ start, end: null }));
+        case 'recurring':
+            return expandRecurrence(spec.start, spec.rule, { from: spec.start, until })
+                .map((start) => ({ start, end: null }));
+    }
+}
+
+/**
+ * "Every Tuesday 9pm", "Every other Friday at 8pm until March 28",
+ * "Mondays & Wednesdays 7:30pm", "First Friday of every month 8pm".
+ */
+function parseRecurrence(text: string, referenceDate: Date): DateSpec | null {
+    let rest = text.toLowerCase();
+    let rule: RecurrenceRule | null = null;
+
+    const monthly = rest.match(/^(?:every\s+)?(first|1st|second|2nd|third|3rd|fourth|4th|last)\s+([a-z]+?)s?\s+(?:of\s+(?:the|each|every)\s+month|monthly)\b/);
+    if (monthly && weekdayNumber(monthly[2]) !== null) {
+        rule = recurrenceRule('MONTHLY', 1, [{ weekday: weekdayNumber(monthly[2])!, ordinal: ORDINALS[monthly[1]] }]);
+        rest = rest.slice(monthly[0].length);
+    } else {
+        const every = rest.match(/^(?:every|each)\s+(other\s+)?/);
+        const words = rest.slice(every?.[0].length ?? 0).split(/\s*(?:,|&|\/|\band\b)\s*|\s+/);
+
+        // "Tuesdays" alone is a residency; "Tuesday January 8" is one date
+        const weekdays: number[] = [];
+        let consumed = every?.[0].length ?? 0;
+        for (const word of words) {
+            const weekday = weekdayNumber(every ? word.replace(/s$/, '') : word.match(/^(.+day)s$/)?.[1] ?? '');
+            if (weekday === null) break;
+            weekdays.push(weekday);
+            consumed = rest.indexOf(word, consumed) + word.length;
+        }
+        if (weekdays.length === 0) return null;
+
+        rule = recurrenceRule('WEEKLY', every?.[1] ? 2 : 1, weekdays.map((weekday) => ({ weekday })));
+        rest = rest.slice(consumed);
+    }
+
+    // The time can come before or after "starting"/"until"
+    const timeMatch = rest.match(new RegExp(`(?:\\s(?:at|@))?\\s(${CLOCK_TIME})\\b`, 'i'));
+    const time = timeMatch?.[1];
+    if (timeMatch) rest = rest.replace(timeMatch[0], '');
+
+    const untilMatch = rest.match(/\b(?:until|till|thru|through|ends?)\s+(.+)$/);
+    if (untilMatch) {
+        const until = parseVancouverDate(untilMatch[1], referenceDate);
+        if (until) rule.until = new Date(startOfNextVancouverDay(until).getTime() - 1);
+        rest = rest.slice(0, untilMatch.index);
+    }
+
+    const startMatch = rest.match(/\b(?:starting|from|beginning|begins|starts)\s+(.+)$/);
+    const from = (startMatch && parseVancouverDate(startMatch[1], referenceDate)) || referenceDate;
+    if (startMatch) rest = rest.slice(0, startMatch.index);
+
+    // Nothing else may follow but an end time: "Mondays are for comedy" is a sentence
+    if (!RECURRENCE_TAIL.test(rest)) return null;
+
+    const anchor = parseVancouverDate(`${formatInTimeZone(from, VANCOUVER_TZ, 'yyyy-MM-dd')} ${time ? clockTime(time) : '12:00 am'}`, referenceDate);
+    if (!anchor) return null;
+
+    const [start] = expandRecurrence(anchor, rule, {
+        from: startMatch ? anchor : referenceDate,
+        until: new Date(anchor.getTime() + RECURRENCE_SEARCH_DAYS * DAY_MS),
+    });
+    return start ? { kind: 'recurring', start, rule } : null;
+}
+
+/**
+ * "Jan 12 - 14", "January 12 - 14, 2024 8pm", "Jan 30 - Feb 2",
+ * "Dec 30, 2024 - Jan 2, 2025".
+ */
+function parseDateRange(text: string, referenceDate: Date): DateSpec | null {
+    const day = String.raw`([a-z]{3,})\s+(\d{1,2})(?:st|nd|rd|th)?`;
+    const year = String.raw`(?:,?\s+(\d{4}))?`;
+    const weekday = String.raw`(?:(?:sun|mon|tue|wed|thu|fri|sat)[a-z]*,?\s+)?`;
+
+    const sameMonth = text.match(new RegExp(`^${weekday}${day} - ${weekday}(\\d{1,2})(?:st|nd|rd|th)?${year}\\b,?(.*)$`, 'i'));
+    const acrossMonths = text.match(new RegExp(`^${weekday}${day}${year} - ${weekday}${day}${year}\\b,?(.*)$`, 'i'));
+
+    let first: string;
+    let last: string;
+    let time: string;
+    if (sameMonth) {
+        const [, month, startDay, endDay, y, rest] = sameMonth;
+        first = `${month} ${startDay}${y ? `, ${y}` : ''}`;
+        last = `${month} ${endDay}${y ? `, ${y}` : ''}`;
+        time = rest;
+    } else if (acrossMonths) {
+        const [, month1, day1, year1, month2, day2, year2, rest] = acrossMonths;
+        // "Dec 30 - Jan 2, 2025" starts the year before
+        const firstYear = year1 ?? (year2 && (monthNumber(month1) ?? 0) > (monthNumber(month2) ?? 0) ? String(+year2 - 1) : year2);
+        first = `${month1} ${day1}${firstYear ? `, ${firstYear}` : ''}`;
+        last = `${month2} ${day2}${year2 ? `, ${year2}` : ''}`;
+        time = rest;
+    } else {
+        return null;
+    }
+
+    const clock = clockTime(time.match(new RegExp(`(?:^|\\s)(${CLOCK_TIME})\\b`, 'i'))?.[1] ?? '');
+    const start = parseVancouverDate(`${first} ${clock}`, referenceDate);
+    let end = parseVancouverDate(`${last} ${clock}`, referenceDate);
+    if (!start || !end) return null;
+
+    // "Dec 30 - Jan 2" runs into the next year
+    if (end < start && !/\d{4}/.test(last)) {
+        end = parseVancouverDate(`${last} ${clock}`, new Date(start.getTime() + DAY_MS));
+    }
+    return end && end > start ? { kind: 'range', start, end } : null;
+}
+
+/**
+ * "January 12, 2024 8pm - 11pm", "Jan 12 8 - 11pm", "Friday Jan 12, 10pm - 2am".
+ */
+function parseTimeRange(text: string, referenceDate: Date): DateSpec | null {
+    const match = text.match(/^(.*?),?\s+(?:at\s+|@\s*)?(\d{1,2}(?::\d{2})?)\s*(am|pm)? - (\d{1,2}(?::\d{2})?)\s*(am|pm)$/i);
+    if (!match || /\bdoors?\b/i.test(text)) return null;
+
+    const [, date, from, fromMeridiem, to, toMeridiem] = match;
+    const start = parseVancouverDate(`${date} ${clockTime(from, fromMeridiem ?? toMeridiem)}`, referenceDate);
+    const end = parseVancouverDate(`${date} ${clockTime(to, toMeridiem)}`, referenceDate);
+    if (!start || !end) return null;
+
+    // Sets that run past midnight end on the next day
+    return { kind: 'range', start, end: end > start ? end : new Date(end.getTime() + DAY_MS) };
+}
+
+/**
+ * Several showings on one day: "Thursday January 8 1:00 pm, 4:00 pm & 7:30 pm",
+ * "Jan 12 at 8 & 10pm". Times without am/pm take the last one's.
+ */
+function parseShowtimes(text: string, referenceDate: Date): DateSpec | null {
+    // The date can't end in a month name, or "Jan 12, 8 & 10pm" lists the 12th as a showtime
+    const match = text.match(new RegExp(`^(.*?)(?<![a-z]{3}),?\\s+(?:at\\s+|@\\s*)?((?:(?:${LISTED_TIME})${TIME_SEPARATOR})+(?:${CLOCK_TIME}))$`, 'i'));
+    if (!match || /\b(?:doors?|show)\b/i.test(text)) return null;
+
+    const [, date, list] = match;
+    const times = list.split(new RegExp(TIME_SEPARATOR, 'i'));
+    const meridiem = times[times.length - 1].match(/am|pm/i)?.[0] ?? '';
+
+    const starts = times.map((time) => parseVancouverDate(`${date} ${clockTime(time, meridiem)}`, referenceDate));
+    if (starts.some((start) => !start)) return null;
+
+    const unique = [...new Set(starts.map((start) => start!.getTime()))].sort((a, b) => a - b);
+    return unique.length > 1 ? { kind: 'occurrences', starts: unique.map((time) => new Date(time)) } : null;
+}
+
+/**
+ * Text before a doors or show time that follows a date; text that starts
+ * with one (a time-only listing) is left as it is.
+ */
+function withoutDoorsAndShow(raw: string): string {
+    const cut = raw.search(/\b(?:doors?|show)\b(?=\s*(?:open\s*)?(?:@|at|:)?\s*\d)/i);
+    if (cut <= 0) return raw;
+    return raw.slice(0, cut).replace(/[\s|·,/–—-]+$/, '') || raw;
+}
+
+/**
+ * "8pm", "8:30 PM" or "8:30" with the meridiem given -> "8:00 pm", "8:30 pm",
+ * the form DATE_FORMATS read after a date.
+ */
+function clockTime(time: string, meridiem: string = ''): string {
+    const match = time.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i);
+    if (!match) return '';
+    return `${match[1]}:${match[2] ?? '00'} ${match[3] ?? meridiem}`.trim();
+}
+
+function recurrenceRule(freq: RecurrenceRule['freq'], interval: number, byDay: RecurrenceRule['byDay']): RecurrenceRule {
+    return { freq, interval, byDay, byMonthDay: [], byMonth: [] };
+}
+
+/**
+ * "tue", "Tues", "tuesday" -> 2. Returns null for anything that isn't a weekday.
+ */
+function weekdayNumber(name: string): number | null {
+    const lower = name.toLowerCase();
+    const index = WEEKDAY_NAMES.findIndex((day) => lower.length >= 3 && day.startsWith(lower));
+    return index === -1 ? null : index;
+}
+
+/**
+ * Parse an ISO 8601 date-time from structured data (e.g. JSON-LD startDate).
+ * Values without an offset are Vancouver local time. Date-only values
+ * return null, since they say nothing about when the event starts.
+ */
+export function parseStructuredDate(value: string | undefined): Date | null {
+    if (!value) return null;
+
+    const trimmed = value.trim();
+    if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(trimmed)) {
+        return null;
+    }
+
+    const date = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)
+        ? new Date(trimmed)
+        : fromZonedTime(trimmed, VANCOUVER_TZ);
+
+    return isValid(date) ? date : null;
+}
+
 /**
  * Infer the correct year for a date that was parsed without a year.
  * If the date is in the past (relative to reference), assume next year.
@@ -134,18 +468,156 @@ export function formatForDisplay(date: Date): string {
 }
 
 /**
- * Extract doors time from strings like "Doors 7pm, Show 8pm".
- * Returns both times if found.
+ * Format an event's start and end for display (Vancouver timezone), e.g.
+ * "Fri, Jan 12 @ 8:00 PM – 11:00 PM" or "Fri, Jan 12 @ 8:00 PM – Sun, Jan 14".
+ */
+export function formatRangeForDisplay(start: Date, end: Date): string {
+    const endText = toVancouverDateKey(start) === toVancouverDateKey(end)
+        ? formatTimeForDisplay(end)
+        : formatInTimeZone(end, VANCOUVER_TZ, 'EEE, MMM d');
+    return `${formatForDisplay(start)} – ${endText}`;
+}
+
+/**
+ * Vancouver calendar date of an instant as YYYY-MM-DD.
+ * Use this (not toISOString) to group or key events by day.
+ */
+export function toVancouverDateKey(date: Date): string {
+    return formatInTimeZone(date, VANCOUVER_TZ, 'yyyy-MM-dd');
+}
+
+/**
+ * Group items by Vancouver calendar day, preserving their order.
  */
-export function extractDoorsAndShow(raw: string): {
+export function groupByVancouverDay<T extends { date: Date }>(items: T[]): { day: string; date: Date; items: T[] }[] {
+    const groups = new Map<string, { day: string; date: Date; items: T[] }>();
+
+    for (const item of items) {
+        const day = toVancouverDateKey(item.date);
+        let group = groups.get(day);
+        if (!group) {
+            group = { day, date: item.date, items: [] };
+            groups.set(day, group);
+        }
+        group.items.push(item);
+    }
+
+    return [...groups.values()];
+}
+
+/**
+ * Format a day heading for display (Vancouver timezone), e.g. "Friday, January 12".
+ */
+export function formatDayHeading(date: Date): string {
+    return formatInTimeZone(date, VANCOUVER_TZ, 'EEEE, MMMM d');
+}
+
+/**
+ * Format just the time of day for display (Vancouver timezone), e.g. "7:30 PM".
+ */
+export function formatTimeForDisplay(date: Date): string {
+    return formatInTimeZone(date, VANCOUVER_TZ, 'h:mm a');
+}
+
+/**
+ * Doors and show times from text like "Doors 7pm, Show 8pm" or "Doors 7 / Show 8",
+ * on the Vancouver day of `eventDate`. Text that is only a time ("7:00 PM") is
+ * the doors time.
+ *
+ * Times without am/pm are read as pm, unless the event's own time says
+ * otherwise. A show before its doors is the next day ("Doors 11pm, Show 12:30"
+ * is 12:30 am), and doors after an event's start are the day before (for a
+ * listing at 12:30 am). An `eventDate` at midnight is taken to have no time.
+ */
+export function extractDoorsAndShow(raw: string, eventDate: Date): {
     doors: Date | null;
     show: Date | null;
 } {
-    const doorsMatch = raw.match(/doors?\s*(?:@|at|:)?\s*(\d{1,2}(?::\d{2})?\s*(?:am|pm)?)/i);
-    const showMatch = raw.match(/(?:show|music|start)\s*(?:@|at|:)?\s*(\d{1,2}(?::\d{2})?\s*(?:am|pm)?)/i);
+    const doorsClock = readClock(raw.match(DOORS_TIME) ?? raw.trim().match(BARE_TIME));
+    const showClock = readClock(raw.match(SHOW_TIME) ?? raw.match(TIME_THEN_SHOW));
+
+    const day = toVancouverDateKey(eventDate);
+    const eventTime = isStartOfVancouverDay(eventDate) ? null : eventDate;
+
+    let doors: Date | null = null;
+    if (doorsClock) {
+        const beforeEvent = eventTime
+            ? clockCandidates(doorsClock, [shiftDateKey(day, -1), day]).filter((t) => t <= eventTime)
+            : [];
+        doors = beforeEvent[beforeEvent.length - 1] ?? atClock(doorsClock, day);
+    }
+
+    let show: Date | null = null;
+    if (showClock && doors) {
+        const doorsDay = toVancouverDateKey(doors);
+        show = clockCandidates(showClock, [doorsDay, shiftDateKey(doorsDay, 1)]).find((t) => t >= doors!) ?? null;
+    } else if (showClock) {
+        show = atClock(showClock, day);
+    }
 
-    return {
-        doors: doorsMatch ? parseVancouverDate(doorsMatch[1]) : null,
-        show: showMatch ? parseVancouverDate(showMatch[1]) : null,
+    return { doors, show };
+}
+
+/**
+ * Whether a date is exactly midnight in Vancouver, as a date without a time parses to.
+ */
+export function isStartOfVancouverDay(date: Date): boolean {
+    return formatInTimeZone(date, VANCOUVER_TZ, 'HH:mm:ss.SSS') === '00:00:00.000';
+}
+
+/**
+ * Midnight in Vancouver at the start of the day after `date`'s: 23 or 25
+ * hours on when the clocks change.
+ */
+export function startOfNextVancouverDay(date: Date): Date {
+    return fromZonedTime(`${shiftDateKey(toVancouverDateKey(date), 1)}T00:00:00`, VANCOUVER_TZ);
+}
+
+interface Clock {
+    hour: number;
+    minute: number;
+    meridiem: 'am' | 'pm' | null;   // null for 24-hour times and ones without am/pm
+}
+
+function readClock(match: RegExpMatchArray | null): Clock | null {
+    if (!match) return null;
+
+    const [hour, minute = '0'] = match[1].split(/[:.]/);
+    const clock: Clock = {
+        hour: Number(hour),
+        minute: Number(minute),
+        meridiem: match[2] ? (match[2].toLowerCase().startsWith('a') ? 'am' : 'pm') : null,
     };
+    if (clock.hour > 23 || clock.minute > 59 || (clock.meridiem && (clock.hour === 0 || clock.hour > 12))) return null;
+    return clock;
+}
+
+/**
+ * A clock reading on a day, as pm when it has no am/pm.
+ */
+function atClock(clock: Clock, day: string): Date {
+    const hour = clock.meridiem === 'am' ? clock.hour % 12
+        : clock.meridiem === 'pm' || (clock.hour > 0 && clock.hour <= 12) ? clock.hour % 12 + 12
+        : clock.hour;
+    return fromZonedTime(`${day}T${pad(hour)}:${pad(clock.minute)}:00`, VANCOUVER_TZ);
+}
+
+/**
+ * Every instant a clock reading could mean on `days`, earliest first:
+ * both am and pm for a 12-hour time without either.
+ */
+function clockCandidates(clock: Clock, days: string[]): Date[] {
+    const readings: Clock[] = clock.meridiem || clock.hour === 0 || clock.hour > 12
+        ? [clock]
+        : [{ ...clock, meridiem: 'am' }, { ...clock, meridiem: 'pm' }];
+
+    return days.flatMap((day) => readings.map((reading) => atClock(reading, day)));
+}
+
+function shiftDateKey(day: string, days: number): string {
+    return new Date(Date.parse(`${day}T12:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
 }
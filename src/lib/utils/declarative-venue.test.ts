@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest';
+import { defineVenue, readField } from './declarative-venue';
+import type { VenueDefinition } from './declarative-venue';
+import { parseHTML } from './scraper-core';
+import { parseVancouverDate } from './date-parser';
+import { EVENTS_CALENDAR_DETAIL, EVENTS_CALENDAR_LIST } from '../venues/presets';
+
+const listPage = (items: string, next?: string) => `
+    <main>
+        ${items}
+        ${next ? `<nav><a class="tribe-events-c-nav__next" href="${next}">Next</a></nav>` : ''}
+    </main>
+`;
+
+const listItem = (slug: string, title: string, date: string, time: string, price?: string) => `
+    <article class="tribe-events-calendar-list__event">
+        <time class="tribe-events-calendar-list__event-datetime" datetime="${date}">
+            <span class="tribe-event-date-start">January 12 @ ${time}</span>
+        </time>
+        <h3 class="tribe-events-calendar-list__event-title">
+            <a href="/event/${slug}/">  ${title} </a>
+        </h3>
+        ${price ? `<span class="tribe-events-c-small-cta__price">${price}</span>` : ''}
+    </article>
+`;
+
+const PAGES: Record<string, string> = {
+    'https://venue.example.com/events/list/page/2/': listPage(
+        listItem('comic-y', 'Comic Y', '2024-01-13', '9:00 pm')
+    ),
+    'https://venue.example.com/event/band-x/': `
+        <div class="tribe-events-single-event-description"><p>Doors: 7pm. All ages.</p></div>
+        <span class="tribe-events-cost">$15 – $20</span>
+    `,
+    'https://venue.example.com/event/comic-y/': '<p>No details here</p>',
+};
+
+const Venue: VenueDefinition = {
+    id: 'example-venue',
+    name: 'Example Venue',
+    url: 'https://venue.example.com/events/',
+    enabled: true,
+    ...EVENTS_CALENDAR_LIST,
+    detail: EVENTS_CALENDAR_DETAIL,
+};
+
+const CALENDAR = listPage(
+    listItem('band-x', 'Band X', '2024-01-12', '8:00 pm', '$15') +
+    listItem('band-x', 'Band X', '2024-01-12', '8:00 pm', '$15'),    // rendered twice
+    '/events/list/page/2/'
+);
+
+function fakeContext() {
+    return {
+        fetchHtml: vi.fn(async (url: string) => {
+            if (!(url in PAGES)) throw new Error(`HTTP 404: ${url}`);
+            return PAGES[url];
+        }),
+        fetchJson: vi.fn(async () => { throw new Error('Unexpected JSON fetch'); }),
+    };
+}
+
+describe('defineVenue', () => {
+    it('exposes the definition as a VenueScraper', () => {
+        const scraper = defineVenue(Venue);
+        expect(scraper.id).toBe('example-venue');
+        expect(scraper.fetchMode).toBe('static');
+    });
+
+    it('scrapes list pages, follows pagination and merges detail pages', async () => {
+        const context = fakeContext();
+        const events = await defineVenue(Venue).scrape(null, CALENDAR, context);
+
+        expect(events).toEqual([
+            {
+                title: 'Band X',
+                url: 'https://venue.example.com/event/band-x/',
+                dateRaw: '2024-01-12 8:00 pm',
+                priceRaw: '$15 – $20',
+                doorsRaw: 'Doors: 7pm. All ages.',
+                description: 'Doors: 7pm. All ages.',
+                ageRestriction: 'All ages',
+            },
+            {
+                title: 'Comic Y',
+                url: 'https://venue.example.com/event/comic-y/',
+                dateRaw: '2024-01-13 9:00 pm',
+            },
+        ]);
+        expect(parseVancouverDate(events[0].dateRaw)?.toISOString()).toBe('2024-01-13T04:00:00.000Z');
+        expect(context.fetchHtml).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops at maxPages', async () => {
+        const context = fakeContext();
+        const onePage = { ...Venue, detail: undefined, pagination: { ...Venue.pagination!, maxPages: 1 } };
+
+        const events = await defineVenue(onePage).scrape(null, CALENDAR, context);
+
+        expect(events.map((e) => e.title)).toEqual(['Band X']);
+        expect(context.fetchHtml).not.toHaveBeenCalled();
+    });
+
+    it('keeps calendar data when a detail page fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const html = listPage(listItem('gone', 'Gone Band', '2024-01-14', '8:00 pm', '$10'));
+
+        const [event] = await defineVenue(Venue).scrape(null, html, fakeContext());
+
+        expect(event).toMatchObject({ title: 'Gone Band', priceRaw: '$10' });
+        vi.restoreAllMocks();
+    });
+
+    it('drops malformed and non-web links without failing the venue', async () => {
+        const withHref = (href: string, title: string) => listItem('x', title, '2024-01-12', '8:00 pm')
+            .replace('href="/event/x/"', `href="${href}"`);
+        const html = listPage(withHref('http://[broken', 'Broken Link') + withHref('javascript:alert(1)', 'Script Link'));
+
+        const events = await defineVenue({ ...Venue, detail: undefined }).scrape(null, html, fakeContext());
+
+        expect(events.map((e) => [e.title, e.url])).toEqual([['Broken Link', undefined], ['Script Link', undefined]]);
+    });
+
+    it('skips items without a title', async () => {
+        const html = listPage('<article class="tribe-events-calendar-list__event"><p>Ad</p></article>');
+        expect(await defineVenue({ ...Venue, detail: undefined }).scrape(null, html, fakeContext())).toEqual([]);
+    });
+});
+
+describe('readField', () => {
+    const $ = parseHTML('<div class="x"><a href="/a" data-id="7">  Hello\n  world </a><p>Doors 7:30 PM / Show 8:30 PM</p></div>');
+    const scope = $('.x');
+
+    it('reads text, attributes and the element itself', () => {
+        expect(readField(scope, 'a')).toBe('Hello world');
+        expect(readField(scope, { selector: 'a', attr: 'data-id' })).toBe('7');
+        expect(readField(scope.find('a'), {})).toBe('Hello world');
+        expect(readField(scope, '.missing')).toBeUndefined();
+    });
+
+    it('keeps regex capture groups', () => {
+        expect(readField(scope, { selector: 'p', match: /Show (\d+:\d+) (PM)/ })).toBe('8:30 PM');
+        expect(readField(scope, { selector: 'p', match: /Doors \S+/ })).toBe('Doors 7:30');
+        expect(readField(scope, { selector: 'p', match: /Matinee/ })).toBeUndefined();
+    });
+});
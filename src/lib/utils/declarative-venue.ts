@@ -0,0 +1,275 @@
+import type { Page } from 'playwright';
+import type { CheerioAPI } from 'cheerio';
+import { parseHTML, resolveWebUrl } from './scraper-core';
+import { extractStructuredEvent, withStructuredData } from './structured-data';
+import type { FetchMode, RawEvent, ScrapeContext, VenueScraper } from './scraper-core';
+
+/**
+ * Declarative venue scrapers.
+ *
+ * Most venue calendars are a list of items with a title, date and link,
+ * sometimes followed by a visit to each detail page for doors and price.
+ * A `VenueDefinition` describes that with selectors, and `defineVenue`
+ * turns it into a regular `VenueScraper`.
+ */
+
+/**
+ * How to read one value, relative to the element being scraped.
+ * A plain string is a selector whose text is used.
+ */
+export type FieldSpec = string | {
+    selector?: string;   // omit to read the element itself
+    attr?: string;       // read this attribute instead of the text
+    match?: RegExp;      // keep the capture groups (joined by a space), or the whole match
+};
+
+/**
+ * Where each RawEvent field comes from. An array of specs reads each part
+ * and joins the non-empty ones with a space (e.g. a date and a time).
+ */
+export type FieldMap = Partial<Record<EventField, FieldSpec | FieldSpec[]>>;
+
+export type EventField = 'title' | 'date' | 'url' | 'price' | 'doors' | 'description' | 'image' | 'tickets' | 'age';
+
+export interface VenueDefinition {
+    id: string;
+    name: string;
+    url: string;
+    enabled: boolean;
+    fetchMode?: FetchMode;
+
+    /** Dynamic venues: wait for this selector before reading a page. */
+    waitFor?: string;
+
+    /** One element per event on the calendar page. */
+    list: string;
+    fields: FieldMap & { title: FieldSpec | FieldSpec[] };
+
+    /** Fields read from each event's `url`; non-empty values win over the list's. */
+    detail?: {
+        fields: FieldMap;
+        limit?: number;      // at most this many detail pages (default 50)
+    };
+
+    /** Follow a "next page" link until it's missing or `maxPages` is reached (default 3). */
+    pagination?: {
+        next: FieldSpec;
+        maxPages?: number;
+    };
+}
+
+/**
+ * A Cheerio selection to read fields from.
+ */
+type Scope = ReturnType<CheerioAPI>;
+
+const DEFAULT_DETAIL_LIMIT = 50;
+const DEFAULT_MAX_PAGES = 3;
+const PAGE_TIMEOUT_MS = 15000;
+
+type TextKey = 'title' | 'dateRaw' | 'url' | 'priceRaw' | 'doorsRaw' | 'description' | 'imageUrl' | 'ticketUrl' | 'ageRestriction';
+
+const RAW_EVENT_KEYS: Record<EventField, TextKey> = {
+    title: 'title',
+    date: 'dateRaw',
+    url: 'url',
+    price: 'priceRaw',
+    doors: 'doorsRaw',
+    description: 'description',
+    image: 'imageUrl',
+    tickets: 'ticketUrl',
+    age: 'ageRestriction',
+};
+
+/**
+ * Fields holding links, resolved against the page they were read from.
+ */
+const URL_FIELDS = new Set<EventField>(['url', 'image', 'tickets']);
+
+/**
+ * Build a VenueScraper from a declarative definition.
+ */
+export function defineVenue(definition: VenueDefinition): VenueScraper {
+    return {
+        id: definition.id,
+        name: definition.name,
+        url: definition.url,
+        enabled: definition.enabled,
+        fetchMode: definition.fetchMode,
+
+        scrape(page: Page | null, html: string | null, context?: ScrapeContext): Promise<RawEvent[]> {
+            return scrapeDefinition(definition, page, html, context);
+        },
+    };
+}
+
+/**
+ * Run a definition against the calendar page, its following pages and
+ * the event detail pages.
+ */
+export async function scrapeDefinition(
+    definition: VenueDefinition,
+    page: Page | null,
+    html: string | null,
+    context?: ScrapeContext
+): Promise<RawEvent[]> {
+    const load = async (url: string): Promise<string> => {
+        if (page) {
+            await page.goto(url, { waitUntil: 'domcontentloaded', timeout: PAGE_TIMEOUT_MS });
+            return readPage(definition, page);
+        }
+        if (!context) {
+            throw new Error(`${definition.name}: can't fetch ${url} without a page or scrape context`);
+        }
+        return context.fetchHtml(url);
+    };
+
+    let pageUrl = definition.url;
+    let current = page ? await readPage(definition, page) : html;
+    if (current === null) {
+        throw new Error(`${definition.name}: no calendar HTML to scrape`);
+    }
+
+    const events: RawEvent[] = [];
+    const seen = new Set<string>();
+    const visited = new Set([pageUrl]);
+    const maxPages = definition.pagination?.maxPages ?? DEFAULT_MAX_PAGES;
+
+    for (let pageNumber = 1; ; pageNumber++) {
+        const $ = parseHTML(current);
+
+        for (const element of $(definition.list).toArray()) {
+            const event = extractEvent($(element), definition.fields, pageUrl);
+            if (!event) continue;
+
+            // Calendars often render an event more than once (e.g. list + flyout)
+            const key = event.url || `${event.title}|${event.dateRaw}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            events.push(event);
+        }
+
+        if (!definition.pagination || pageNumber >= maxPages) break;
+
+        const next = readField($.root(), definition.pagination.next);
+        const nextUrl = next ? resolveWebUrl(next, pageUrl) : undefined;
+        if (!nextUrl || visited.has(nextUrl)) break;
+
+        visited.add(nextUrl);
+        current = await load(nextUrl);
+        pageUrl = nextUrl;
+    }
+
+    if (definition.detail) {
+        await addDetails(definition.detail, events, load);
+    }
+
+    return events;
+}
+
+/**
+ * Visit each event's detail page and merge in its fields, then any
+ * structured data (JSON-LD, microdata) the page embeds.
+ * Events keep their calendar data if the detail page fails.
+ */
+async function addDetails(
+    detail: NonNullable<VenueDefinition['detail']>,
+    events: RawEvent[],
+    load: (url: string) => Promise<string>
+): Promise<void> {
+    const withUrls = events.filter((e) => e.url).slice(0, detail.limit ?? DEFAULT_DETAIL_LIMIT);
+    console.log(`   📄 Fetching details for ${withUrls.length} events...`);
+
+    for (let i = 0; i < withUrls.length; i++) {
+        const event = withUrls[i];
+
+        try {
+            const html = await load(event.url!);
+            const $ = parseHTML(html);
+            const fields = readFields($.root(), detail.fields, event.url!);
+
+            for (const [key, value] of Object.entries(fields)) {
+                if (value) Object.assign(event, { [key]: value });
+            }
+
+            // Embedded schema.org data beats selector heuristics
+            Object.assign(event, withStructuredData(event, extractStructuredEvent(html, event.url)));
+        } catch (err) {
+            console.warn(`   ⚠️ Failed to fetch details for "${event.title}"`);
+        }
+
+        if ((i + 1) % 10 === 0) {
+            console.log(`   📄 Progress: ${i + 1}/${withUrls.length} events`);
+        }
+    }
+}
+
+/**
+ * Read a calendar item into a RawEvent. Items without a title are skipped;
+ * a missing date is left empty for normalization to reject (and count).
+ */
+function extractEvent(
+    element: Scope,
+    fields: FieldMap,
+    pageUrl: string
+): RawEvent | null {
+    const values = readFields(element, fields, pageUrl);
+    if (!values.title) return null;
+
+    return { ...values, title: values.title, dateRaw: values.dateRaw ?? '' };
+}
+
+function readFields(
+    scope: Scope,
+    fields: FieldMap,
+    pageUrl: string
+): Partial<RawEvent> {
+    const values: Partial<RawEvent> = {};
+
+    for (const [field, spec] of Object.entries(fields) as [EventField, FieldSpec | FieldSpec[]][]) {
+        let value = Array.isArray(spec)
+            ? spec.map((part) => readField(scope, part)).filter(Boolean).join(' ') || undefined
+            : readField(scope, spec);
+
+        // One bad or `javascript:` link drops that field, not the venue
+        if (value && URL_FIELDS.has(field)) {
+            value = resolveWebUrl(value, pageUrl);
+        }
+        if (value) {
+            values[RAW_EVENT_KEYS[field]] = value;
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Read one field from the first element matching its selector.
+ */
+export function readField(scope: Scope, spec: FieldSpec): string | undefined {
+    const { selector, attr, match } = typeof spec === 'string' ? { selector: spec } : spec;
+    const target = selector ? scope.find(selector).first() : scope.first();
+    if (target.length === 0) return undefined;
+
+    let value = attr ? target.attr(attr) : target.text();
+    value = value?.replace(/\s+/g, ' ').trim();
+    if (!value) return undefined;
+
+    if (match) {
+        const result = value.match(match);
+        if (!result) return undefined;
+        value = result.length > 1 ? result.slice(1).filter(Boolean).join(' ') : result[0];
+    }
+
+    return value || undefined;
+}
+
+/**
+ * Wait for the definition's selector (if any) and return the page HTML.
+ */
+async function readPage(definition: VenueDefinition, page: Page): Promise<string> {
+    if (definition.waitFor) {
+        await page.waitForSelector(definition.waitFor, { timeout: PAGE_TIMEOUT_MS });
+    }
+    return page.content();
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { diffEvent } from './event-diff';
+
+const base = {
+    title: 'Band X',
+    date: new Date('2024-01-13T04:00:00.000Z'),
+    endDate: null,
+    doorsTime: null,
+    url: 'https://example.com/band-x',
+    price: 2000,
+    isFree: false,
+    pricing: { tiers: [{ label: null, min: 2000, max: null, currency: 'CAD', feesIncluded: null }], pwyc: false, slidingScale: false, donation: false },
+    eventType: 'music',
+    performers: [{ name: 'Band X', role: 'headliner' as const }],
+    description: null,
+    imageUrl: null,
+    ticketUrl: null,
+    ageRestriction: '19+',
+};
+
+describe('diffEvent', () => {
+    it('returns nothing for identical events', () => {
+        expect(diffEvent(base, { ...base, date: new Date(base.date) })).toEqual([]);
+    });
+
+    it('reports each changed field with serialized values', () => {
+        const changes = diffEvent(base, {
+            ...base,
+            price: 2500,
+            doorsTime: new Date('2024-01-13T03:00:00.000Z'),
+        });
+
+        expect(changes).toEqual([
+            { field: 'doorsTime', oldValue: null, newValue: '2024-01-13T03:00:00.000Z' },
+            { field: 'price', oldValue: '2000', newValue: '2500' },
+        ]);
+    });
+
+    it('treats a cleared value as a change', () => {
+        expect(diffEvent(base, { ...base, url: null })).toEqual([
+            { field: 'url', oldValue: 'https://example.com/band-x', newValue: null },
+        ]);
+    });
+
+    it('compares performers by value', () => {
+        expect(diffEvent(base, { ...base, performers: [{ name: 'Band X', role: 'headliner' }] })).toEqual([]);
+
+        const changes = diffEvent(base, {
+            ...base,
+            performers: [...base.performers, { name: 'Opener', role: 'support' }],
+        });
+        expect(changes).toEqual([{
+            field: 'performers',
+            oldValue: '[{"name":"Band X","role":"headliner"}]',
+            newValue: '[{"name":"Band X","role":"headliner"},{"name":"Opener","role":"support"}]',
+        }]);
+    });
+});
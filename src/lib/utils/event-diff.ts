@@ -0,0 +1,65 @@
+import type { NormalizedEvent } from './normalize';
+
+/**
+ * Fields compared when an already-stored event is scraped again.
+ * Identity fields (id, venueId, hash) and timestamps are never diffed.
+ */
+export const TRACKED_FIELDS = [
+    'title',
+    'date',
+    'endDate',
+    'doorsTime',
+    'url',
+    'price',
+    'isFree',
+    'pricing',
+    'eventType',
+    'performers',
+    'description',
+    'imageUrl',
+    'ticketUrl',
+    'ageRestriction',
+] as const;
+
+export type TrackedField = typeof TRACKED_FIELDS[number];
+
+/**
+ * A single field change, with values serialized for the `EventChange` table.
+ */
+export interface FieldChange {
+    field: string;
+    oldValue: string | null;
+    newValue: string | null;
+}
+
+/**
+ * Compare a stored event against a freshly normalized one.
+ * Returns one entry per tracked field whose value changed.
+ */
+export function diffEvent(
+    existing: Record<TrackedField, unknown>,
+    incoming: Pick<NormalizedEvent, TrackedField>
+): FieldChange[] {
+    const changes: FieldChange[] = [];
+
+    for (const field of TRACKED_FIELDS) {
+        const oldValue = serializeValue(existing[field]);
+        const newValue = serializeValue(incoming[field]);
+
+        if (oldValue !== newValue) {
+            changes.push({ field, oldValue, newValue });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Serialize a column value to text (dates as ISO strings, JSON columns as JSON).
+ */
+export function serializeValue(value: unknown): string | null {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
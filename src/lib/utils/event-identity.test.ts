@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+    assignEventHashes,
+    canonicalEventUrl,
+    generateEventHash,
+    generateIdentityHash,
+    generateShowtimeHash,
+    planRekey,
+} from './event-identity';
+import type { StoredEventIdentity } from './event-identity';
+
+describe('generateEventHash', () => {
+    it('keys evening and late shows to their own night', () => {
+        const eightPm = generateEventHash('venue', new Date('2024-01-13T04:00:00Z'), 'Band X');
+        const noon = generateEventHash('venue', new Date('2024-01-12T20:00:00Z'), 'band  x ');
+
+        expect(eightPm).toBe(noon);
+        expect(eightPm).not.toBe(generateEventHash('venue', new Date('2024-01-13T20:00:00Z'), 'Band X'));
+    });
+});
+
+describe('canonicalEventUrl', () => {
+    it('drops fragments, tracking params and trailing slashes', () => {
+        expect(canonicalEventUrl('https://Venue.example.com/events/band-x/?utm_source=ig&date=2024-01-12#tickets'))
+            .toBe('https://venue.example.com/events/band-x?date=2024-01-12');
+    });
+});
+
+describe('assignEventHashes', () => {
+    const date = new Date('2024-01-13T04:00:00Z');
+    const later = new Date('2024-02-13T04:00:00Z');
+
+    it('prefers the venue ID, then the URL, over date and title', () => {
+        const [byId, byUrl, byDate] = assignEventHashes('venue', [
+            { date, title: 'A', externalId: '42', url: 'https://example.com/a' },
+            { date, title: 'B', url: 'https://example.com/b/' },
+            { date, title: 'C' },
+        ]);
+
+        expect(byId).toBe(generateIdentityHash('venue', 'id:42'));
+        expect(byUrl).toBe(generateIdentityHash('venue', 'url:https://example.com/b'));
+        expect(byDate).toBe(generateEventHash('venue', date, 'C'));
+    });
+
+    it('keeps the hash when a show with its own URL is rescheduled', () => {
+        const [before] = assignEventHashes('venue', [{ date, title: 'Band X', url: 'https://example.com/x' }]);
+        const [after] = assignEventHashes('venue', [{ date: later, title: 'Band X (New Date)', url: 'https://example.com/x' }]);
+
+        expect(after).toBe(before);
+    });
+
+    it('keys every showing by start time when a title shows more than once a day', () => {
+        const matinee = new Date('2024-01-12T21:00:00Z');
+        const hashes = assignEventHashes('venue', [
+            { date: matinee, title: 'Film', url: 'https://example.com/film' },
+            { date, title: 'Film', url: 'https://example.com/film' },
+        ]);
+
+        // Adding the matinee leaves neither showing with the evening's old hash
+        expect(hashes).toEqual([generateShowtimeHash('venue', matinee, 'Film'), generateShowtimeHash('venue', date, 'Film')]);
+    });
+
+    it('falls back to date and title for URLs several events share', () => {
+        const shared = 'https://example.com/weekly-trivia';
+        const hashes = assignEventHashes('venue', [
+            { date, title: 'Trivia', url: shared },
+            { date: later, title: 'Trivia', url: `${shared}#next` },
+        ]);
+
+        expect(hashes).toEqual([generateEventHash('venue', date, 'Trivia'), generateEventHash('venue', later, 'Trivia')]);
+    });
+});
+
+describe('planRekey', () => {
+    const row = (id: string, overrides: Partial<StoredEventIdentity> = {}): StoredEventIdentity => ({
+        id,
+        venueId: 'venue',
+        hash: `old-${id}`,
+        date: new Date('2024-01-13T04:00:00Z'),
+        title: `Show ${id}`,
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        ...overrides,
+    });
+
+    it('re-keys rows, keeping same-day showings apart', () => {
+        const rows = [
+            // Split by the old UTC key: 8 PM and 4 PM showings on one night
+            row('a', { title: 'Film' }),
+            row('b', { title: 'Film', date: new Date('2024-01-13T00:00:00Z') }),
+            row('c', { url: 'https://example.com/c' }),
+        ];
+
+        const changes = planRekey(rows);
+
+        expect(changes).toEqual([
+            { id: 'a', hash: generateShowtimeHash('venue', rows[0].date, 'Film'), duplicateOf: null },
+            { id: 'b', hash: generateShowtimeHash('venue', rows[1].date, 'Film'), duplicateOf: null },
+            { id: 'c', hash: generateIdentityHash('venue', 'url:https://example.com/c'), duplicateOf: null },
+        ]);
+
+        const migrated = rows.map((r) => ({ ...r, ...changes.find((c) => c.id === r.id) }));
+        expect(planRekey(migrated)).toEqual([]);
+    });
+
+    it('marks rows that collide as duplicates of the latest seen', () => {
+        const rows = [
+            row('a', { title: 'Band X', lastSeenAt: new Date('2024-01-10T00:00:00Z') }),
+            row('b', { title: 'band  x', lastSeenAt: new Date('2024-01-05T00:00:00Z') }),
+        ];
+
+        expect(planRekey(rows)).toEqual([
+            { id: 'b', hash: generateIdentityHash('venue', 'duplicate:b'), duplicateOf: 'a' },
+            { id: 'a', hash: generateEventHash('venue', rows[0].date, 'Band X'), duplicateOf: null },
+        ]);
+    });
+});
@@ -0,0 +1,202 @@
+import { createHash } from 'crypto';
+import { toVancouverDateKey } from './date-parser';
+
+/**
+ * Event identity: the `hash` an event is stored under, so a re-scrape
+ * finds the same row.
+ *
+ * A venue's own event ID or detail-page URL identifies an event across
+ * title edits and reschedules, so it's preferred. Without one, the event
+ * is keyed by its Vancouver calendar date and title.
+ */
+
+/**
+ * What a listing offers to identify it.
+ */
+export interface IdentifiableEvent {
+    date: Date;
+    title: string;
+    url?: string | null;
+    externalId?: string | null;
+}
+
+/**
+ * Query params that track clicks rather than identify a page.
+ */
+const TRACKING_PARAMS = /^(?:utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|aff)$/i;
+
+/**
+ * Hash of a venue, Vancouver date and title, for events with nothing
+ * better to identify them. An 8 PM show keys to its own day, not the next
+ * UTC one.
+ */
+export function generateEventHash(venueId: string, date: Date, title: string): string {
+    return md5(`${venueId}|${toVancouverDateKey(date)}|${normalizeTitle(title)}`);
+}
+
+/**
+ * Hash of a venue, start time and title, for telling apart several
+ * showings of one title on the same day.
+ */
+export function generateShowtimeHash(venueId: string, date: Date, title: string): string {
+    return md5(`${venueId}|${date.toISOString()}|${normalizeTitle(title)}`);
+}
+
+/**
+ * Hash of a venue's own identifier for an event (an ID or a URL).
+ */
+export function generateIdentityHash(venueId: string, identity: string): string {
+    return md5(`${venueId}|${identity}`);
+}
+
+/**
+ * A URL reduced to what identifies the page: no fragment, tracking params
+ * or trailing slash, and a lowercase host.
+ */
+export function canonicalEventUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        parsed.hash = '';
+        for (const name of [...parsed.searchParams.keys()]) {
+            if (TRACKING_PARAMS.test(name)) parsed.searchParams.delete(name);
+        }
+        parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+        return parsed.href;
+    } catch {
+        return url.trim();
+    }
+}
+
+/**
+ * Hash each of a venue's events. An external ID or URL is only used when
+ * no other event in the batch shares it (recurring events often link to
+ * one page, and some calendars link everything to themselves); otherwise
+ * the Vancouver date and title are. When a title shows more than once
+ * that day, every showing is keyed by its start time instead, so adding
+ * a matinee can't take over the evening showing's hash (see
+ * `findReschedules` for rows stored before a second showing appeared).
+ */
+export function assignEventHashes(venueId: string, events: IdentifiableEvent[]): string[] {
+    const identities = events.map(identityOf);
+
+    const counts = new Map<string, number>();
+    for (const identity of identities.flat()) {
+        counts.set(identity, (counts.get(identity) ?? 0) + 1);
+    }
+
+    // Distinct start times of each date-and-title hash
+    const byDate = events.map((event) => generateEventHash(venueId, event.date, event.title));
+    const showings = new Map<string, Set<number>>();
+    byDate.forEach((hash, i) => showings.set(hash, (showings.get(hash) ?? new Set()).add(events[i].date.getTime())));
+
+    return events.map((event, i) => {
+        const unique = identities[i].find((identity) => counts.get(identity) === 1);
+        if (unique) return generateIdentityHash(venueId, unique);
+
+        return showings.get(byDate[i])!.size === 1
+            ? byDate[i]
+            : generateShowtimeHash(venueId, event.date, event.title);
+    });
+}
+
+/**
+ * Series ID shared by every date of a recurring event or run: the
+ * scraper's series key if it has one, else the venue's ID for the event,
+ * else its title.
+ */
+export function generateSeriesId(venueId: string, event: { title: string; externalId?: string | null; seriesKey?: string | null }): string {
+    const key = event.seriesKey?.trim() || event.externalId?.trim() || `title:${normalizeTitle(event.title)}`;
+    return generateIdentityHash(venueId, `series:${key}`);
+}
+
+/**
+ * Identities an event offers, best first: "id:…", then "url:…".
+ */
+function identityOf(event: IdentifiableEvent): string[] {
+    const identities: string[] = [];
+    if (event.externalId?.trim()) identities.push(`id:${event.externalId.trim()}`);
+    if (event.url?.trim()) identities.push(`url:${canonicalEventUrl(event.url)}`);
+    return identities;
+}
+
+function normalizeTitle(title: string): string {
+    return title.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+function md5(input: string): string {
+    return createHash('md5').update(input).digest('hex');
+}
+
+/**
+ * A stored event, as `planRekey` needs it.
+ */
+export interface StoredEventIdentity extends IdentifiableEvent {
+    id: string;
+    venueId: string;
+    hash: string;
+    duplicateOf?: string | null;
+    lastSeenAt?: Date | null;
+    createdAt: Date;
+}
+
+/**
+ * A row whose hash (and possibly `duplicateOf`) changes.
+ */
+export interface RekeyChange {
+    id: string;
+    hash: string;
+    duplicateOf: string | null;
+}
+
+/**
+ * Work out new hashes for stored events, one venue at a time, the way
+ * `normalizeEvents` assigns them to fresh scrapes.
+ *
+ * Rows that now share a hash were always the same show (e.g. split by the
+ * old UTC date key). The most recently seen keeps the hash; the others are
+ * marked as its duplicates and get a hash of their own that no scrape
+ * will produce. Returns only rows that change, so it's safe to rerun.
+ */
+export function planRekey(rows: StoredEventIdentity[]): RekeyChange[] {
+    const byVenue = new Map<string, StoredEventIdentity[]>();
+    for (const row of rows) {
+        byVenue.set(row.venueId, [...byVenue.get(row.venueId) ?? [], row]);
+    }
+
+    const changes: RekeyChange[] = [];
+    const change = (row: StoredEventIdentity, hash: string, duplicateOf: string | null) => {
+        if (row.hash !== hash || (row.duplicateOf ?? null) !== duplicateOf) {
+            changes.push({ id: row.id, hash, duplicateOf });
+        }
+    };
+    const duplicateHash = (row: StoredEventIdentity) => generateIdentityHash(row.venueId, `duplicate:${row.id}`);
+
+    for (const [venueId, venueRows] of byVenue) {
+        const live = venueRows.filter((row) => !row.duplicateOf);
+        const hashes = assignEventHashes(venueId, live);
+
+        const byHash = new Map<string, StoredEventIdentity[]>();
+        live.forEach((row, i) => byHash.set(hashes[i], [...byHash.get(hashes[i]) ?? [], row]));
+
+        const keepers: StoredEventIdentity[] = [];
+        for (const group of byHash.values()) {
+            const [keeper, ...duplicates] = [...group].sort((a, b) =>
+                (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0)
+                || a.createdAt.getTime() - b.createdAt.getTime());
+
+            keepers.push(keeper);
+            for (const duplicate of duplicates) {
+                change(duplicate, duplicateHash(duplicate), keeper.id);
+            }
+        }
+
+        // Without their duplicates, some keepers' URLs become unique
+        assignEventHashes(venueId, keepers).forEach((hash, i) => change(keepers[i], hash, null));
+
+        for (const row of venueRows.filter((row) => row.duplicateOf)) {
+            change(row, duplicateHash(row), row.duplicateOf!);
+        }
+    }
+
+    return changes;
+}
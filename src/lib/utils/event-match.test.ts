@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import {
+    AUTO_MATCH_SCORE,
+    REVIEW_MATCH_SCORE,
+    findBestMatch,
+    findReschedules,
+    normalizeTitle,
+    scoreMatch,
+    sharesListing,
+    titleSimilarity,
+} from './event-match';
+import type { MatchableEvent } from './event-match';
+import { assignEventHashes } from './event-identity';
+
+const event = (id: string, title: string, date: string, overrides: Partial<MatchableEvent> = {}): MatchableEvent => ({
+    id,
+    venueId: 'rickshaw-theatre',
+    title,
+    date: new Date(date),
+    ...overrides,
+});
+
+describe('normalizeTitle', () => {
+    it.each([
+        ['Band X (w/ Opener Y)', 'band x'],
+        ['Band X w/ Opener Y & Z', 'band x'],
+        ['Live Nation presents: Band X', 'band x'],
+        ['BAND X — SOLD OUT!', 'band x'],
+        ['Beyoncé feat. Guest', 'beyonce'],
+        ['Rock & Roll [Late Show]', 'rock and roll'],
+    ])('%s -> %s', (title, expected) => {
+        expect(normalizeTitle(title)).toBe(expected);
+    });
+});
+
+describe('titleSimilarity', () => {
+    it('scores identical shows as 1 despite billing noise', () => {
+        expect(titleSimilarity('Band X', 'Band X (w/ Opener Y)')).toBe(1);
+        expect(titleSimilarity('The Band X Tour', 'Band X')).toBe(1);
+    });
+
+    it('scores a title contained in a longer one as 0.9', () => {
+        expect(titleSimilarity('Band X', 'Band X: Farewell')).toBe(0.9);
+    });
+
+    it('scores unrelated titles low', () => {
+        expect(titleSimilarity('Band X', 'Comedy Showcase')).toBe(0);
+        expect(titleSimilarity('Band X', 'Band Y')).toBe(0.5);
+    });
+});
+
+describe('scoreMatch', () => {
+    it('ignores listings outside the time window', () => {
+        expect(scoreMatch(
+            event('a', 'Band X', '2024-01-13T04:00:00Z'),
+            event('b', 'Band X', '2024-01-14T04:00:00Z')
+        )).toBeNull();
+    });
+
+    it('matches a late show that moved past midnight', () => {
+        const result = scoreMatch(
+            event('a', 'Band X', '2024-01-13T07:30:00Z'),   // 11:30 PM
+            event('b', 'Band X (w/ Y)', '2024-01-13T08:30:00Z')
+        );
+
+        expect(result!.score).toBeGreaterThanOrEqual(AUTO_MATCH_SCORE);
+        expect(result!.reasons).toEqual(['same title', '60 min apart']);
+    });
+
+    it('treats the same link as certain', () => {
+        expect(scoreMatch(
+            event('a', 'Something', '2024-01-13T04:00:00Z', { url: 'https://example.com/x' }),
+            event('b', 'Else', '2024-01-13T05:00:00Z', { url: 'https://example.com/x' })
+        )).toEqual({ score: 1, reasons: ['same link'] });
+    });
+
+    it('matches a promoter listing by headliner', () => {
+        const result = scoreMatch(
+            event('a', 'Winter Warmer', '2024-01-13T04:00:00Z', {
+                performers: [{ name: 'Band X', role: 'headliner' }],
+            }),
+            event('b', 'Band X', '2024-01-13T04:00:00Z', { venueId: 'promoter' })
+        );
+
+        expect(result).toEqual({ score: 0.92, reasons: ['same headliner (band x)', 'same time'] });
+    });
+
+    it('leaves loosely similar listings for review', () => {
+        const result = scoreMatch(
+            event('a', 'Band X', '2024-01-13T04:00:00Z'),
+            event('b', 'Band X and Friends', '2024-01-13T05:30:00Z')
+        );
+
+        expect(result!.score).toBeGreaterThanOrEqual(REVIEW_MATCH_SCORE);
+        expect(result!.score).toBeLessThan(AUTO_MATCH_SCORE);
+    });
+});
+
+describe('findBestMatch', () => {
+    it('picks the highest-scoring candidate above the threshold', () => {
+        const incoming = event('new', 'Band X', '2024-01-13T04:00:00Z');
+        const candidates = [
+            event('other', 'Band Y', '2024-01-13T04:00:00Z'),
+            event('close', 'Band X (w/ Y)', '2024-01-13T05:00:00Z'),
+            event('exact', 'Band X', '2024-01-13T04:00:00Z'),
+        ];
+
+        expect(findBestMatch(incoming, candidates)).toMatchObject({ candidate: { id: 'exact' }, score: 1 });
+        expect(findBestMatch(incoming, [candidates[0]])).toBeNull();
+    });
+
+    it('never matches an event with itself', () => {
+        const incoming = event('same', 'Band X', '2024-01-13T04:00:00Z');
+        expect(findBestMatch(incoming, [incoming])).toBeNull();
+    });
+});
+
+describe('sharesListing', () => {
+    const trivia = event('a', 'Trivia Night', '2024-01-13T04:00:00Z');
+    const elsewhere = (overrides: Partial<MatchableEvent> = {}) =>
+        event('b', 'Trivia Night', '2024-01-13T04:00:00Z', { venueId: 'fox-cabaret', ...overrides });
+
+    it('needs more than the same title and time', () => {
+        expect(scoreMatch(trivia, elsewhere())?.score).toBe(1);
+        expect(sharesListing(trivia, elsewhere())).toBe(false);
+    });
+
+    it('accepts a shared page, ticket link or platform ID', () => {
+        const tickets = 'https://tickets.example.com/e/123';
+
+        expect(sharesListing({ ...trivia, url: `${tickets}/` }, elsewhere({ ticketUrl: `${tickets}?utm_source=x` }))).toBe(true);
+        expect(sharesListing({ ...trivia, externalId: 'tm-123' }, elsewhere({ externalId: 'tm-123' }))).toBe(true);
+        expect(sharesListing({ ...trivia, externalId: 'tm-123' }, elsewhere({ externalId: 'tm-456' }))).toBe(false);
+    });
+});
+
+describe('findReschedules', () => {
+    const now = new Date('2024-01-01T00:00:00Z');
+
+    it('pairs a listing with the stored event on the same page', () => {
+        const listing = event('new', 'Band X (New Date!)', '2024-02-20T04:00:00Z', { url: 'https://example.com/x/' });
+        const stored = event('old', 'Band X', '2024-01-13T04:00:00Z', { url: 'https://example.com/x' });
+
+        expect(findReschedules([listing], [stored], { now }).get(listing)).toBe(stored);
+    });
+
+    it('picks the same-day event among several sharing a page', () => {
+        const listing = event('new', 'Trivia', '2024-01-20T05:00:00Z', { url: 'https://example.com/trivia' });
+        const stored = [
+            event('week1', 'Trivia', '2024-01-13T04:00:00Z', { url: 'https://example.com/trivia' }),
+            event('week2', 'Trivia', '2024-01-20T04:00:00Z', { url: 'https://example.com/trivia' }),
+        ];
+
+        expect(findReschedules([listing], stored, { now }).get(listing)?.id).toBe('week2');
+    });
+
+    it('pairs by title only when it is unambiguous', () => {
+        const moved = event('new', 'Band X', '2024-02-20T04:00:00Z');
+        const series = event('new-trivia', 'Trivia Night', '2024-02-20T04:00:00Z');
+        const stored = [
+            event('old', 'BAND X', '2024-01-13T04:00:00Z'),
+            event('trivia-1', 'Trivia Night', '2024-01-13T04:00:00Z'),
+            event('trivia-2', 'Trivia Night', '2024-01-20T04:00:00Z'),
+        ];
+
+        const pairs = findReschedules([moved, series], stored, { now, claimed: new Set(['trivia-2']) });
+
+        expect([...pairs].map(([listing, match]) => [listing.id, match.id])).toEqual([['new', 'old']]);
+    });
+
+    it('pairs the showing at the same time when a second showing is added that day', () => {
+        const url = 'https://example.com/film';
+        const matinee = event('matinee', 'Film', '2024-01-13T00:00:00Z', { url });
+        const evening = event('evening', 'Film', '2024-01-13T04:00:00Z', { url });
+        const stored = event('old', 'Film', '2024-01-13T04:00:00Z', { url });
+
+        const pairs = findReschedules([matinee, evening], [stored], { now });
+
+        expect([...pairs].map(([listing, match]) => [listing.id, match.id])).toEqual([['evening', 'old']]);
+    });
+
+    it('finds a replayed rejection that was keyed by a URL the full scrape shares', () => {
+        const url = 'https://example.com/residency';
+        const replayed = event('old', 'Band X', '2024-01-13T04:00:00Z', { url });
+        const scraped = [
+            event('new', 'Band X', '2024-01-13T04:00:00Z', { url }),
+            event('other', 'Band X', '2024-01-20T04:00:00Z', { url }),
+        ];
+
+        // Replayed alone its URL was unique; in the full scrape it isn't
+        const [alone] = assignEventHashes('venue', [replayed]);
+        const [together] = assignEventHashes('venue', scraped);
+        expect(together).not.toBe(alone);
+
+        expect(findReschedules(scraped, [replayed], { now }).get(scraped[0])).toBe(replayed);
+    });
+
+    it('never pairs past or already claimed events by title', () => {
+        const listing = event('new', 'Band X', '2024-02-20T04:00:00Z');
+
+        expect(findReschedules([listing], [event('past', 'Band X', '2023-12-01T04:00:00Z')], { now }).size).toBe(0);
+        expect(findReschedules([listing], [event('old', 'Band X', '2024-01-13T04:00:00Z')], { now, claimed: new Set(['old']) }).size).toBe(0);
+    });
+});
@@ -0,0 +1,259 @@
+import type { Performer } from '../../../db/config';
+import { toVancouverDateKey } from './date-parser';
+import { canonicalEventUrl } from './event-identity';
+
+/**
+ * Fuzzy matching of event listings that are likely the same show: a title
+ * that changed between scrapes ("Band X" -> "Band X (w/ Y)"), a late show
+ * that moved past midnight, or a promoter listing of a venue's event.
+ */
+
+/**
+ * Listings more than this far apart never match.
+ */
+export const MATCH_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * At or above this score, a pair is treated as the same show without review.
+ */
+export const AUTO_MATCH_SCORE = 0.85;
+
+/**
+ * Between this and AUTO_MATCH_SCORE, a pair goes to the review queue.
+ */
+export const REVIEW_MATCH_SCORE = 0.65;
+
+/**
+ * How much of the score comes from the title; the rest is time proximity.
+ */
+const TITLE_WEIGHT = 0.8;
+
+/**
+ * Words that say nothing about which show it is.
+ */
+const STOPWORDS = new Set(['the', 'a', 'an', 'and', 'of', 'at', 'in', 'live', 'tour', 'show', 'night']);
+
+/**
+ * Status notes venues add to titles.
+ */
+const STATUS_NOTES = /\b(?:sold[\s-]*out|cancell?ed|postponed|rescheduled|new date|moved to [^,]+|low tickets|few tickets left)\b/gi;
+
+export interface MatchableEvent {
+    id: string;
+    venueId: string;
+    title: string;
+    date: Date;
+    url?: string | null;
+    ticketUrl?: string | null;
+    externalId?: string | null;
+    performers?: unknown;        // Performer[] (stored as JSON)
+}
+
+export interface MatchResult {
+    score: number;               // 0..1
+    reasons: string[];
+}
+
+/**
+ * A title reduced to the words that identify the show: lowercased, accents
+ * and punctuation removed, without "Promoter presents:", bracketed notes,
+ * "w/ support" / "feat. guest" tails or status notes.
+ */
+export function normalizeTitle(title: string): string {
+    return title
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/^.*?\bpresents?\b:?/, '')
+        .replace(/[([{][^)\]}]*[)\]}]/g, ' ')
+        .replace(/\s(?:w\/|with special guests?|feat\.?|ft\.|featuring)\s.*$/, '')
+        .replace(STATUS_NOTES, ' ')
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+/**
+ * Similarity of two titles from 0 to 1, comparing their words. A title
+ * wholly contained in the other ("Band X" in "Band X: Farewell Tour")
+ * scores 0.9.
+ */
+export function titleSimilarity(a: string, b: string): number {
+    const left = titleTokens(a);
+    const right = titleTokens(b);
+    if (left.size === 0 || right.size === 0) return 0;
+
+    let shared = 0;
+    for (const token of left) {
+        if (right.has(token)) shared++;
+    }
+
+    const dice = (2 * shared) / (left.size + right.size);
+    const containment = shared / Math.min(left.size, right.size);
+    return Math.max(dice, containment === 1 ? 0.9 : 0);
+}
+
+/**
+ * How likely two listings are the same show, or null if they're too far
+ * apart in time to be.
+ */
+export function scoreMatch(a: MatchableEvent, b: MatchableEvent): MatchResult | null {
+    const apart = Math.abs(a.date.getTime() - b.date.getTime());
+    if (apart > MATCH_WINDOW_MS) return null;
+
+    if (a.url && b.url && a.url === b.url) {
+        return { score: 1, reasons: ['same link'] };
+    }
+
+    const reasons: string[] = [];
+    let title = titleSimilarity(a.title, b.title);
+
+    const headliner = sharedHeadliner(a, b);
+    if (headliner && title < 0.9) {
+        title = 0.9;
+        reasons.push(`same headliner (${headliner})`);
+    } else if (title === 1) {
+        reasons.push('same title');
+    } else if (title > 0) {
+        reasons.push(`similar title (${Math.round(title * 100)}%)`);
+    }
+
+    reasons.push(apart === 0 ? 'same time' : `${Math.round(apart / 60000)} min apart`);
+
+    const time = 1 - apart / MATCH_WINDOW_MS;
+    return { score: round(TITLE_WEIGHT * title + (1 - TITLE_WEIGHT) * time), reasons };
+}
+
+/**
+ * Whether two listings share an event page, ticket link or platform ID:
+ * something more than a title and time, which unrelated shows at different
+ * venues ("Trivia Night" at 8 PM) have in common.
+ */
+export function sharesListing(a: MatchableEvent, b: MatchableEvent): boolean {
+    const links = (e: MatchableEvent) =>
+        [e.url, e.ticketUrl].filter((url): url is string => !!url?.trim()).map(canonicalEventUrl);
+
+    const other = new Set(links(b));
+    if (links(a).some((link) => other.has(link))) return true;
+
+    return !!a.externalId?.trim() && a.externalId.trim() === b.externalId?.trim();
+}
+
+/**
+ * The candidate most likely to be the same show as `event`, if any scores
+ * at least `minScore`.
+ */
+export function findBestMatch<T extends MatchableEvent>(
+    event: MatchableEvent,
+    candidates: T[],
+    minScore = REVIEW_MATCH_SCORE
+): (MatchResult & { candidate: T }) | null {
+    let best: (MatchResult & { candidate: T }) | null = null;
+
+    for (const candidate of candidates) {
+        if (candidate.id === event.id) continue;
+
+        const result = scoreMatch(event, candidate);
+        if (result && result.score >= minScore && (!best || result.score > best.score)) {
+            best = { ...result, candidate };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Pair new listings with stored events they're a rescheduled version of:
+ * the same event page, or the same title when exactly one upcoming stored
+ * event and one listing have it (a weekly series never qualifies). A page
+ * shared by several stored events picks the one on the listing's own date.
+ *
+ * First, though, a listing with the same title and start time as a stored
+ * event is that event: its hash changes when a second showing of the title
+ * is added that day, or one of two is dropped (see `assignEventHashes`).
+ *
+ * Stored events in `claimed` (already matched by hash) and those paired
+ * once are never paired again. Listings not in the returned map are new.
+ */
+export function findReschedules<T extends MatchableEvent, U extends MatchableEvent>(
+    listings: T[],
+    stored: U[],
+    { now = new Date(), claimed = new Set<string>() }: { now?: Date; claimed?: Set<string> } = {}
+): Map<T, U> {
+    const pairs = new Map<T, U>();
+    const taken = new Set(claimed);
+    const upcoming = stored.filter((candidate) => candidate.date >= now);
+    const withTitle = <E extends MatchableEvent>(events: E[], title: string) =>
+        events.filter((e) => normalizeTitle(e.title) === title);
+
+    for (const listing of listings) {
+        const title = normalizeTitle(listing.title);
+        const sameShowing = stored.find((c) =>
+            !taken.has(c.id) && c.date.getTime() === listing.date.getTime() && normalizeTitle(c.title) === title);
+
+        if (sameShowing) {
+            pairs.set(listing, sameShowing);
+            taken.add(sameShowing.id);
+        }
+    }
+
+    for (const listing of listings) {
+        if (pairs.has(listing)) continue;
+        let match: U | undefined;
+
+        if (listing.url) {
+            const url = canonicalEventUrl(listing.url);
+            const day = toVancouverDateKey(listing.date);
+            const samePage = stored.filter((c) => !taken.has(c.id) && c.url && canonicalEventUrl(c.url) === url);
+
+            match = samePage.find((c) => toVancouverDateKey(c.date) === day)
+                ?? (samePage.length === 1 && samePage[0].date >= now ? samePage[0] : undefined);
+        }
+
+        const title = normalizeTitle(listing.title);
+        if (!match && title) {
+            const sameTitle = withTitle(upcoming, title);
+            if (sameTitle.length === 1 && !taken.has(sameTitle[0].id) && withTitle(listings, title).length === 1) {
+                match = sameTitle[0];
+            }
+        }
+
+        if (match) {
+            pairs.set(listing, match);
+            taken.add(match.id);
+        }
+    }
+
+    return pairs;
+}
+
+function titleTokens(title: string): Set<string> {
+    const words = normalizeTitle(title).split(' ').filter(Boolean);
+    const meaningful = words.filter((word) => !STOPWORDS.has(word));
+
+    // "The Show" shouldn't vanish entirely
+    return new Set(meaningful.length > 0 ? meaningful : words);
+}
+
+/**
+ * A headliner of one event that is the other's headliner or whole title.
+ */
+function sharedHeadliner(a: MatchableEvent, b: MatchableEvent): string | null {
+    const names = (event: MatchableEvent) => ((event.performers as Performer[] | null | undefined) ?? [])
+        .filter((p) => p.role === 'headliner')
+        .map((p) => normalizeTitle(p.name))
+        .filter(Boolean);
+
+    const aNames = names(a);
+    const bNames = names(b);
+    const aTitle = normalizeTitle(a.title);
+    const bTitle = normalizeTitle(b.title);
+
+    return aNames.find((name) => bNames.includes(name) || name === bTitle)
+        ?? bNames.find((name) => name === aTitle)
+        ?? null;
+}
+
+function round(score: number): number {
+    return Math.round(score * 100) / 100;
+}
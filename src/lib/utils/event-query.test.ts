@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseEventQuery,
+    encodeCursor,
+    decodeCursor,
+    EventQueryError,
+    DEFAULT_LIMIT,
+} from './event-query';
+
+const now = new Date('2024-01-10T20:00:00Z');
+const query = (qs: string) => parseEventQuery(new URLSearchParams(qs), now);
+
+describe('parseEventQuery', () => {
+    it('defaults to upcoming events sorted by date', () => {
+        const q = query('');
+        expect(q.from).toEqual(now);
+        expect(q.to).toBeNull();
+        expect(q.sort).toBe('date');
+        expect(q.order).toBe('asc');
+        expect(q.limit).toBe(DEFAULT_LIMIT);
+        expect(q.cursor).toBeNull();
+    });
+
+    it('accepts repeated and comma-separated lists', () => {
+        const q = query('venueId=rio-theatre,fox-cabaret&eventType=music&eventType=comedy');
+        expect(q.venueIds).toEqual(['rio-theatre', 'fox-cabaret']);
+        expect(q.eventTypes).toEqual(['music', 'comedy']);
+    });
+
+    it('parses date range in Vancouver time, with a bare "to" date covering the whole day', () => {
+        const q = query('from=2024-01-12&to=2024-01-12');
+        // Midnight PST = 08:00 UTC
+        expect(q.from?.toISOString()).toBe('2024-01-12T08:00:00.000Z');
+        expect(q.to?.toISOString()).toBe('2024-01-13T08:00:00.000Z');
+    });
+
+    it('ends a bare "to" date at the next midnight across daylight saving', () => {
+        // 23 hours on March 10 (PST to PDT), 25 on November 3 (PDT to PST)
+        expect(query('to=2024-03-10').to?.toISOString()).toBe('2024-03-11T07:00:00.000Z');
+        expect(query('to=2024-11-03').to?.toISOString()).toBe('2024-11-04T08:00:00.000Z');
+    });
+
+    it('parses price and free filters', () => {
+        const q = query('isFree=false&maxPrice=2500');
+        expect(q.isFree).toBe(false);
+        expect(q.maxPrice).toBe(2500);
+    });
+
+    it('rejects invalid params', () => {
+        expect(() => query('eventType=opera')).toThrow(EventQueryError);
+        expect(() => query('isFree=yes')).toThrow(EventQueryError);
+        expect(() => query('limit=0')).toThrow(EventQueryError);
+        expect(() => query('sort=title')).toThrow(EventQueryError);
+        expect(() => query('from=next tuesday-ish')).toThrow(EventQueryError);
+        expect(() => query('from=2024-02-01&to=2024-01-01')).toThrow(EventQueryError);
+        expect(() => query('cursor=garbage')).toThrow(EventQueryError);
+    });
+});
+
+describe('cursor encoding', () => {
+    it('round-trips date and price cursors', () => {
+        const dateCursor = { value: '2024-01-13T03:30:00.000Z', id: 'abc' };
+        const priceCursor = { value: 1500, id: 'def' };
+        expect(decodeCursor(encodeCursor(dateCursor))).toEqual(dateCursor);
+        expect(decodeCursor(encodeCursor(priceCursor))).toEqual(priceCursor);
+    });
+});
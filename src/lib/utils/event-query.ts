@@ -0,0 +1,186 @@
+import type { EventType } from '../../../db/config';
+import { EVENT_TYPES } from './classifier';
+import { parseVancouverDate, startOfNextVancouverDay } from './date-parser';
+
+/**
+ * Query options for the public events API.
+ * Parsed from URL search params by `parseEventQuery`.
+ */
+export interface EventQuery {
+    venueIds: string[];
+    eventTypes: EventType[];
+    from: Date | null;        // inclusive
+    to: Date | null;          // exclusive
+    isFree: boolean | null;
+    maxPrice: number | null;  // cents
+    sort: EventSort;
+    order: 'asc' | 'desc';
+    limit: number;
+    cursor: EventCursor | null;
+}
+
+export type EventSort = 'date' | 'price';
+
+/**
+ * Position of the last row on a page: the sort value plus the event ID as tie-breaker.
+ */
+export interface EventCursor {
+    value: string | number;
+    id: string;
+}
+
+export const DEFAULT_LIMIT = 50;
+export const MAX_LIMIT = 200;
+
+/**
+ * Thrown when the query string contains an invalid parameter.
+ * The API route turns this into a 400 response.
+ */
+export class EventQueryError extends Error {
+    constructor(
+        public readonly param: string,
+        message: string
+    ) {
+        super(message);
+        this.name = 'EventQueryError';
+    }
+}
+
+/**
+ * Parse and validate events API query params.
+ *
+ * Supported params:
+ * - venueId, eventType: repeatable or comma-separated
+ * - from, to: any format `parseVancouverDate` understands, in Vancouver time.
+ *   A bare date (YYYY-MM-DD) for `to` includes that whole day.
+ *   If neither is given, only upcoming events are returned.
+ * - isFree: 'true' | 'false'
+ * - maxPrice: ceiling on the lowest ticket price, in cents (events with unknown price are excluded)
+ * - sort: 'date' | 'price', order: 'asc' | 'desc'
+ * - limit: 1..MAX_LIMIT, cursor: opaque value from a previous response
+ */
+export function parseEventQuery(
+    params: URLSearchParams,
+    now: Date = new Date()
+): EventQuery {
+    const venueIds = getList(params, 'venueId');
+
+    const eventTypes = getList(params, 'eventType');
+    for (const type of eventTypes) {
+        if (!EVENT_TYPES.includes(type as EventType)) {
+            throw new EventQueryError('eventType', `Unknown eventType "${type}". Expected one of: ${EVENT_TYPES.join(', ')}`);
+        }
+    }
+
+    let from = parseDateParam(params, 'from', now);
+    let to = parseDateParam(params, 'to', now);
+    if (to && isBareDate(params.get('to'))) {
+        to = startOfNextVancouverDay(to);
+    }
+    if (!from && !to) {
+        from = now;
+    }
+    if (from && to && from >= to) {
+        throw new EventQueryError('to', '"to" must be after "from"');
+    }
+
+    const isFreeRaw = params.get('isFree');
+    let isFree: boolean | null = null;
+    if (isFreeRaw !== null) {
+        if (isFreeRaw !== 'true' && isFreeRaw !== 'false') {
+            throw new EventQueryError('isFree', '"isFree" must be "true" or "false"');
+        }
+        isFree = isFreeRaw === 'true';
+    }
+
+    const maxPrice = parseIntParam(params, 'maxPrice', 0, Number.MAX_SAFE_INTEGER);
+
+    const sort = params.get('sort') ?? 'date';
+    if (sort !== 'date' && sort !== 'price') {
+        throw new EventQueryError('sort', '"sort" must be "date" or "price"');
+    }
+
+    const order = params.get('order') ?? 'asc';
+    if (order !== 'asc' && order !== 'desc') {
+        throw new EventQueryError('order', '"order" must be "asc" or "desc"');
+    }
+
+    const limit = parseIntParam(params, 'limit', 1, MAX_LIMIT) ?? DEFAULT_LIMIT;
+
+    const cursorRaw = params.get('cursor');
+    const cursor = cursorRaw ? decodeCursor(cursorRaw) : null;
+
+    return {
+        venueIds,
+        eventTypes: eventTypes as EventType[],
+        from,
+        to,
+        isFree,
+        maxPrice,
+        sort,
+        order,
+        limit,
+        cursor,
+    };
+}
+
+/**
+ * Encode a cursor as an opaque, URL-safe string.
+ */
+export function encodeCursor(cursor: EventCursor): string {
+    return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by `encodeCursor`.
+ */
+export function decodeCursor(raw: string): EventCursor {
+    try {
+        const [value, id] = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+        if ((typeof value === 'string' || typeof value === 'number') && typeof id === 'string') {
+            return { value, id };
+        }
+    } catch {
+        // Fall through to error
+    }
+    throw new EventQueryError('cursor', 'Invalid cursor');
+}
+
+function getList(params: URLSearchParams, name: string): string[] {
+    return params
+        .getAll(name)
+        .flatMap((value) => value.split(','))
+        .map((value) => value.trim())
+        .filter(Boolean);
+}
+
+function parseDateParam(params: URLSearchParams, name: string, now: Date): Date | null {
+    const raw = params.get(name);
+    if (!raw) return null;
+
+    const date = parseVancouverDate(raw, now);
+    if (!date) {
+        throw new EventQueryError(name, `Could not parse "${name}" date: "${raw}"`);
+    }
+    return date;
+}
+
+function isBareDate(raw: string | null): boolean {
+    return !!raw && /^\d{4}-\d{2}-\d{2}$/.test(raw.trim());
+}
+
+function parseIntParam(
+    params: URLSearchParams,
+    name: string,
+    min: number,
+    max: number
+): number | null {
+    const raw = params.get(name);
+    if (raw === null) return null;
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+        throw new EventQueryError(name, `"${name}" must be an integer between ${min} and ${max}`);
+    }
+    return value;
+}
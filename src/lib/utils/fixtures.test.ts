@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Fixture, FixtureRecorder, fixtureKey, replayScrape } from './fixtures';
+import { EthicalScraper, parseHTML } from './scraper-core';
+import type { RawEvent, VenueScraper } from './scraper-core';
+
+const CALENDAR_HTML = `
+    <ul class="events">
+        <li><a href="/e/1">Band X</a><time>January 12, 2024 8:00 PM</time></li>
+        <li><a href="/e/2">Comic Y</a><time>January 13, 2024 9:00 PM</time></li>
+    </ul>
+`;
+
+const StaticVenue: VenueScraper = {
+    id: 'static-venue',
+    name: 'Static Venue',
+    url: 'https://static.example.com/calendar',
+    enabled: true,
+    fetchMode: 'static',
+
+    async scrape(_page, html): Promise<RawEvent[]> {
+        const $ = parseHTML(html!);
+        return $('li').toArray().map((li) => ({
+            title: $(li).find('a').text(),
+            dateRaw: $(li).find('time').text(),
+            url: $(li).find('a').attr('href'),
+        }));
+    },
+};
+
+describe('fixtures', () => {
+    let dir: string | null = null;
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        if (dir) await rm(dir, { recursive: true });
+        dir = null;
+    });
+
+    /**
+     * Scrape StaticVenue against a fake live site while recording it.
+     */
+    async function record(): Promise<Fixture> {
+        vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) =>
+            String(input) === StaticVenue.url
+                ? new Response(CALENDAR_HTML, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+                : new Response('Not Found', { status: 404 })
+        );
+
+        const recorder = new FixtureRecorder(StaticVenue);
+        const restore = recorder.wrapFetch();
+        const result = await new EthicalScraper({ delayMs: 0 }).runScraper(StaticVenue);
+        restore();
+
+        dir = await mkdtemp(join(tmpdir(), 'paper-bear-fixture-'));
+        await recorder.save(dir, result.events);
+        vi.restoreAllMocks();
+
+        return Fixture.load(dir);
+    }
+
+    it('records the pages a scrape loaded, plus its output', async () => {
+        const fixture = await record();
+
+        expect(fixture.manifest.entryUrl).toBe(StaticVenue.url);
+        expect(fixture.manifest.entries.map((e) => e.url)).toEqual([
+            'https://static.example.com/calendar',
+            'https://static.example.com/robots.txt',
+        ]);
+        expect(fixture.expected.map((e) => e.title)).toEqual(['Band X', 'Comic Y']);
+
+        const manifest = JSON.parse(await readFile(join(dir!, 'manifest.json'), 'utf8'));
+        expect(manifest.entries[0].file).toMatch(/^pages\/[0-9a-f]{12}\.html$/);
+    });
+
+    it('replays a static venue offline', async () => {
+        const fixture = await record();
+        const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+        expect(await replayScrape(StaticVenue, fixture)).toEqual(fixture.expected);
+        expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('replays as of the recording time', async () => {
+        const fixture = await record();
+        const ClockVenue: VenueScraper = {
+            ...StaticVenue,
+            async scrape(_page, _html, context) {
+                return [{ title: 'Today', dateRaw: context!.now!.toISOString() }];
+            },
+        };
+
+        const [event] = await replayScrape(ClockVenue, fixture);
+        expect(event.dateRaw).toBe(fixture.manifest.recordedAt);
+    });
+
+    it('serves recorded responses through fetch', async () => {
+        const fixture = await record();
+
+        expect(await (await fixture.fetch(`${StaticVenue.url}#top`)).text()).toBe(CALENDAR_HTML);
+        expect((await fixture.fetch('https://static.example.com/robots.txt')).status).toBe(404);
+        expect((await fixture.fetch('https://static.example.com/elsewhere')).status).toBe(404);
+    });
+
+    it('matches URLs without their fragment', () => {
+        expect(fixtureKey('https://a.example.com/x?y=1#z')).toBe('https://a.example.com/x?y=1');
+    });
+});
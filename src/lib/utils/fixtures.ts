@@ -0,0 +1,247 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import type { Browser, BrowserContext, Route } from 'playwright';
+import { getFetchMode, launchBrowser } from './scraper-core';
+import type { RawEvent, ScrapeContext, VenueScraper } from './scraper-core';
+
+/**
+ * Recorded venue pages for offline scraper tests.
+ *
+ * A fixture is a directory holding:
+ * - manifest.json: which URL maps to which captured file
+ * - pages/: the captured response bodies
+ * - expected.json: the RawEvent[] the scraper produced when recording
+ *
+ * Replaying serves the captures to Playwright (request interception), or to
+ * static and API scrapers through their ScrapeContext, so a venue scraper can
+ * run end to end without the network and its output compared to expected.json.
+ */
+
+/**
+ * Where venue fixtures live, one directory per venue id.
+ */
+export const FIXTURES_ROOT = join(process.cwd(), 'src', 'lib', 'venues', '__fixtures__');
+
+/**
+ * Resource types worth capturing. Images, fonts and media don't affect
+ * what scrapers see, and are answered with 404 on replay.
+ */
+const RECORDED_RESOURCE_TYPES = new Set(['document', 'script', 'xhr', 'fetch', 'stylesheet']);
+
+export interface FixtureEntry {
+    url: string;
+    status: number;
+    contentType: string;
+    file: string;            // relative to the fixture directory
+}
+
+export interface FixtureManifest {
+    venueId: string;
+    entryUrl: string;        // the venue's calendar URL
+    recordedAt: string;      // ISO timestamp
+    entries: FixtureEntry[];
+}
+
+export function fixtureDir(venueId: string): string {
+    return join(FIXTURES_ROOT, venueId);
+}
+
+/**
+ * URLs are matched without their fragment.
+ */
+export function fixtureKey(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+}
+
+/**
+ * Captures responses while a venue is scraped for real.
+ */
+export class FixtureRecorder {
+    private responses = new Map<string, { status: number; contentType: string; body: Buffer }>();
+    private pending: Promise<void>[] = [];
+
+    constructor(private readonly venue: VenueScraper) {}
+
+    /**
+     * Record responses from every page in a browser context.
+     */
+    attach(context: BrowserContext): void {
+        context.on('response', (response) => {
+            if (!RECORDED_RESOURCE_TYPES.has(response.request().resourceType())) return;
+
+            this.pending.push(response.body().then(
+                (body) => this.add(
+                    response.url(),
+                    response.status(),
+                    response.headers()['content-type'] ?? 'application/octet-stream',
+                    body
+                ),
+                () => {} // Redirects and aborted requests have no body
+            ));
+        });
+    }
+
+    /**
+     * Record responses made through the global `fetch` (static scrapers,
+     * robots.txt). Returns a function that restores the original.
+     */
+    wrapFetch(): () => void {
+        const original = globalThis.fetch;
+
+        globalThis.fetch = async (input, init) => {
+            const response = await original(input, init);
+            const url = input instanceof Request ? input.url : String(input);
+            const body = Buffer.from(await response.clone().arrayBuffer());
+            this.add(url, response.status, response.headers.get('content-type') ?? 'text/html', body);
+            return response;
+        };
+
+        return () => {
+            globalThis.fetch = original;
+        };
+    }
+
+    add(url: string, status: number, contentType: string, body: Buffer): void {
+        this.responses.set(fixtureKey(url), { status, contentType, body });
+    }
+
+    /**
+     * Write the captures and the scraper's output, replacing any previous fixture.
+     */
+    async save(dir: string, events: RawEvent[]): Promise<FixtureManifest> {
+        await Promise.all(this.pending);
+        await rm(dir, { recursive: true, force: true });
+        await mkdir(join(dir, 'pages'), { recursive: true });
+
+        const entries: FixtureEntry[] = [];
+        for (const [url, { status, contentType, body }] of this.responses) {
+            const file = join('pages', `${createHash('md5').update(url).digest('hex').slice(0, 12)}${extensionFor(contentType)}`);
+            await writeFile(join(dir, file), body);
+            entries.push({ url, status, contentType, file });
+        }
+
+        const manifest: FixtureManifest = {
+            venueId: this.venue.id,
+            entryUrl: this.venue.url,
+            recordedAt: new Date().toISOString(),
+            entries: entries.sort((a, b) => a.url.localeCompare(b.url)),
+        };
+
+        await writeFile(join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n');
+        await writeFile(join(dir, 'expected.json'), JSON.stringify(events, null, 2) + '\n');
+
+        return manifest;
+    }
+}
+
+/**
+ * A recorded fixture, loaded for replay.
+ */
+export class Fixture {
+    private constructor(
+        readonly manifest: FixtureManifest,
+        readonly expected: RawEvent[],
+        private readonly bodies: Map<string, { entry: FixtureEntry; body: Buffer }>
+    ) {}
+
+    static async load(dir: string): Promise<Fixture> {
+        const manifest: FixtureManifest = JSON.parse(await readFile(join(dir, 'manifest.json'), 'utf8'));
+        const expected: RawEvent[] = JSON.parse(await readFile(join(dir, 'expected.json'), 'utf8'));
+
+        const bodies = new Map<string, { entry: FixtureEntry; body: Buffer }>();
+        for (const entry of manifest.entries) {
+            bodies.set(fixtureKey(entry.url), { entry, body: await readFile(join(dir, entry.file)) });
+        }
+
+        return new Fixture(manifest, expected, bodies);
+    }
+
+    /**
+     * The captured response for a URL, if any.
+     */
+    get(url: string): { status: number; contentType: string; body: Buffer } | undefined {
+        const hit = this.bodies.get(fixtureKey(url));
+        return hit && { status: hit.entry.status, contentType: hit.entry.contentType, body: hit.body };
+    }
+
+    /**
+     * Captured page text; throws if the URL wasn't recorded.
+     */
+    text(url: string): string {
+        const hit = this.get(url);
+        if (!hit) throw new Error(`No fixture for ${url}`);
+        return hit.body.toString('utf8');
+    }
+
+    /**
+     * A `fetch` that answers from the fixture (404 for anything not recorded).
+     */
+    readonly fetch = async (input: string | URL | Request): Promise<Response> => {
+        const hit = this.get(input instanceof Request ? input.url : String(input));
+        if (!hit) return new Response('Not recorded', { status: 404 });
+        return new Response(new Uint8Array(hit.body), {
+            status: hit.status,
+            headers: { 'Content-Type': hit.contentType },
+        });
+    };
+
+    /**
+     * Serve every request in a browser context from the fixture.
+     */
+    async route(context: BrowserContext): Promise<void> {
+        await context.route('**/*', (route: Route) => {
+            const hit = this.get(route.request().url());
+            if (!hit) {
+                return route.fulfill({ status: 404, body: '' });
+            }
+            return route.fulfill({ status: hit.status, contentType: hit.contentType, body: hit.body });
+        });
+    }
+}
+
+/**
+ * Run a venue scraper against a fixture instead of the live site, as of
+ * when it was recorded. Dynamic venues need a browser; pass one in to
+ * share it between runs.
+ */
+export async function replayScrape(venue: VenueScraper, fixture: Fixture, browser?: Browser): Promise<RawEvent[]> {
+    const scrapeContext: ScrapeContext = {
+        fetchHtml: async (url) => fixture.text(url),
+        fetchJson: async <T>(url: string) => JSON.parse(fixture.text(url)) as T,
+        // Calendars are read as of the recording, not today
+        now: new Date(fixture.manifest.recordedAt),
+    };
+
+    const mode = getFetchMode(venue);
+    if (mode === 'api') {
+        return venue.scrape(null, null, scrapeContext);
+    }
+    if (mode === 'static') {
+        return venue.scrape(null, fixture.text(venue.url), scrapeContext);
+    }
+
+    const ownBrowser = browser ?? await launchBrowser();
+    const context = await ownBrowser.newContext();
+
+    try {
+        await fixture.route(context);
+        const page = await context.newPage();
+        await page.goto(venue.url, { waitUntil: 'networkidle' });
+        return await venue.scrape(page, await page.content(), scrapeContext);
+    } finally {
+        await context.close();
+        if (!browser) await ownBrowser.close();
+    }
+}
+
+function extensionFor(contentType: string): string {
+    if (contentType.includes('html')) return '.html';
+    if (contentType.includes('json')) return '.json';
+    if (contentType.includes('javascript')) return '.js';
+    if (contentType.includes('css')) return '.css';
+    if (contentType.includes('calendar')) return '.ics';
+    return '.txt';
+}
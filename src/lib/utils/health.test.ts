@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeHealth, isDrop, median } from './health';
+import type { RunLog } from './health';
+
+const start = new Date('2024-01-01T12:00:00Z').getTime();
+
+/**
+ * Build logs newest first from a list of runs given oldest first.
+ */
+function logs(runs: [string, number, number?][]): RunLog[] {
+    return runs
+        .map(([status, itemsFound, durationMs], i) => ({
+            timestamp: new Date(start + i * 60 * 60 * 1000),
+            status,
+            itemsFound,
+            durationMs: durationMs ?? null,
+        }))
+        .reverse();
+}
+
+describe('summarizeHealth', () => {
+    it('reports unknown for venues that never ran', () => {
+        const health = summarizeHealth([]);
+        expect(health.status).toBe('unknown');
+        expect(health.successRate).toBeNull();
+        expect(health.lastSuccessAt).toBeNull();
+    });
+
+    it('summarizes a healthy venue', () => {
+        const health = summarizeHealth(logs([
+            ['success', 40, 1000],
+            ['error', 0, 5000],
+            ['success', 42, 2000],
+            ['skipped', 0],
+            ['success', 41, 3000],
+        ]));
+
+        expect(health.status).toBe('ok');
+        expect(health.runs).toBe(4);
+        expect(health.successRate).toBe(0.75);
+        expect(health.medianDurationMs).toBe(2500);
+        expect(health.lastSuccessAt).toEqual(new Date(start + 4 * 60 * 60 * 1000));
+        expect(health.trend.map((p) => p.itemsFound)).toEqual([40, 42, 41]);
+    });
+
+    it('escalates consecutive failures from warning to failing', () => {
+        expect(summarizeHealth(logs([['success', 40], ['error', 0]])).status).toBe('warning');
+        expect(summarizeHealth(logs([
+            ['success', 40], ['error', 0], ['error', 0], ['error', 0],
+        ])).status).toBe('failing');
+    });
+
+    it('flags a sudden drop in items found', () => {
+        const health = summarizeHealth(logs([
+            ['success', 40], ['success', 38], ['success', 41], ['success', 2],
+        ]));
+        expect(health.dropped).toBe(true);
+        expect(health.status).toBe('warning');
+    });
+});
+
+describe('isDrop', () => {
+    it('ignores normal variation and small venues', () => {
+        expect(isDrop([40, 38, 41, 30])).toBe(false);
+        expect(isDrop([3, 4, 3, 0])).toBe(false);
+        expect(isDrop([40])).toBe(false);
+    });
+
+    it('compares against recent runs only', () => {
+        expect(isDrop([100, 100, 100, 100, 100, 10, 10, 10, 10, 10, 9])).toBe(false);
+        expect(isDrop([10, 10, 10, 10, 10, 0])).toBe(true);
+    });
+});
+
+describe('median', () => {
+    it('handles odd, even and empty lists', () => {
+        expect(median([3, 1, 2])).toBe(2);
+        expect(median([4, 1, 3, 2])).toBe(2.5);
+        expect(median([])).toBeNull();
+    });
+});
@@ -0,0 +1,99 @@
+import { countConsecutiveFailures } from './schedule';
+
+/**
+ * One ScrapeLog row, as far as health checks care.
+ */
+export interface RunLog {
+    timestamp: Date;
+    status: string;          // 'success' | 'error' | 'skipped'
+    itemsFound: number;
+    durationMs: number | null;
+}
+
+/**
+ * A venue's scraper health, derived from its recent ScrapeLog rows.
+ */
+export interface VenueHealth {
+    lastRunAt: Date | null;
+    lastSuccessAt: Date | null;
+    consecutiveFailures: number;
+    runs: number;                    // success + error (skipped runs don't count)
+    successRate: number | null;      // 0-1, null if no runs
+    medianDurationMs: number | null;
+    trend: { timestamp: Date; itemsFound: number }[];  // successful runs, oldest first
+    dropped: boolean;                // latest count collapsed vs. its baseline
+    status: HealthStatus;
+}
+
+export type HealthStatus = 'ok' | 'warning' | 'failing' | 'unknown';
+
+/**
+ * Drop detection: the latest successful run found at most DROP_RATIO of the
+ * median of the DROP_BASELINE_RUNS successful runs before it. Venues whose
+ * baseline is tiny are ignored, since a quiet month is not a broken selector.
+ */
+export const DROP_RATIO = 0.2;
+export const DROP_BASELINE_RUNS = 5;
+export const DROP_MIN_BASELINE = 5;
+
+/**
+ * Three failures in a row is "failing"; fewer is a warning.
+ */
+export const FAILING_THRESHOLD = 3;
+
+/**
+ * Summarize a venue's health. Logs must be newest first.
+ */
+export function summarizeHealth(logs: RunLog[]): VenueHealth {
+    const attempts = logs.filter((log) => log.status !== 'skipped');
+    const successes = attempts.filter((log) => log.status === 'success');
+    const consecutiveFailures = countConsecutiveFailures(logs);
+
+    const trend = successes
+        .map((log) => ({ timestamp: log.timestamp, itemsFound: log.itemsFound }))
+        .reverse();
+    const dropped = isDrop(trend.map((point) => point.itemsFound));
+
+    let status: HealthStatus = 'ok';
+    if (attempts.length === 0) status = 'unknown';
+    else if (consecutiveFailures >= FAILING_THRESHOLD) status = 'failing';
+    else if (consecutiveFailures > 0 || dropped) status = 'warning';
+
+    return {
+        lastRunAt: logs[0]?.timestamp ?? null,
+        lastSuccessAt: successes[0]?.timestamp ?? null,
+        consecutiveFailures,
+        runs: attempts.length,
+        successRate: attempts.length > 0 ? successes.length / attempts.length : null,
+        medianDurationMs: median(
+            attempts.map((log) => log.durationMs).filter((ms): ms is number => ms !== null)
+        ),
+        trend,
+        dropped,
+        status,
+    };
+}
+
+/**
+ * Check whether the last count in a series (oldest first) has collapsed
+ * relative to the runs before it.
+ */
+export function isDrop(counts: number[]): boolean {
+    if (counts.length < 2) return false;
+
+    const latest = counts[counts.length - 1];
+    const baseline = median(counts.slice(-1 - DROP_BASELINE_RUNS, -1))!;
+
+    return baseline >= DROP_MIN_BASELINE && latest <= baseline * DROP_RATIO;
+}
+
+/**
+ * Median of a list of numbers, or null if empty.
+ */
+export function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
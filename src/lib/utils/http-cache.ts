@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+
+/**
+ * Build a cacheable response that honours conditional requests.
+ *
+ * - ETag is a hash of the body, so it changes whenever the content does.
+ * - Last-Modified is the newest change among the items in the body.
+ * - If-None-Match takes precedence over If-Modified-Since (RFC 9110).
+ */
+export function cachedResponse(
+    request: Request,
+    body: string,
+    options: {
+        contentType: string;
+        lastModified: Date | null;
+        maxAgeSeconds?: number;
+    }
+): Response {
+    const etag = `"${createHash('md5').update(body).digest('hex')}"`;
+    const headers: Record<string, string> = {
+        'Content-Type': options.contentType,
+        'Cache-Control': `public, max-age=${options.maxAgeSeconds ?? 900}`,
+        ETag: etag,
+    };
+
+    // HTTP dates have one-second precision
+    const lastModified = options.lastModified
+        ? new Date(Math.floor(options.lastModified.getTime() / 1000) * 1000)
+        : null;
+    if (lastModified) {
+        headers['Last-Modified'] = lastModified.toUTCString();
+    }
+
+    if (isNotModified(request, etag, lastModified)) {
+        return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(body, { status: 200, headers });
+}
+
+function isNotModified(request: Request, etag: string, lastModified: Date | null): boolean {
+    const ifNoneMatch = request.headers.get('If-None-Match');
+    if (ifNoneMatch) {
+        const tags = ifNoneMatch.split(',').map((t) => t.trim().replace(/^W\//, ''));
+        return tags.includes(etag) || tags.includes('*');
+    }
+
+    const ifModifiedSince = request.headers.get('If-Modified-Since');
+    if (ifModifiedSince && lastModified) {
+        const since = new Date(ifModifiedSince);
+        return !Number.isNaN(since.getTime()) && lastModified <= since;
+    }
+
+    return false;
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { expandEvents, parseIcs, parseRRule } from './ics-parser';
+
+const calendar = (...events: string[]) => [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Example//EN',
+    ...events,
+    'END:VCALENDAR',
+].join('\r\n');
+
+const vevent = (...lines: string[]) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'].join('\r\n');
+
+const range = (from: string, until: string) => ({ from: new Date(from), until: new Date(until) });
+
+describe('parseIcs', () => {
+    it('reads properties, unfolding lines and unescaping text', () => {
+        const [event] = parseIcs(calendar(vevent(
+            'UID:abc@example.com',
+            'SUMMARY:Jazz\\, Blues \\; More',
+            'DESCRIPTION:Line one\\nLine',
+            '  two',
+            'LOCATION:The Hall',
+            'URL:https://example.com/jazz',
+            'STATUS:CANCELLED',
+            'DTSTART;TZID=America/Vancouver:20240112T193000',
+            'BEGIN:VALARM',
+            'DESCRIPTION:Reminder',
+            'END:VALARM',
+        )));
+
+        expect(event).toMatchObject({
+            uid: 'abc@example.com',
+            summary: 'Jazz, Blues ; More',
+            description: 'Line one\nLine two',
+            location: 'The Hall',
+            url: 'https://example.com/jazz',
+            status: 'CANCELLED',
+            start: new Date('2024-01-13T03:30:00Z'),
+            allDay: false,
+        });
+    });
+
+    it('handles UTC, floating, prefixed and unknown TZIDs, and all-day dates', () => {
+        const events = parseIcs(calendar(
+            vevent('SUMMARY:UTC', 'DTSTART:20240712T020000Z'),
+            vevent('SUMMARY:Floating', 'DTSTART:20240711T190000'),
+            vevent('SUMMARY:Toronto', 'DTSTART;TZID=/mozilla.org/20050126_1/America/Toronto:20240711T220000'),
+            vevent('SUMMARY:Windows', 'DTSTART;TZID="Pacific Standard Time":20240711T190000'),
+            vevent('SUMMARY:All day', 'DTSTART;VALUE=DATE:20240711'),
+            vevent('SUMMARY:No start'),
+        ));
+
+        expect(events.map((e) => [e.summary, e.start.toISOString(), e.allDay])).toEqual([
+            ['UTC', '2024-07-12T02:00:00.000Z', false],
+            ['Floating', '2024-07-12T02:00:00.000Z', false],
+            ['Toronto', '2024-07-12T02:00:00.000Z', false],
+            ['Windows', '2024-07-12T02:00:00.000Z', false],
+            ['All day', '2024-07-11T07:00:00.000Z', true],
+        ]);
+    });
+});
+
+describe('parseRRule', () => {
+    it('reads the supported parts', () => {
+        expect(parseRRule('FREQ=MONTHLY;INTERVAL=2;BYDAY=2FR,-1SU;COUNT=5')).toEqual({
+            freq: 'MONTHLY',
+            interval: 2,
+            count: 5,
+            until: undefined,
+            byDay: [{ weekday: 5, ordinal: 2 }, { weekday: 0, ordinal: -1 }],
+            byMonthDay: [],
+            byMonth: [],
+        });
+        expect(parseRRule('FREQ=WEEKLY;UNTIL=20240301T075959Z')?.until).toEqual(new Date('2024-03-01T07:59:59Z'));
+        expect(parseRRule('FREQ=HOURLY')).toBeUndefined();
+    });
+});
+
+describe('expandEvents', () => {
+    it('expands weekly events at the same wall-clock time across DST', () => {
+        const events = parseIcs(calendar(vevent(
+            'UID:trivia',
+            'SUMMARY:Trivia Night',
+            'DTSTART;TZID=America/Vancouver:20240229T200000',
+            'RRULE:FREQ=WEEKLY',
+        )));
+
+        const starts = expandEvents(events, range('2024-03-01T00:00:00Z', '2024-03-22T00:00:00Z'))
+            .map((o) => o.start.toISOString());
+
+        // DST starts March 10: 8pm is 04:00Z before, 03:00Z after
+        expect(starts).toEqual([
+            '2024-03-01T04:00:00.000Z',
+            '2024-03-08T04:00:00.000Z',
+            '2024-03-15T03:00:00.000Z',
+        ]);
+    });
+
+    it('keeps each occurrence as long as the first', () => {
+        const events = parseIcs(calendar(vevent(
+            'UID:trivia',
+            'SUMMARY:Trivia Night',
+            'DTSTART;TZID=America/Vancouver:20240301T200000',
+            'DTEND;TZID=America/Vancouver:20240301T223000',
+            'RRULE:FREQ=WEEKLY;COUNT=2',
+        )));
+
+        expect(expandEvents(events, range('2024-03-01T00:00:00Z', '2024-03-22T00:00:00Z')).map((o) => o.end?.toISOString()))
+            .toEqual(['2024-03-02T06:30:00.000Z', '2024-03-09T06:30:00.000Z']);
+    });
+
+    it('skips EXDATEs and replaces overridden occurrences', () => {
+        const events = parseIcs(calendar(
+            vevent(
+                'UID:open-mic',
+                'SUMMARY:Open Mic',
+                'DTSTART;TZID=America/Vancouver:20240101T190000',
+                'RRULE:FREQ=DAILY;INTERVAL=7;COUNT=4',
+                'EXDATE;TZID=America/Vancouver:20240108T190000',
+            ),
+            vevent(
+                'UID:open-mic',
+                'SUMMARY:Open Mic (Late)',
+                'RECURRENCE-ID;TZID=America/Vancouver:20240115T190000',
+                'DTSTART;TZID=America/Vancouver:20240115T210000',
+            ),
+        ));
+
+        const occurrences = expandEvents(events, range('2024-01-01T00:00:00Z', '2024-12-31T00:00:00Z'));
+
+        expect(occurrences.map((o) => [o.summary, o.start.toISOString()])).toEqual([
+            ['Open Mic', '2024-01-02T03:00:00.000Z'],
+            ['Open Mic (Late)', '2024-01-16T05:00:00.000Z'],
+            ['Open Mic', '2024-01-23T03:00:00.000Z'],
+        ]);
+    });
+
+    it('expands monthly BYDAY ordinals and BYMONTHDAY, stopping at UNTIL', () => {
+        const events = parseIcs(calendar(
+            vevent(
+                'SUMMARY:Second Friday',
+                'DTSTART;TZID=America/Vancouver:20240112T200000',
+                'RRULE:FREQ=MONTHLY;BYDAY=2FR;UNTIL=20240401T000000Z',
+            ),
+            vevent(
+                'SUMMARY:Last Day',
+                'DTSTART;VALUE=DATE:20240131',
+                'RRULE:FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3',
+            ),
+        ));
+
+        const occurrences = expandEvents(events, range('2024-01-01T00:00:00Z', '2024-12-31T00:00:00Z'));
+
+        expect(occurrences.filter((o) => o.summary === 'Second Friday').map((o) => o.start.toISOString())).toEqual([
+            '2024-01-13T04:00:00.000Z',
+            '2024-02-10T04:00:00.000Z',
+            '2024-03-09T04:00:00.000Z',
+        ]);
+        expect(occurrences.filter((o) => o.summary === 'Last Day').map((o) => o.start.toISOString())).toEqual([
+            '2024-01-31T08:00:00.000Z',
+            '2024-02-29T08:00:00.000Z',
+            '2024-03-31T07:00:00.000Z',
+        ]);
+    });
+
+    it('stops at the horizon and drops past one-off events', () => {
+        const events = parseIcs(calendar(
+            vevent('SUMMARY:Daily', 'DTSTART:20240101T030000Z', 'RRULE:FREQ=DAILY'),
+            vevent('SUMMARY:Past', 'DTSTART:20231201T030000Z'),
+            vevent('SUMMARY:Far Future', 'DTSTART:20250101T030000Z'),
+        ));
+
+        const occurrences = expandEvents(events, range('2024-01-10T00:00:00Z', '2024-01-13T00:00:00Z'));
+
+        expect(occurrences.map((o) => o.summary)).toEqual(['Daily', 'Daily', 'Daily', 'Far Future']);
+    });
+});
@@ -0,0 +1,489 @@
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+const VANCOUVER_TZ = 'America/Vancouver';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stop expanding a recurrence after this many days from its DTSTART,
+ * whatever its UNTIL/COUNT say.
+ */
+const MAX_EXPANSION_DAYS = 366 * 20;
+
+const WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+/**
+ * Wall-clock date and time, before a time zone is applied.
+ */
+export interface LocalDateTime {
+    year: number;
+    month: number;      // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+/**
+ * A DTSTART / EXDATE / RECURRENCE-ID value.
+ */
+export interface IcsDateValue {
+    local: LocalDateTime;
+    timeZone: string;   // 'UTC', an IANA zone, or Vancouver for floating times
+    allDay: boolean;
+}
+
+/**
+ * The RRULE subset venues actually publish: FREQ, INTERVAL, COUNT, UNTIL,
+ * BYDAY (with ordinals for monthly/yearly rules), BYMONTHDAY and BYMONTH.
+ */
+export interface RecurrenceRule {
+    freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+    interval: number;
+    count?: number;
+    until?: Date;
+    byDay: { weekday: number; ordinal?: number }[];   // weekday: 0-6, Sunday = 0
+    byMonthDay: number[];                             // negative counts from month end
+    byMonth: number[];                                // 1-12
+}
+
+/**
+ * One VEVENT from a calendar feed.
+ */
+export interface VEvent {
+    uid: string;
+    summary: string;
+    description?: string;
+    url?: string;
+    location?: string;
+    status?: string;            // 'CONFIRMED', 'TENTATIVE', 'CANCELLED'
+    start: Date;
+    end?: Date;                 // DTEND
+    allDay: boolean;
+    rrule?: RecurrenceRule;
+    exdates: Date[];
+    recurrenceId?: Date;        // set on overrides of one occurrence
+    dtstart: IcsDateValue;      // wall-clock DTSTART, for expanding across DST
+}
+
+/**
+ * A single occurrence of an event, recurring or not.
+ */
+export interface IcsOccurrence {
+    uid: string;
+    summary: string;
+    description?: string;
+    url?: string;
+    location?: string;
+    status?: string;
+    start: Date;
+    end?: Date;                 // same length as the event's first occurrence
+    allDay: boolean;
+    recurrenceId?: Date;        // which occurrence of a recurring event this is
+}
+
+/**
+ * Parse the VEVENTs in an iCalendar (RFC 5545) document.
+ * Events without a SUMMARY or a valid DTSTART are skipped.
+ */
+export function parseIcs(text: string): VEvent[] {
+    const events: VEvent[] = [];
+    let current: Map<string, ContentLine[]> | null = null;
+    let nested = 0;     // depth of components inside the VEVENT (VALARM)
+
+    for (const line of unfold(text)) {
+        const parsed = parseContentLine(line);
+        if (!parsed) continue;
+
+        const component = parsed.value.trim().toUpperCase();
+
+        if (parsed.name === 'BEGIN' && component === 'VEVENT') {
+            current = new Map();
+            nested = 0;
+        } else if (parsed.name === 'END' && component === 'VEVENT') {
+            const event = current && toVEvent(current);
+            if (event) events.push(event);
+            current = null;
+        } else if (current && parsed.name === 'BEGIN') {
+            nested++;
+        } else if (current && parsed.name === 'END') {
+            nested--;
+        } else if (current && nested === 0) {
+            const lines = current.get(parsed.name) ?? [];
+            lines.push(parsed);
+            current.set(parsed.name, lines);
+        }
+    }
+
+    return events;
+}
+
+/**
+ * Every occurrence that starts in [from, until]. Recurring events are
+ * expanded (minus EXDATEs and occurrences replaced by a RECURRENCE-ID
+ * override); one-off events only need to start at or after `from`, since
+ * venues announce shows far ahead.
+ */
+export function expandEvents(events: VEvent[], range: { from: Date; until: Date }): IcsOccurrence[] {
+    const overridden = new Map<string, Set<number>>();
+    for (const event of events) {
+        if (event.recurrenceId) {
+            const times = overridden.get(event.uid) ?? new Set<number>();
+            times.add(event.recurrenceId.getTime());
+            overridden.set(event.uid, times);
+        }
+    }
+
+    const occurrences: IcsOccurrence[] = [];
+
+    for (const event of events) {
+        if (!event.rrule || event.recurrenceId) {
+            if (event.start >= range.from) {
+                occurrences.push(toOccurrence(event, event.start, event.recurrenceId));
+            }
+            continue;
+        }
+
+        const skip = new Set(event.exdates.map((date) => date.getTime()));
+        for (const time of overridden.get(event.uid) ?? []) skip.add(time);
+
+        for (const start of expandRule(event.dtstart, event.rrule, range.until)) {
+            if (start >= range.from && !skip.has(start.getTime())) {
+                occurrences.push(toOccurrence(event, start, start));
+            }
+        }
+    }
+
+    return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Occurrence start times of a rule from `start` (itself an occurrence, or
+ * just the point to count from), keeping its wall-clock time in `timeZone`.
+ * For recurrences that don't come from a feed, e.g. "Every Tuesday 9pm".
+ */
+export function expandRecurrence(
+    start: Date,
+    rule: RecurrenceRule,
+    range: { from: Date; until: Date },
+    timeZone: string = VANCOUVER_TZ
+): Date[] {
+    const [year, month, day, hour, minute, second] = formatInTimeZone(start, timeZone, 'yyyy-M-d-H-m-s').split('-').map(Number);
+    const dtstart: IcsDateValue = { local: { year, month, day, hour, minute, second }, timeZone, allDay: false };
+
+    return expandRule(dtstart, rule, range.until).filter((date) => date >= range.from);
+}
+
+/**
+ * Parse an RRULE value ("FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10").
+ * Returns undefined for frequencies finer than daily.
+ */
+export function parseRRule(value: string, timeZone: string = VANCOUVER_TZ): RecurrenceRule | undefined {
+    const parts = new Map(value.split(';').map((part) => {
+        const [key, val = ''] = part.split('=');
+        return [key.trim().toUpperCase(), val.trim().toUpperCase()] as const;
+    }));
+
+    const freq = parts.get('FREQ');
+    if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+        return undefined;
+    }
+
+    const list = (key: string) => (parts.get(key) ?? '').split(',').filter(Boolean);
+    const until = parts.get('UNTIL');
+
+    return {
+        freq,
+        interval: Math.max(1, parseInt(parts.get('INTERVAL') ?? '1', 10) || 1),
+        count: parts.has('COUNT') ? parseInt(parts.get('COUNT')!, 10) : undefined,
+        until: until ? toInstant(parseDateValue(until, timeZone)) : undefined,
+        byDay: list('BYDAY').flatMap((spec) => {
+            const match = spec.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+            if (!match) return [];
+            return [{ weekday: WEEKDAYS[match[2]], ordinal: match[1] ? parseInt(match[1], 10) : undefined }];
+        }),
+        byMonthDay: list('BYMONTHDAY').map((day) => parseInt(day, 10)).filter((day) => day !== 0 && Number.isFinite(day)),
+        byMonth: list('BYMONTH').map((month) => parseInt(month, 10)).filter((month) => month >= 1 && month <= 12),
+    };
+}
+
+interface ContentLine {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+/**
+ * Join folded lines (a continuation starts with a space or tab).
+ */
+function unfold(text: string): string[] {
+    return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+}
+
+/**
+ * "DTSTART;TZID=America/Vancouver:20240112T193000"
+ *   -> { name: 'DTSTART', params: { TZID: 'America/Vancouver' }, value: '20240112T193000' }
+ */
+function parseContentLine(line: string): ContentLine | null {
+    // The first colon outside a quoted parameter value ends the name and params
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        if (line[i] === ':' && !inQuotes) {
+            colon = i;
+            break;
+        }
+    }
+    if (colon <= 0) return null;
+
+    const [name, ...rawParams] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+        const [key, ...rest] = param.split('=');
+        params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    }
+
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function toVEvent(props: Map<string, ContentLine[]>): VEvent | null {
+    const first = (name: string) => props.get(name)?.[0];
+    const text = (name: string) => {
+        const value = first(name)?.value;
+        return value ? unescapeText(value).trim() || undefined : undefined;
+    };
+
+    const summary = text('SUMMARY');
+    const dtstartLine = first('DTSTART');
+    if (!summary || !dtstartLine) return null;
+
+    let dtstart: IcsDateValue;
+    try {
+        dtstart = parseDateValue(dtstartLine.value, resolveTimeZone(dtstartLine.params.TZID), dtstartLine.params.VALUE);
+    } catch {
+        return null;
+    }
+
+    const recurrenceLine = first('RECURRENCE-ID');
+    const rruleLine = first('RRULE');
+    const dtendLine = first('DTEND');
+    const end = dtendLine ? dateList(dtendLine)[0] : undefined;
+
+    return {
+        uid: text('UID') ?? `${summary}|${dtstartLine.value}`,
+        summary,
+        description: text('DESCRIPTION'),
+        url: first('URL')?.value.trim() || undefined,
+        location: text('LOCATION'),
+        status: first('STATUS')?.value.trim().toUpperCase() || undefined,
+        start: toInstant(dtstart),
+        end: end && end > toInstant(dtstart) ? end : undefined,
+        allDay: dtstart.allDay,
+        rrule: rruleLine ? parseRRule(rruleLine.value, dtstart.timeZone) : undefined,
+        exdates: (props.get('EXDATE') ?? []).flatMap((line) => dateList(line)),
+        recurrenceId: recurrenceLine ? dateList(recurrenceLine)[0] : undefined,
+        dtstart,
+    };
+}
+
+/**
+ * EXDATE and RECURRENCE-ID values, which may hold comma-separated dates.
+ */
+function dateList(line: ContentLine): Date[] {
+    const timeZone = resolveTimeZone(line.params.TZID);
+
+    return line.value.split(',').flatMap((value) => {
+        try {
+            return [toInstant(parseDateValue(value.trim(), timeZone, line.params.VALUE))];
+        } catch {
+            return [];
+        }
+    });
+}
+
+/**
+ * "20240112T193000Z" (UTC), "20240112T193000" (in `timeZone`) or
+ * "20240112" (all day). Throws on anything else.
+ */
+function parseDateValue(value: string, timeZone: string, valueType?: string): IcsDateValue {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) {
+        throw new Error(`Invalid iCalendar date "${value}"`);
+    }
+
+    const [, year, month, day, hour, minute, second, utc] = match;
+    const allDay = hour === undefined || valueType?.toUpperCase() === 'DATE';
+
+    return {
+        local: {
+            year: +year,
+            month: +month,
+            day: +day,
+            hour: allDay ? 0 : +hour,
+            minute: allDay ? 0 : +minute,
+            second: allDay ? 0 : +second,
+        },
+        timeZone: utc ? 'UTC' : timeZone,
+        allDay,
+    };
+}
+
+/**
+ * All-day events start at local midnight.
+ */
+function toInstant({ local, timeZone }: IcsDateValue): Date {
+    if (timeZone === 'UTC') {
+        return new Date(Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second));
+    }
+
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return fromZonedTime(
+        `${local.year}-${pad(local.month)}-${pad(local.day)}T${pad(local.hour)}:${pad(local.minute)}:${pad(local.second)}`,
+        timeZone
+    );
+}
+
+/**
+ * TZIDs are usually IANA names, sometimes with a vendor prefix
+ * ("/mozilla.org/20050126_1/America/Vancouver"). Anything unrecognized
+ * (including Windows names like "Pacific Standard Time") and floating
+ * times are treated as Vancouver time.
+ */
+function resolveTimeZone(tzid: string | undefined): string {
+    if (!tzid) return VANCOUVER_TZ;
+
+    for (const candidate of [tzid, tzid.match(/[A-Za-z_]+\/[A-Za-z_]+$/)?.[0]]) {
+        if (candidate && isTimeZone(candidate)) return candidate;
+    }
+    return VANCOUVER_TZ;
+}
+
+function isTimeZone(name: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: name });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Occurrence start times for a rule, in order, up to `until`.
+ * Dates are stepped as wall-clock days in the event's time zone, so a
+ * 7pm event stays at 7pm across DST changes.
+ */
+function expandRule(dtstart: IcsDateValue, rule: RecurrenceRule, until: Date): Date[] {
+    const { local } = dtstart;
+    const first = Date.UTC(local.year, local.month - 1, local.day);
+    const starts: Date[] = [];
+    let count = 0;
+
+    for (let day = first; day - first <= MAX_EXPANSION_DAYS * DAY_MS; day += DAY_MS) {
+        const date = new Date(day);
+        if (!matchesRule(rule, local, date, first)) continue;
+
+        const start = toInstant({
+            ...dtstart,
+            local: { ...local, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() },
+        });
+
+        if (rule.until && start > rule.until) break;
+        if (rule.count !== undefined && ++count > rule.count) break;
+        if (start > until) break;
+
+        starts.push(start);
+    }
+
+    return starts;
+}
+
+/**
+ * Whether a day (a UTC-midnight Date holding the local calendar date)
+ * is an occurrence of the rule.
+ */
+function matchesRule(rule: RecurrenceRule, start: LocalDateTime, date: Date, first: number): boolean {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const weekday = date.getUTCDay();
+
+    if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) return false;
+
+    switch (rule.freq) {
+        case 'DAILY': {
+            const days = Math.round((date.getTime() - first) / DAY_MS);
+            if (days % rule.interval !== 0) return false;
+            return rule.byDay.length === 0 || rule.byDay.some((spec) => spec.weekday === weekday);
+        }
+
+        case 'WEEKLY': {
+            // Weeks start on Monday (the RFC 5545 default WKST)
+            const weekStart = first - ((new Date(first).getUTCDay() + 6) % 7) * DAY_MS;
+            const weeks = Math.floor((date.getTime() - weekStart) / (7 * DAY_MS));
+            if (weeks % rule.interval !== 0) return false;
+
+            const weekdays = rule.byDay.length > 0
+                ? rule.byDay.map((spec) => spec.weekday)
+                : [new Date(first).getUTCDay()];
+            return weekdays.includes(weekday);
+        }
+
+        case 'MONTHLY': {
+            const months = (year - start.year) * 12 + (month - start.month);
+            return months % rule.interval === 0 && matchesDayInMonth(rule, start, date);
+        }
+
+        case 'YEARLY': {
+            if ((year - start.year) % rule.interval !== 0) return false;
+            if (rule.byMonth.length === 0 && month !== start.month) return false;
+            return matchesDayInMonth(rule, start, date);
+        }
+    }
+}
+
+/**
+ * BYDAY ("2FR", "-1SU", "SA") or BYMONTHDAY within the month, defaulting
+ * to DTSTART's day of the month.
+ */
+function matchesDayInMonth(rule: RecurrenceRule, start: LocalDateTime, date: Date): boolean {
+    const day = date.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+
+    if (rule.byDay.length > 0) {
+        const nth = Math.ceil(day / 7);
+        const nthFromEnd = -Math.ceil((daysInMonth - day + 1) / 7);
+
+        return rule.byDay.some((spec) =>
+            spec.weekday === date.getUTCDay() &&
+            (spec.ordinal === undefined || spec.ordinal === nth || spec.ordinal === nthFromEnd)
+        );
+    }
+
+    if (rule.byMonthDay.length > 0) {
+        return rule.byMonthDay.some((target) => (target > 0 ? target : daysInMonth + target + 1) === day);
+    }
+
+    return day === start.day;
+}
+
+function toOccurrence(event: VEvent, start: Date, recurrenceId?: Date): IcsOccurrence {
+    return {
+        uid: event.uid,
+        summary: event.summary,
+        description: event.description,
+        url: event.url,
+        location: event.location,
+        status: event.status,
+        start,
+        end: event.end && new Date(start.getTime() + event.end.getTime() - event.start.getTime()),
+        allDay: event.allDay,
+        recurrenceId,
+    };
+}
+
+/**
+ * Undo TEXT escaping: \n, \, \; and \\.
+ */
+function unescapeText(value: string): string {
+    return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { renderCalendar, escapeText, foldLine } from './ics';
+
+describe('renderCalendar', () => {
+    const ics = renderCalendar('Paper Bear', [{
+        uid: 'abc123@paperbear',
+        title: 'Band X, Band Y; live',
+        start: new Date('2024-01-13T04:00:00Z'), // 8 PM PST
+        end: new Date('2024-01-13T07:00:00Z'),
+        venueName: 'Rickshaw Theatre',
+        description: 'Doors: 7:00 PM\nPrice: $20',
+        url: 'https://rickshawtheatre.com/event/band-x',
+        cancelled: false,
+        lastModified: new Date('2024-01-01T12:00:00Z'),
+    }]);
+
+    it('uses CRLF line endings and includes the Vancouver VTIMEZONE', () => {
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+        expect(ics.split('\r\n')).toContain('TZID:America/Vancouver');
+    });
+
+    it('writes DTSTART and DTEND in Vancouver local time', () => {
+        expect(ics).toContain('DTSTART;TZID=America/Vancouver:20240112T200000');
+        expect(ics).toContain('DTEND;TZID=America/Vancouver:20240112T230000');
+        expect(ics).toContain('UID:abc123@paperbear');
+        expect(ics).toContain('DTSTAMP:20240101T120000Z');
+    });
+
+    it('escapes text values', () => {
+        expect(ics).toContain('SUMMARY:Band X\\, Band Y\\; live');
+        expect(ics).toContain('DESCRIPTION:Doors: 7:00 PM\\nPrice: $20');
+    });
+});
+
+describe('escapeText', () => {
+    it('escapes backslashes first', () => {
+        expect(escapeText('a\\b,c')).toBe('a\\\\b\\,c');
+    });
+});
+
+describe('foldLine', () => {
+    it('folds long lines at 75 octets', () => {
+        const folded = foldLine(`DESCRIPTION:${'x'.repeat(100)}`);
+        const lines = folded.split('\r\n');
+        expect(lines[0]).toHaveLength(75);
+        expect(lines[1].startsWith(' ')).toBe(true);
+        expect(lines.every((l) => Buffer.byteLength(l) <= 75)).toBe(true);
+    });
+
+    it('never splits multi-byte characters', () => {
+        const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`);
+        expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+        expect(folded.split('\r\n').every((l) => Buffer.byteLength(l) <= 75)).toBe(true);
+    });
+});
@@ -0,0 +1,132 @@
+import { formatInTimeZone } from 'date-fns-tz';
+
+const VANCOUVER_TZ = 'America/Vancouver';
+
+/**
+ * VTIMEZONE for America/Vancouver (current North American DST rules, since 2007).
+ */
+const VANCOUVER_VTIMEZONE = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${VANCOUVER_TZ}`,
+    `X-LIC-LOCATION:${VANCOUVER_TZ}`,
+    'BEGIN:DAYLIGHT',
+    'TZOFFSETFROM:-0800',
+    'TZOFFSETTO:-0700',
+    'TZNAME:PDT',
+    'DTSTART:19700308T020000',
+    'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+    'END:DAYLIGHT',
+    'BEGIN:STANDARD',
+    'TZOFFSETFROM:-0700',
+    'TZOFFSETTO:-0800',
+    'TZNAME:PST',
+    'DTSTART:19701101T020000',
+    'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+    'END:STANDARD',
+    'END:VTIMEZONE',
+];
+
+/**
+ * One event in an iCalendar feed.
+ */
+export interface IcsEvent {
+    uid: string;
+    title: string;
+    start: Date;
+    end?: Date | null;
+    venueName: string;
+    description: string;
+    url: string | null;
+    cancelled: boolean;
+    lastModified: Date;
+}
+
+/**
+ * Render a VCALENDAR with the Vancouver VTIMEZONE and one VEVENT per event.
+ * Lines are CRLF-terminated and folded at 75 octets (RFC 5545).
+ */
+export function renderCalendar(name: string, events: IcsEvent[]): string {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Paper Bear//Vancouver Events//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        `X-WR-TIMEZONE:${VANCOUVER_TZ}`,
+        ...VANCOUVER_VTIMEZONE,
+    ];
+
+    for (const event of events) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${formatUtc(event.lastModified)}`,
+            `LAST-MODIFIED:${formatUtc(event.lastModified)}`,
+            `DTSTART;TZID=${VANCOUVER_TZ}:${formatLocal(event.start)}`,
+            ...event.end ? [`DTEND;TZID=${VANCOUVER_TZ}:${formatLocal(event.end)}`] : [],
+            `SUMMARY:${escapeText(event.title)}`,
+            `LOCATION:${escapeText(event.venueName)}`,
+            `DESCRIPTION:${escapeText(event.description)}`,
+        );
+        if (event.url) lines.push(`URL:${event.url}`);
+        lines.push(`STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11).
+ */
+export function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to at most 75 octets per line, without splitting
+ * multi-byte characters.
+ */
+export function foldLine(line: string): string {
+    if (Buffer.byteLength(line) <= 75) return line;
+
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    let limit = 75;
+
+    for (const char of line) {
+        const bytes = Buffer.byteLength(char);
+        if (currentBytes + bytes > limit) {
+            parts.push(current);
+            current = '';
+            currentBytes = 0;
+            limit = 74; // continuation lines start with a space
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+/**
+ * Format a date as Vancouver local time (for use with TZID).
+ */
+function formatLocal(date: Date): string {
+    return formatInTimeZone(date, VANCOUVER_TZ, "yyyyMMdd'T'HHmmss");
+}
+
+/**
+ * Format a date as UTC (for DTSTAMP / LAST-MODIFIED).
+ */
+function formatUtc(date: Date): string {
+    return formatInTimeZone(date, 'UTC', "yyyyMMdd'T'HHmmss'Z'");
+}
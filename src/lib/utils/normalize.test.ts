@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { findRejectedEvents, normalizeEvents } from './normalize';
+import type { RawEvent } from './scraper-core';
+
+const raw = (overrides: Partial<RawEvent> = {}): RawEvent => ({
+    title: 'Band X',
+    dateRaw: 'January 12, 2024 8:00 PM',
+    url: 'https://venue.example.com/band-x',
+    ...overrides,
+});
+
+describe('normalizeEvents', () => {
+    it('carries listing details through', () => {
+        const [event] = normalizeEvents('venue', [raw({
+            performers: [
+                { name: ' Opener  Y ', role: 'support' },
+                { name: 'Band X', role: 'headliner' },
+                { name: 'band x', role: 'support' },
+            ],
+            description: '  First   paragraph.\n\n\n Second\nparagraph. ',
+            imageUrl: 'https://venue.example.com/band-x.jpg',
+            ticketUrl: 'https://tickets.example.com/band-x',
+            ageRestriction: '19 +',
+        })]);
+
+        expect(event).toMatchObject({
+            date: new Date('2024-01-13T04:00:00Z'),
+            status: 'scheduled',
+            performers: [
+                { name: 'Band X', role: 'headliner' },
+                { name: 'Opener Y', role: 'support' },
+            ],
+            description: 'First paragraph.\n\nSecond paragraph.',
+            imageUrl: 'https://venue.example.com/band-x.jpg',
+            ticketUrl: 'https://tickets.example.com/band-x',
+            ageRestriction: '19+',
+        });
+    });
+
+    it('defaults missing details to empty', () => {
+        const [event] = normalizeEvents('venue', [raw({ ticketUrl: 'https://venue.example.com/band-x' })]);
+
+        expect(event).toMatchObject({
+            performers: [],
+            description: null,
+            imageUrl: null,
+            ticketUrl: null,        // same as the event page
+            ageRestriction: null,
+        });
+    });
+
+    it('finds age restrictions in the title or description', () => {
+        const events = normalizeEvents('venue', [
+            raw({ title: 'Punk Night (All Ages)' }),
+            raw({ title: 'Late Show', description: 'Strictly no minors.' }),
+            raw({ title: 'Matinee', ageRestriction: 'Family friendly' }),
+        ]);
+
+        expect(events.map((e) => e.ageRestriction)).toEqual(['All ages', '19+', 'Family friendly']);
+    });
+
+    it('picks a status, with cancellations beating sold out', () => {
+        const events = normalizeEvents('venue', [
+            raw({ soldOut: true }),
+            raw({ soldOut: true, eventStatus: 'cancelled' }),
+            raw({ eventStatus: 'postponed' }),
+            raw({ eventStatus: 'rescheduled' }),
+        ]);
+
+        expect(events.map((e) => e.status)).toEqual(['sold-out', 'cancelled', 'postponed', 'scheduled']);
+    });
+
+    it('keeps price tiers alongside the lowest price', () => {
+        const [tiered, pwyc] = normalizeEvents('venue', [
+            raw({ priceRaw: '$15 adv / $20 door' }),
+            raw({ priceRaw: 'PWYC' }),
+        ]);
+
+        expect(tiered).toMatchObject({ price: 1500, isFree: false });
+        expect(tiered.pricing!.tiers.map((t) => [t.label, t.min])).toEqual([['advance', 1500], ['door', 2000]]);
+        expect(pwyc).toMatchObject({ price: 0, isFree: false, pricing: { pwyc: true } });
+    });
+
+    it('caps long descriptions at a word boundary', () => {
+        const [event] = normalizeEvents('venue', [raw({ description: 'word '.repeat(1000) })]);
+
+        expect(event.description!.length).toBeLessThanOrEqual(2001);
+        expect(event.description!.endsWith('word…')).toBe(true);
+    });
+
+    it('turns several showtimes into one event each, in one series', () => {
+        const events = normalizeEvents('venue', [
+            raw({ title: 'Film', dateRaw: 'January 8, 2026 1:00 pm & 7:30 pm', doorsRaw: '12:30 pm' }),
+            raw(),
+        ], { now: new Date('2026-01-01T00:00:00Z') });
+
+        expect(events.map((e) => e.date.toISOString())).toEqual([
+            '2026-01-08T21:00:00.000Z',
+            '2026-01-09T03:30:00.000Z',
+            '2024-01-13T04:00:00.000Z',
+        ]);
+        expect(events[0].seriesId).toBeTruthy();
+        expect(events[1].seriesId).toBe(events[0].seriesId);
+        expect(events[2].seriesId).toBeNull();
+        expect(events[0].doorsTime).toBeNull();
+        expect(new Set(events.map((e) => e.hash)).size).toBe(3);
+    });
+
+    it('expands recurrences up to the horizon', () => {
+        const events = normalizeEvents('venue', [raw({ title: 'Trivia', dateRaw: 'Every Tuesday 8pm' })], {
+            now: new Date('2024-01-01T20:00:00Z'),
+            horizonDays: 14,
+        });
+
+        expect(events.map((e) => e.date.toISOString())).toEqual(['2024-01-03T04:00:00.000Z', '2024-01-10T04:00:00.000Z']);
+        expect(events[1].seriesId).toBe(events[0].seriesId);
+    });
+
+    it('starts each event in a series at the listing\'s show time', () => {
+        const events = normalizeEvents('venue', [
+            raw({ title: 'Residency', dateRaw: 'Every Tuesday', doorsRaw: 'Doors 7 / Show 8' }),
+        ], { now: new Date('2024-01-01T20:00:00Z'), horizonDays: 14 });
+
+        expect(events.map((e) => e.date.toISOString())).toEqual(['2024-01-03T04:00:00.000Z', '2024-01-10T04:00:00.000Z']);
+        expect(events.map((e) => e.doorsTime)).toEqual([null, null]);
+    });
+
+    it('keeps a run or a set as one event with an end', () => {
+        const [festival, structured] = normalizeEvents('venue', [
+            raw({ dateRaw: 'January 12 - 14, 2024 7pm' }),
+            raw({ startDate: '2024-01-12T20:00:00-08:00', endDate: '2024-01-12T23:00:00-08:00' }),
+        ]);
+
+        expect(festival).toMatchObject({ endDate: new Date('2024-01-15T03:00:00.000Z'), seriesId: null });
+        expect(structured.endDate?.toISOString()).toBe('2024-01-13T07:00:00.000Z');
+    });
+
+    it('reads doors on the event\'s date, and the show time for a listing with only a date', () => {
+        const [timed, dateOnly] = normalizeEvents('venue', [
+            raw({ doorsRaw: '7:00 PM' }),
+            raw({ title: 'Band Y', dateRaw: 'January 12, 2024', doorsRaw: 'Doors 7 / Show 8' }),
+        ], { now: new Date('2024-01-01T00:00:00Z') });
+
+        expect(timed).toMatchObject({ date: new Date('2024-01-13T04:00:00.000Z'), doorsTime: new Date('2024-01-13T03:00:00.000Z') });
+        expect(dateOnly).toMatchObject({ date: new Date('2024-01-13T04:00:00.000Z'), doorsTime: new Date('2024-01-13T03:00:00.000Z') });
+    });
+});
+
+describe('findRejectedEvents', () => {
+    it('reports missing and unreadable dates with what was tried', () => {
+        const rejections = findRejectedEvents([
+            raw(),
+            raw({ title: 'No date', dateRaw: '' }),
+            raw({ title: 'Odd date', dateRaw: 'Sat.  Jan 12th @ 8pm' }),
+        ], new Date('2024-01-01T00:00:00Z'));
+
+        expect(rejections.map(({ raw, ...rest }) => ({ title: raw.title, ...rest }))).toEqual([
+            { title: 'No date', reason: 'no-date', attempted: '', pattern: '' },
+            { title: 'Odd date', reason: 'unparsable-date', attempted: 'Sat Jan 12 @ 8 pm', pattern: 'EEE MMM N @ N pm' },
+        ]);
+    });
+});
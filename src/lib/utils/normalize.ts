@@ -0,0 +1,228 @@
+import { randomUUID } from 'crypto';
+import { assignEventHashes, generateSeriesId } from './event-identity';
+import type { RawEvent } from './scraper-core';
+import {
+    dateTextPattern,
+    expandDateSpec,
+    extractDoorsAndShow,
+    isStartOfVancouverDay,
+    normalizeDateText,
+    parseDateSpec,
+    parseStructuredDate,
+} from './date-parser';
+import type { DateSpec } from './date-parser';
+import { DEFAULT_HORIZON_DAYS, horizonEnd } from './calendar-months';
+import { classifyEventType, parseAgeRestriction } from './classifier';
+import { parsePrice } from './price-parser';
+import type { EventStatus, Performer, Pricing, RejectionReason } from '../../../db/config';
+
+/**
+ * Longer descriptions are cut here (at a word boundary where possible).
+ */
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * An event ready to be written to the `Event` table.
+ */
+export interface NormalizedEvent {
+    id: string;
+    venueId: string;
+    title: string;
+    date: Date;
+    endDate: Date | null;
+    doorsTime: Date | null;
+    url: string | null;
+    externalId: string | null;
+    seriesId: string | null;
+    price: number | null;
+    isFree: boolean;
+    pricing: Pricing | null;
+    eventType: string;
+    hash: string;
+    status: EventStatus;
+    performers: Performer[];
+    description: string | null;
+    imageUrl: string | null;
+    ticketUrl: string | null;
+    ageRestriction: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * A raw event `normalizeEvents` skips, and why.
+ */
+export interface EventRejection {
+    raw: RawEvent;
+    reason: RejectionReason;
+    attempted: string;       // the normalized date string the parser tried
+    pattern: string;         // its shape, for grouping (see dateTextPattern)
+}
+
+/**
+ * Options for `normalizeEvents`.
+ */
+export interface NormalizeOptions {
+    now?: Date;              // reference for year inference and recurrences
+    horizonDays?: number;    // how far ahead recurrences are expanded
+}
+
+/**
+ * Turn raw scraped events into DB-ready rows.
+ * Dates come from `eventDateSpec`; events without one are skipped. Several
+ * showtimes and recurrences become one row each, sharing a series ID.
+ * Hashes are assigned across the whole batch (see `assignEventHashes`).
+ */
+export function normalizeEvents(
+    venueId: string,
+    rawEvents: RawEvent[],
+    { now = new Date(), horizonDays = DEFAULT_HORIZON_DAYS }: NormalizeOptions = {}
+): NormalizedEvent[] {
+    const until = horizonEnd(now, horizonDays);
+
+    const dated = rawEvents.flatMap((raw) => {
+        const spec = eventDateSpec(raw, now);
+        if (!spec) return []; // Skip unparsable
+
+        const times = expandDateSpec(spec, until);
+        const seriesId = raw.seriesKey || times.length > 1 ? generateSeriesId(venueId, raw) : null;
+
+        // A listing's doors time is for one date, not each in a series; its show time is for every one
+        return times.map(({ start, end }) => ({
+            raw,
+            ...doorsAndShow(raw, start),
+            ...(seriesId ? { doorsTime: null } : {}),
+            endDate: end,
+            seriesId,
+        }));
+    });
+
+    const hashes = assignEventHashes(venueId, dated.map(({ raw, date }) => ({
+        date,
+        title: raw.title,
+        url: raw.url,
+        externalId: raw.externalId,
+    })));
+
+    return dated.map(({ raw, date, endDate, doorsTime, seriesId }, i): NormalizedEvent => {
+        const { price, isFree, pricing } = parsePrice(raw.priceRaw);
+
+        return {
+            id: randomUUID(),
+            venueId,
+            title: raw.title,
+            date,
+            endDate,
+            doorsTime,
+            url: raw.url || null,
+            externalId: raw.externalId || null,
+            seriesId,
+            price,
+            isFree,
+            pricing,
+            eventType: classifyEventType(raw.title),
+            hash: hashes[i],
+            status: statusOf(raw),
+            performers: cleanPerformers(raw.performers),
+            description: cleanDescription(raw.description),
+            imageUrl: raw.imageUrl || null,
+            ticketUrl: raw.ticketUrl && raw.ticketUrl !== raw.url ? raw.ticketUrl : null,
+            ageRestriction: parseAgeRestriction(raw.ageRestriction)
+                ?? (raw.ageRestriction?.trim() || parseAgeRestriction(`${raw.title}\n${raw.description ?? ''}`)),
+            createdAt: new Date(),
+            updatedAt: new Date(),
+        };
+    });
+}
+
+/**
+ * The raw events `normalizeEvents` would skip, with what was tried, so
+ * they can be quarantined rather than silently dropped.
+ */
+export function findRejectedEvents(rawEvents: RawEvent[], now: Date = new Date()): EventRejection[] {
+    return rawEvents.flatMap((raw): EventRejection[] => {
+        if (eventDateSpec(raw, now)) return [];
+
+        const text = raw.dateRaw?.trim() || raw.startDate?.trim() || '';
+        if (!text) {
+            return [{ raw, reason: 'no-date', attempted: '', pattern: '' }];
+        }
+
+        const attempted = normalizeDateText(text);
+        return [{ raw, reason: 'unparsable-date', attempted, pattern: dateTextPattern(attempted) }];
+    });
+}
+
+/**
+ * When a raw event happens. Several showtimes or a recurrence in `dateRaw`
+ * win, since a detail page's structured data describes only one date;
+ * otherwise structured-data dates win over `dateRaw`. Null if neither parses.
+ */
+export function eventDateSpec(raw: RawEvent, now: Date = new Date()): DateSpec | null {
+    const spec = parseDateSpec(raw.dateRaw, now);
+    if (spec?.kind === 'occurrences' || spec?.kind === 'recurring') return spec;
+
+    const start = parseStructuredDate(raw.startDate);
+    if (!start) return spec;
+
+    const end = parseStructuredDate(raw.endDate);
+    return end && end > start ? { kind: 'range', start, end } : { kind: 'single', start };
+}
+
+/**
+ * Doors and show times from `doorsRaw` (or `dateRaw`) on the event's day.
+ * The show time is the start of a listing that gives only a date.
+ */
+function doorsAndShow(raw: RawEvent, start: Date): { date: Date; doorsTime: Date | null } {
+    const { doors, show } = extractDoorsAndShow(raw.doorsRaw || raw.dateRaw, start);
+    return { date: show && isStartOfVancouverDay(start) ? show : start, doorsTime: doors };
+}
+
+/**
+ * Cancelled and postponed (from the venue or structured data) beat sold out.
+ */
+function statusOf(raw: RawEvent): EventStatus {
+    if (raw.eventStatus === 'cancelled') return 'cancelled';
+    if (raw.eventStatus === 'postponed') return 'postponed';
+    if (raw.soldOut) return 'sold-out';
+    return 'scheduled';
+}
+
+/**
+ * Trimmed, non-empty names, each listed once (headliner billing wins).
+ */
+function cleanPerformers(performers: Performer[] | undefined): Performer[] {
+    const seen = new Set<string>();
+    const cleaned: Performer[] = [];
+
+    const headlinersFirst = [...performers ?? []]
+        .sort((a, b) => Number(a.role === 'support') - Number(b.role === 'support'));
+
+    for (const performer of headlinersFirst) {
+        const name = performer.name.replace(/\s+/g, ' ').trim();
+        if (!name || seen.has(name.toLowerCase())) continue;
+        seen.add(name.toLowerCase());
+        cleaned.push({ name, role: performer.role });
+    }
+
+    return cleaned;
+}
+
+/**
+ * Collapse whitespace within lines, keep paragraph breaks, and cap the length.
+ */
+function cleanDescription(description: string | undefined): string | null {
+    if (!description) return null;
+
+    const cleaned = description
+        .split(/\n\s*\n/)
+        .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n\n');
+    if (!cleaned) return null;
+    if (cleaned.length <= MAX_DESCRIPTION_LENGTH) return cleaned;
+
+    const cut = cleaned.slice(0, MAX_DESCRIPTION_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${lastSpace > MAX_DESCRIPTION_LENGTH * 0.8 ? cut.slice(0, lastSpace) : cut}…`;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    createNotifier,
+    formatAlert,
+    LogFileNotifier,
+    MemoryNotifier,
+    MultiNotifier,
+    WebhookNotifier,
+} from './notifier';
+import type { Notifier, ScrapeAlert } from './notifier';
+
+const alert: ScrapeAlert = {
+    venueId: 'fox-cabaret',
+    venue: 'Fox Cabaret',
+    timestamp: new Date('2024-01-12T18:00:00Z'),
+    anomalies: [{ check: 'event-count', message: 'Found 0 events, usually 40', value: 0, baseline: 40 }],
+};
+
+describe('notifiers', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('formats a readable summary', () => {
+        expect(formatAlert(alert)).toBe('⚠️ Fox Cabaret scraper may be broken\n- Found 0 events, usually 40');
+    });
+
+    it('posts alerts to a webhook', async () => {
+        const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('ok'));
+
+        await new WebhookNotifier('https://hooks.example.com/x').notify(alert);
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('https://hooks.example.com/x');
+        expect(JSON.parse(init!.body as string).text).toContain('Fox Cabaret');
+    });
+
+    it('rejects when the webhook fails', async () => {
+        vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('nope', { status: 500 }));
+        await expect(new WebhookNotifier('https://hooks.example.com/x').notify(alert)).rejects.toThrow('HTTP 500');
+    });
+
+    it('appends JSON lines to a log file', async () => {
+        const dir = await mkdtemp(join(tmpdir(), 'paper-bear-'));
+        const path = join(dir, 'nested', 'alerts.log');
+        const notifier = new LogFileNotifier(path);
+
+        await notifier.notify(alert);
+        await notifier.notify(alert);
+
+        const lines = (await readFile(path, 'utf8')).trim().split('\n');
+        expect(lines).toHaveLength(2);
+        expect(JSON.parse(lines[0]).venueId).toBe('fox-cabaret');
+
+        await rm(dir, { recursive: true });
+    });
+
+    it('keeps delivering when one notifier fails', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const failing: Notifier = { notify: async () => { throw new Error('down'); } };
+        const memory = new MemoryNotifier();
+
+        await new MultiNotifier([failing, memory]).notify(alert);
+
+        expect(memory.alerts).toEqual([alert]);
+    });
+
+    it('falls back to the console when nothing is configured', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        await createNotifier({}).notify(alert);
+        expect(warn).toHaveBeenCalledWith(formatAlert(alert));
+    });
+});
@@ -0,0 +1,115 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import type { Anomaly } from './anomaly';
+
+/**
+ * A scrape that succeeded but looks broken.
+ */
+export interface ScrapeAlert {
+    venueId: string;
+    venue: string;
+    timestamp: Date;
+    anomalies: Anomaly[];
+}
+
+/**
+ * Somewhere to send alerts.
+ */
+export interface Notifier {
+    notify(alert: ScrapeAlert): Promise<void>;
+}
+
+/**
+ * Plain-text summary of an alert, for chat messages and logs.
+ */
+export function formatAlert(alert: ScrapeAlert): string {
+    return [
+        `⚠️ ${alert.venue} scraper may be broken`,
+        ...alert.anomalies.map((a) => `- ${a.message}`),
+    ].join('\n');
+}
+
+/**
+ * POSTs alerts as JSON. The `text` field makes the payload work as-is with
+ * Slack and Discord-style incoming webhooks; email can be bridged the same way.
+ */
+export class WebhookNotifier implements Notifier {
+    constructor(private readonly url: string) {}
+
+    async notify(alert: ScrapeAlert): Promise<void> {
+        const response = await fetch(this.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ text: formatAlert(alert), alert }),
+            signal: AbortSignal.timeout(10_000),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Webhook responded with HTTP ${response.status}`);
+        }
+    }
+}
+
+/**
+ * Appends alerts to a file, one JSON object per line.
+ */
+export class LogFileNotifier implements Notifier {
+    constructor(private readonly path: string) {}
+
+    async notify(alert: ScrapeAlert): Promise<void> {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, JSON.stringify(alert) + '\n');
+    }
+}
+
+/**
+ * Prints alerts to the console. Used when nothing else is configured.
+ */
+export class ConsoleNotifier implements Notifier {
+    async notify(alert: ScrapeAlert): Promise<void> {
+        console.warn(formatAlert(alert));
+    }
+}
+
+/**
+ * Keeps alerts in memory, for tests and local runs.
+ */
+export class MemoryNotifier implements Notifier {
+    readonly alerts: ScrapeAlert[] = [];
+
+    async notify(alert: ScrapeAlert): Promise<void> {
+        this.alerts.push(alert);
+    }
+}
+
+/**
+ * Sends each alert to several notifiers. One failing notifier doesn't stop
+ * the others, and never fails the scrape.
+ */
+export class MultiNotifier implements Notifier {
+    constructor(private readonly notifiers: Notifier[]) {}
+
+    async notify(alert: ScrapeAlert): Promise<void> {
+        const results = await Promise.allSettled(this.notifiers.map((n) => n.notify(alert)));
+
+        for (const result of results) {
+            if (result.status === 'rejected') {
+                console.error(`   ❌ Failed to send alert for ${alert.venue}:`, result.reason);
+            }
+        }
+    }
+}
+
+/**
+ * Build the notifier configured by ALERT_WEBHOOK_URL and ALERT_LOG_FILE,
+ * falling back to the console.
+ */
+export function createNotifier(env: Record<string, string | undefined> = process.env): Notifier {
+    const notifiers: Notifier[] = [];
+
+    if (env.ALERT_WEBHOOK_URL) notifiers.push(new WebhookNotifier(env.ALERT_WEBHOOK_URL));
+    if (env.ALERT_LOG_FILE) notifiers.push(new LogFileNotifier(env.ALERT_LOG_FILE));
+    if (notifiers.length === 0) notifiers.push(new ConsoleNotifier());
+
+    return new MultiNotifier(notifiers);
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { describePrice, formatPricing, parsePrice } from './price-parser';
+
+const tier = (min: number, overrides: Record<string, unknown> = {}) => ({
+    label: null,
+    min,
+    max: null,
+    currency: 'CAD',
+    feesIncluded: null,
+    ...overrides,
+});
+
+describe('parsePrice', () => {
+    it('returns nothing for missing or priceless text', () => {
+        expect(parsePrice(undefined)).toEqual({ price: null, isFree: false, pricing: null });
+        expect(parsePrice('Doors 7pm, 19+')).toEqual({ price: null, isFree: false, pricing: null });
+    });
+
+    it('reads a single price', () => {
+        expect(parsePrice('$15')).toMatchObject({ price: 1500, isFree: false, pricing: { tiers: [tier(1500)] } });
+        expect(parsePrice('12.50')).toMatchObject({ price: 1250, pricing: { tiers: [tier(1250)] } });
+    });
+
+    it('reads advance and door tiers, with labels before or after', () => {
+        const expected = { tiers: [tier(1500, { label: 'advance' }), tier(2000, { label: 'door' })] };
+
+        expect(parsePrice('$15 advance / $20 door')).toMatchObject({ price: 1500, pricing: expected });
+        expect(parsePrice('$15 adv $20 dos')).toMatchObject({ pricing: expected });
+        expect(parsePrice('Advance: $15, At the door: $20')).toMatchObject({ pricing: expected });
+    });
+
+    it('reads ranges', () => {
+        expect(parsePrice('$25-$40')).toMatchObject({ price: 2500, pricing: { tiers: [tier(2500, { max: 4000 })] } });
+        expect(parsePrice('Tickets $25 to 40')).toMatchObject({ pricing: { tiers: [tier(2500, { max: 4000 })] } });
+    });
+
+    it('notes whether fees are included', () => {
+        expect(parsePrice('$20 + fees').pricing!.tiers).toEqual([tier(2000, { feesIncluded: false })]);
+        expect(parsePrice('$22 incl. fees').pricing!.tiers).toEqual([tier(2200, { feesIncluded: true })]);
+        expect(parsePrice('$15 adv incl. fees / $20 door').pricing!.tiers).toEqual([
+            tier(1500, { label: 'advance', feesIncluded: true }),
+            tier(2000, { label: 'door' }),
+        ]);
+    });
+
+    it('reads currencies', () => {
+        expect(parsePrice('US$30').pricing!.tiers).toEqual([tier(3000, { currency: 'USD' })]);
+        expect(parsePrice('30 USD').pricing!.tiers).toEqual([tier(3000, { currency: 'USD' })]);
+    });
+
+    it('ignores ages and times next to prices', () => {
+        expect(parsePrice('19+ | Doors 7pm | $18').pricing!.tiers).toEqual([tier(1800)]);
+        expect(parsePrice('Tickets $15 (19+)').pricing!.tiers).toEqual([tier(1500)]);
+        expect(parsePrice('$12 students, all ages / $15 door').pricing!.tiers).toEqual([
+            tier(1200, { label: 'students' }),
+            tier(1500, { label: 'door' }),
+        ]);
+    });
+
+    it('treats PWYC as costing nothing, but not free', () => {
+        expect(parsePrice('PWYC ($10 suggested)')).toEqual({
+            price: 0,
+            isFree: false,
+            pricing: { tiers: [tier(1000, { label: 'suggested' })], pwyc: true, slidingScale: false, donation: false },
+        });
+        expect(parsePrice('Pay what you can')).toMatchObject({ price: 0, isFree: false, pricing: { tiers: [], pwyc: true } });
+    });
+
+    it('reads sliding scales and donations', () => {
+        expect(parsePrice('$10-$20 sliding scale')).toMatchObject({
+            price: 1000,
+            isFree: false,
+            pricing: { tiers: [tier(1000, { max: 2000 })], slidingScale: true },
+        });
+        expect(parsePrice('By donation')).toMatchObject({ price: 0, isFree: false, pricing: { tiers: [], donation: true } });
+    });
+
+    it('reads free events', () => {
+        expect(parsePrice('Free')).toMatchObject({ price: 0, isFree: true, pricing: { tiers: [tier(0)] } });
+        expect(parsePrice('$0')).toMatchObject({ price: 0, isFree: true });
+        expect(parsePrice('FREE (donations welcome)')).toMatchObject({ price: 0, isFree: true, pricing: { donation: true } });
+        expect(parsePrice('Free before 10pm, $10 after')).toMatchObject({
+            price: 0,
+            isFree: false,
+            pricing: { tiers: [tier(0, { label: 'before 10pm' }), tier(1000)] },
+        });
+    });
+
+    it('keeps who free entry is for, without making the event cheaper for everyone else', () => {
+        expect(parsePrice('$15 adv, $20 dos, free for members')).toMatchObject({
+            price: 1500,
+            isFree: false,
+            pricing: { tiers: [tier(0, { label: 'for members' }), tier(1500, { label: 'advance' }), tier(2000, { label: 'door' })] },
+        });
+        expect(parsePrice('Free entry').pricing!.tiers).toEqual([tier(0)]);
+    });
+
+    it('drops "starts at" from labels', () => {
+        expect(parsePrice('Tickets start at $35.50 plus fees').pricing!.tiers).toEqual([tier(3550, { feesIncluded: false })]);
+        expect(parsePrice('Starting at $20').pricing!.tiers).toEqual([tier(2000)]);
+    });
+});
+
+describe('formatPricing', () => {
+    it.each([
+        ['$15 adv / $20 door + fees', '$15 advance + fees / $20 door + fees'],
+        ['$25-$40', '$25–$40'],
+        ['PWYC ($10 suggested)', 'PWYC ($10 suggested)'],
+        ['$10-$20 sliding scale', '$10–$20 sliding scale'],
+        ['Suggested donation $10', 'By donation ($10 suggested)'],
+        ['Free', 'Free'],
+        ['US$12.50', 'US$12.50'],
+        ['$15 adv, free for members', 'Free for members / $15 advance'],
+    ])('formats %s', (raw, expected) => {
+        expect(formatPricing(parsePrice(raw).pricing!)).toBe(expected);
+    });
+});
+
+describe('describePrice', () => {
+    it('falls back to the lowest price for events stored without pricing', () => {
+        expect(describePrice({ pricing: null, price: 1500, isFree: false })).toBe('$15');
+        expect(describePrice({ pricing: null, price: null, isFree: true })).toBe('Free');
+        expect(describePrice({ pricing: null, price: null, isFree: false })).toBeNull();
+    });
+});
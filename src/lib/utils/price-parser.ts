@@ -0,0 +1,278 @@
+import { formatPrice } from './classifier';
+import type { PriceTier, Pricing } from '../../../db/config';
+
+/**
+ * Price text as venues write it: "$15 advance / $20 door", "$25-$40",
+ * "$20 + fees", "PWYC ($10 suggested)", "Free".
+ */
+
+/**
+ * A money amount, optionally a range: "$15", "US$20", "$25-$40", "25 - 40 CAD".
+ */
+const AMOUNT = /(?:\b(US|CA|C)(?=\$))?(\$)?\s*(\d+(?:\.\d{1,2})?)(?![\d:])(?:\s*(?:-|–|—|to)\s*(?:(?:US|CA|C)?\$)?\s*(\d+(?:\.\d{1,2})?)(?![\d:]))?(?:\s*\b(CAD|USD)\b)?/gi;
+
+/**
+ * What follows a number that isn't a price: "7pm", "19+", "10%", "12th".
+ */
+const NOT_A_PRICE = /^\s*(?:am\b|pm\b|\+|%|st\b|nd\b|rd\b|th\b)/i;
+
+const PWYC = /\bpwyc\b|\bpay[\s-]+what[\s-]+(?:you|u)[\s-]+(?:can|want|wish|like)\b/gi;
+const SLIDING_SCALE = /\bsliding[\s-]*scale\b/gi;
+const DONATION = /\b(?:by\s+)?donations?\b/gi;
+const FREE = /\bfree\b/i;
+
+const FEES_EXCLUDED = /\+\s*(?:applicable\s+)?(?:fees?|service\s+(?:fees?|charges?)|s\/c|tax(?:es)?(?:\s*(?:&|and)\s*fees?)?)\b|\b(?:plus|excl(?:\.|uding)?)\s+(?:applicable\s+)?(?:fees?|service\s+(?:fees?|charges?)|tax(?:es)?)\b/gi;
+const FEES_INCLUDED = /\b(?:incl(?:\.|uding|udes)?|with)\s+(?:all\s+)?(?:fees?|service\s+(?:fees?|charges?)|tax(?:es)?(?:\s*(?:&|and)\s*fees?)?)\b|\b(?:fees?|taxes)\s+included\b|\ball[\s-]+in\b/gi;
+
+/**
+ * Separates one tier from the next.
+ */
+const SEPARATOR = /[/|,;]/;
+
+/**
+ * Words around a price that don't name a tier.
+ */
+const NOISE = /\b(?:tickets?|tix|price[sd]?|cost|cover|admission|entry|from|start(?:s|ing)?\s+at|only|each|per\s+person|or|and)\b|[()[\]/|,;:*+!&]|\s-\s/gi;
+
+/**
+ * A word left on its own that only makes sense with the rest of the
+ * sentence ("Free before 10pm, $10 after").
+ */
+const DANGLING = /^(?:after|before|until|till|later|then)$/;
+
+/**
+ * Age limits next to a price ("(19+)", "All ages") aren't tier names.
+ */
+const AGE_NOTE = /\b\d{2}\s*\+|\ball[\s-]+ages\b|\bno\s+minors\b/gi;
+
+/**
+ * Labels longer than this are sentences, not tier names.
+ */
+const MAX_LABEL_LENGTH = 30;
+
+const LABEL_ALIASES: [RegExp, string][] = [
+    [/^(?:adv\.?|advanced?|pre-?sale|in advance)$/, 'advance'],
+    [/^(?:dos|doors?|at (?:the )?doors?|day of(?: show)?)$/, 'door'],
+];
+
+interface Amount {
+    start: number;
+    end: number;
+    min: number;
+    max: number | null;
+    currency: string;
+}
+
+/**
+ * Parse price text into pricing details, the lowest price in cents (for
+ * filtering and sorting) and whether the event is free.
+ *
+ * PWYC and by-donation events can be attended for nothing, so their lowest
+ * price is 0, but they aren't free. Returns a null pricing (and price) when
+ * the text doesn't state a price.
+ */
+export function parsePrice(raw: string | undefined): {
+    price: number | null;
+    isFree: boolean;
+    pricing: Pricing | null;
+} {
+    const pricing = raw ? parsePricing(raw) : null;
+    if (!pricing) {
+        return { price: null, isFree: false, pricing: null };
+    }
+
+    return { price: minPrice(pricing), isFree: isFreePricing(pricing), pricing };
+}
+
+/**
+ * Read price tiers and PWYC / sliding scale / donation flags from text.
+ * Returns null if it has neither.
+ */
+export function parsePricing(raw: string): Pricing | null {
+    const text = raw.replace(/\s+/g, ' ').trim();
+
+    const pricing: Pricing = {
+        tiers: [],
+        pwyc: new RegExp(PWYC).test(text),
+        slidingScale: new RegExp(SLIDING_SCALE).test(text),
+        donation: new RegExp(DONATION).test(text),
+    };
+
+    const amounts = findAmounts(text);
+
+    // The text between amounts holds labels and fee notes. Labels come
+    // before their amounts ("Advance $15 / Door $20") if the text starts
+    // with one, otherwise after ("$15 adv / $20 door").
+    const gaps = [0, ...amounts.map((a) => a.end)].map((start, i) =>
+        text.slice(start, i < amounts.length ? amounts[i].start : text.length));
+    const labelsFirst = amounts.length > 0 && cleanLabel(gaps[0], 'before') !== null;
+    const trailingFees = feesStated(gaps[gaps.length - 1]);
+
+    if (FREE.test(text) && !amounts.some((a) => a.min === 0)) {
+        pricing.tiers.push(tier(freeLabel(text), 0, null, 'CAD', null));
+    }
+
+    amounts.forEach((amount, i) => {
+        const label = labelsFirst ? cleanLabel(gaps[i], 'before') : cleanLabel(gaps[i + 1], 'after');
+        const fees = feesStated(gaps[i + 1]) ?? trailingFees;
+        pricing.tiers.push(tier(label, amount.min, amount.max, amount.currency, fees));
+    });
+
+    const stated = pricing.tiers.length > 0 || pricing.pwyc || pricing.slidingScale || pricing.donation;
+    return stated ? pricing : null;
+}
+
+/**
+ * The lowest price in cents. PWYC and donation events are 0. Free entry
+ * for a group ("free for members") doesn't count when others pay.
+ */
+export function minPrice(pricing: Pricing): number | null {
+    if (pricing.pwyc || pricing.donation) return 0;
+    if (pricing.tiers.length === 0) return null;
+
+    const open = pricing.tiers.filter((t) => !isForGroup(t));
+    return Math.min(...(open.length > 0 ? open : pricing.tiers).map((t) => t.min));
+}
+
+/**
+ * Free means every tier costs nothing for anyone, with no PWYC or sliding scale.
+ */
+export function isFreePricing(pricing: Pricing): boolean {
+    return pricing.tiers.length > 0
+        && pricing.tiers.every((t) => t.min === 0 && !t.max && !isForGroup(t))
+        && !pricing.pwyc
+        && !pricing.slidingScale;
+}
+
+/**
+ * Pricing for display: "$15 advance / $20 door + fees", "$25–$40",
+ * "PWYC ($10 suggested)", "Free".
+ */
+export function formatPricing(pricing: Pricing): string | null {
+    if (isFreePricing(pricing)) return 'Free';
+
+    const tiers = pricing.tiers.map((t) => [
+        t.max ? `${formatAmount(t.min, t.currency)}–${formatAmount(t.max, t.currency)}` : formatAmount(t.min, t.currency),
+        t.label,
+        t.feesIncluded === false ? '+ fees' : null,
+    ].filter(Boolean).join(' ')).join(' / ');
+
+    if (pricing.pwyc) return tiers ? `PWYC (${tiers})` : 'PWYC';
+    if (pricing.slidingScale) return tiers ? `${tiers} sliding scale` : 'Sliding scale';
+    if (pricing.donation) return tiers ? `By donation (${tiers})` : 'By donation';
+    return tiers || null;
+}
+
+/**
+ * An event's price for display, from its pricing if stored, else its
+ * lowest price.
+ */
+export function describePrice(event: { pricing?: unknown; price?: number | null; isFree: boolean }): string | null {
+    const pricing = event.pricing as Pricing | null | undefined;
+    return (pricing && formatPricing(pricing)) ?? formatPrice(event.price ?? null, event.isFree);
+}
+
+/**
+ * Money amounts in the text, skipping times, ages and dates. When the text
+ * has a "$" anywhere, only "$" amounts (or those with a currency code) count.
+ */
+function findAmounts(text: string): Amount[] {
+    const hasDollar = text.includes('$');
+    const amounts: Amount[] = [];
+
+    for (const match of text.matchAll(AMOUNT)) {
+        const [whole, prefix, dollar, first, second, code] = match;
+        const start = match.index! + (whole.length - whole.trimStart().length);
+        const end = match.index! + whole.length;
+
+        if (!dollar && !code) {
+            if (hasDollar) continue;
+            if (NOT_A_PRICE.test(text.slice(end))) continue;
+        }
+
+        const min = toCents(first);
+        const max = second ? toCents(second) : null;
+        amounts.push({
+            start,
+            end,
+            min: max !== null ? Math.min(min, max) : min,
+            max: max !== null && max !== min ? Math.max(min, max) : null,
+            currency: prefix?.toUpperCase() === 'US' || code?.toUpperCase() === 'USD' ? 'USD' : 'CAD',
+        });
+    }
+
+    return amounts;
+}
+
+/**
+ * Whether text says fees are included (true), extra (false), or neither (null).
+ */
+function feesStated(text: string): boolean | null {
+    if (new RegExp(FEES_EXCLUDED).test(text)) return false;
+    if (new RegExp(FEES_INCLUDED).test(text)) return true;
+    return null;
+}
+
+/**
+ * A tier name from the text just before or after an amount (up to the
+ * nearest "/", "|", "," or ";"), lowercased, or null if there's nothing
+ * left once fee notes, age limits and filler words are removed.
+ */
+function cleanLabel(text: string, side: 'before' | 'after'): string | null {
+    const parts = text
+        .toLowerCase()
+        .replace(FEES_EXCLUDED, ' ')
+        .replace(FEES_INCLUDED, ' ')
+        .replace(PWYC, ' ')
+        .replace(SLIDING_SCALE, ' ')
+        .replace(DONATION, ' ')
+        .replace(AGE_NOTE, ' ')
+        .split(SEPARATOR);
+
+    const label = (side === 'before' ? parts[parts.length - 1] : parts[0])
+        .replace(NOISE, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^[-–—.\s]+|[-–—\s]+$/g, '');
+
+    if (!label || label.length > MAX_LABEL_LENGTH || FREE.test(label) || DANGLING.test(label)) return null;
+
+    for (const [pattern, alias] of LABEL_ALIASES) {
+        if (pattern.test(label)) return alias;
+    }
+    return label;
+}
+
+/**
+ * What free entry applies to, from the words after "free" up to the next
+ * separator: "free for members" -> "for members", "Free before 10pm" ->
+ * "before 10pm". Null for plain "Free" / "Free entry".
+ */
+function freeLabel(text: string): string | null {
+    const part = text.split(SEPARATOR).find((p) => FREE.test(p));
+    if (!part) return null;
+
+    return cleanLabel(part.slice(part.search(FREE)).replace(FREE, ''), 'after');
+}
+
+/**
+ * A free tier that's only free for some people: "for members", "for kids".
+ */
+function isForGroup(t: PriceTier): boolean {
+    return t.min === 0 && !!t.label?.startsWith('for ');
+}
+
+function tier(label: string | null, min: number, max: number | null, currency: string, feesIncluded: boolean | null): PriceTier {
+    return { label, min, max, currency, feesIncluded };
+}
+
+function toCents(value: string): number {
+    return Math.round(parseFloat(value) * 100);
+}
+
+function formatAmount(cents: number, currency: string): string {
+    if (cents === 0) return 'Free';
+
+    const dollars = cents / 100;
+    return `${currency === 'USD' ? 'US$' : '$'}${Number.isInteger(dollars) ? dollars : dollars.toFixed(2)}`;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { parseRobotsTxt, getPolicyFor, isPathAllowed } from './robots';
+import { HostRateLimiter } from './crawl-policy';
+
+const UA = 'PaperBear/1.0 (Vancouver Community Events Bot; contact@paperbear.dev)';
+
+const ROBOTS = `
+# Example robots.txt
+User-agent: *
+Disallow: /wp-admin/
+Allow: /wp-admin/admin-ajax.php
+Disallow: /*?print=
+Disallow: /*.pdf$
+Crawl-delay: 5
+
+User-agent: BadBot
+User-agent: PaperBear
+Disallow: /private
+Crawl-delay: 10
+`;
+
+describe('robots.txt', () => {
+    const groups = parseRobotsTxt(ROBOTS);
+
+    it('selects the group naming our product token', () => {
+        const policy = getPolicyFor(groups, UA);
+        expect(policy.crawlDelay).toBe(10);
+        expect(isPathAllowed(policy, '/private/page')).toBe(false);
+        expect(isPathAllowed(policy, '/wp-admin/')).toBe(true);
+    });
+
+    it('falls back to the * group', () => {
+        const policy = getPolicyFor(groups, 'OtherBot/2.0');
+        expect(policy.crawlDelay).toBe(5);
+        expect(isPathAllowed(policy, '/events/')).toBe(true);
+        expect(isPathAllowed(policy, '/wp-admin/options.php')).toBe(false);
+    });
+
+    it('prefers the longest match, with Allow winning', () => {
+        const policy = getPolicyFor(groups, 'OtherBot/2.0');
+        expect(isPathAllowed(policy, '/wp-admin/admin-ajax.php')).toBe(true);
+    });
+
+    it('supports * wildcards and $ anchors', () => {
+        const policy = getPolicyFor(groups, 'OtherBot/2.0');
+        expect(isPathAllowed(policy, '/events/?print=1')).toBe(false);
+        expect(isPathAllowed(policy, '/flyer.pdf')).toBe(false);
+        expect(isPathAllowed(policy, '/flyer.pdf?v=2')).toBe(true);
+    });
+
+    it('treats an empty Disallow as allow-all', () => {
+        const policy = getPolicyFor(parseRobotsTxt('User-agent: *\nDisallow:'), UA);
+        expect(isPathAllowed(policy, '/anything')).toBe(true);
+    });
+});
+
+describe('HostRateLimiter', () => {
+    it('spaces requests to the same host but not across hosts', async () => {
+        const limiter = new HostRateLimiter();
+        const start = Date.now();
+
+        await limiter.wait('https://a.example.com/1', 50);
+        await limiter.wait('https://b.example.com/1', 50);
+        expect(Date.now() - start).toBeLessThan(40);
+
+        await Promise.all([
+            limiter.wait('https://a.example.com/2', 50),
+            limiter.wait('https://a.example.com/3', 50),
+        ]);
+        expect(Date.now() - start).toBeGreaterThanOrEqual(95);
+    });
+});
@@ -0,0 +1,204 @@
+/**
+ * robots.txt parsing and matching (RFC 9309).
+ *
+ * Supports:
+ * - Multiple user-agent lines per group
+ * - Allow / Disallow with `*` wildcards and `$` end anchors
+ * - Longest-match precedence (Allow wins ties)
+ * - Crawl-delay (non-standard, but common)
+ */
+
+interface RobotsRule {
+    allow: boolean;
+    path: string;
+}
+
+interface RobotsGroup {
+    agents: string[];        // lowercased product tokens
+    rules: RobotsRule[];
+    crawlDelay?: number;     // seconds
+}
+
+/**
+ * The rules that apply to a single user agent on a single host.
+ */
+export interface RobotsPolicy {
+    rules: RobotsRule[];
+    crawlDelay: number | null;   // seconds
+}
+
+/**
+ * Policies for the edge cases defined by RFC 9309.
+ */
+export const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelay: null };
+export const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, path: '/' }], crawlDelay: null };
+
+/**
+ * Parse a robots.txt file into its groups.
+ */
+export function parseRobotsTxt(text: string): RobotsGroup[] {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+
+        const key = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (key === 'user-agent') {
+            // Consecutive user-agent lines share one group
+            if (!current || !lastWasAgent) {
+                current = { agents: [], rules: [] };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+            lastWasAgent = true;
+            continue;
+        }
+
+        lastWasAgent = false;
+        if (!current) continue; // rules before any user-agent are ignored
+
+        if (key === 'allow' || key === 'disallow') {
+            // An empty Disallow means "allow everything" and adds no rule
+            if (value) current.rules.push({ allow: key === 'allow', path: value });
+        } else if (key === 'crawl-delay') {
+            const delay = parseFloat(value);
+            if (!Number.isNaN(delay) && delay >= 0) current.crawlDelay = delay;
+        }
+    }
+
+    return groups;
+}
+
+/**
+ * Select the policy for a user agent.
+ * Matches the UA's product token (e.g. "PaperBear" in "PaperBear/1.0 (...)")
+ * against group names, falling back to the `*` group.
+ */
+export function getPolicyFor(groups: RobotsGroup[], userAgent: string): RobotsPolicy {
+    const token = userAgent.split(/[\/\s]/)[0].toLowerCase();
+
+    let matched = groups.filter((g) => g.agents.some((a) => a !== '*' && a === token));
+    if (matched.length === 0) {
+        matched = groups.filter((g) => g.agents.includes('*'));
+    }
+    if (matched.length === 0) return ALLOW_ALL;
+
+    // Groups naming the same agent are merged
+    const delays = matched.map((g) => g.crawlDelay).filter((d): d is number => d !== undefined);
+    return {
+        rules: matched.flatMap((g) => g.rules),
+        crawlDelay: delays.length > 0 ? Math.max(...delays) : null,
+    };
+}
+
+/**
+ * Check whether a URL path (including query string) may be crawled.
+ */
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+    let best: RobotsRule | null = null;
+
+    for (const rule of policy.rules) {
+        if (!matchesPattern(rule.path, path)) continue;
+
+        if (
+            !best ||
+            rule.path.length > best.path.length ||
+            (rule.path.length === best.path.length && rule.allow)
+        ) {
+            best = rule;
+        }
+    }
+
+    return best ? best.allow : true;
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+    const anchored = pattern.endsWith('$');
+    const body = anchored ? pattern.slice(0, -1) : pattern;
+    const regex = body
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
+
+/**
+ * Fetches and caches robots.txt per origin.
+ *
+ * Per RFC 9309: a missing robots.txt (4xx) allows everything, while an
+ * unreachable one (5xx or network error) disallows everything until it's retried.
+ */
+export class RobotsCache {
+    private cache = new Map<string, { policy: RobotsPolicy; expires: number }>();
+    private pending = new Map<string, Promise<RobotsPolicy>>();
+
+    constructor(
+        private userAgent: string,
+        private ttlMs = 24 * 60 * 60 * 1000,
+        private errorTtlMs = 10 * 60 * 1000
+    ) {}
+
+    /**
+     * Get the policy that applies to a URL's origin.
+     */
+    async getPolicy(url: string): Promise<RobotsPolicy> {
+        const { origin } = new URL(url);
+
+        const cached = this.cache.get(origin);
+        if (cached && cached.expires > Date.now()) {
+            return cached.policy;
+        }
+
+        // Share one in-flight fetch between concurrent callers
+        let pending = this.pending.get(origin);
+        if (!pending) {
+            pending = this.fetchPolicy(origin).finally(() => this.pending.delete(origin));
+            this.pending.set(origin, pending);
+        }
+        return pending;
+    }
+
+    /**
+     * Check a URL against its origin's robots.txt.
+     */
+    async isAllowed(url: string): Promise<boolean> {
+        const { pathname, search } = new URL(url);
+        const policy = await this.getPolicy(url);
+        return isPathAllowed(policy, `${pathname}${search}`);
+    }
+
+    private async fetchPolicy(origin: string): Promise<RobotsPolicy> {
+        let policy: RobotsPolicy;
+        let ttl = this.ttlMs;
+
+        try {
+            const response = await fetch(`${origin}/robots.txt`, {
+                headers: { 'User-Agent': this.userAgent },
+                signal: AbortSignal.timeout(10000),
+            });
+
+            if (response.ok) {
+                policy = getPolicyFor(parseRobotsTxt(await response.text()), this.userAgent);
+            } else if (response.status >= 400 && response.status < 500) {
+                policy = ALLOW_ALL;
+            } else {
+                policy = DISALLOW_ALL;
+                ttl = this.errorTtlMs;
+            }
+        } catch (error) {
+            console.warn(`[robots] Could not fetch ${origin}/robots.txt:`, error instanceof Error ? error.message : error);
+            policy = DISALLOW_ALL;
+            ttl = this.errorTtlMs;
+        }
+
+        this.cache.set(origin, { policy, expires: Date.now() + ttl });
+        return policy;
+    }
+}
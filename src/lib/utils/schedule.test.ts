@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { isDue, nextRunAt, countConsecutiveFailures, BACKOFF_BASE_MS } from './schedule';
+import type { VenueSchedule } from './schedule';
+
+const hourly: VenueSchedule = {
+    venueId: 'rickshaw-theatre',
+    cron: null,
+    intervalMinutes: 60,
+    jitterSeconds: 0,
+    enabled: true,
+};
+
+const lastRunAt = new Date('2024-01-12T18:00:00Z');
+const minutes = (n: number) => new Date(lastRunAt.getTime() + n * 60 * 1000);
+
+describe('schedule', () => {
+    it('treats never-scraped venues as due', () => {
+        expect(isDue(hourly, { lastRunAt: null, consecutiveFailures: 0 })).toBe(true);
+    });
+
+    it('skips venues scraped recently', () => {
+        const state = { lastRunAt, consecutiveFailures: 0 };
+        expect(isDue(hourly, state, minutes(30))).toBe(false);
+        expect(isDue(hourly, state, minutes(60))).toBe(true);
+    });
+
+    it('adds stable jitter within the configured window', () => {
+        const state = { lastRunAt, consecutiveFailures: 0 };
+        const jittered = { ...hourly, jitterSeconds: 600 };
+        const due = nextRunAt(jittered, state)!;
+
+        expect(due.getTime()).toBeGreaterThanOrEqual(minutes(60).getTime());
+        expect(due.getTime()).toBeLessThan(minutes(70).getTime());
+        expect(nextRunAt(jittered, state)).toEqual(due);
+    });
+
+    it('backs off venues that keep failing', () => {
+        // 4 failures -> 15 min * 2^3 = 2 hours
+        const state = { lastRunAt, consecutiveFailures: 4 };
+        expect(nextRunAt(hourly, state)!.getTime() - lastRunAt.getTime()).toBe(BACKOFF_BASE_MS * 8);
+    });
+
+    it('ignores disabled schedules', () => {
+        expect(nextRunAt({ ...hourly, enabled: false }, { lastRunAt: null, consecutiveFailures: 0 })).toBeNull();
+    });
+
+    it('counts failures since the last success', () => {
+        expect(countConsecutiveFailures([
+            { status: 'error' },
+            { status: 'skipped' },
+            { status: 'error' },
+            { status: 'success' },
+            { status: 'error' },
+        ])).toBe(2);
+    });
+});
@@ -0,0 +1,92 @@
+import { createHash } from 'crypto';
+import { nextCronRun } from './cron';
+
+/**
+ * How often a venue should be scraped. Set either `cron` or `intervalMinutes`.
+ */
+export interface VenueSchedule {
+    venueId: string;
+    cron: string | null;             // e.g. '0 3 * * *' (Vancouver time)
+    intervalMinutes: number | null;  // e.g. 60
+    jitterSeconds: number;           // random-looking delay added to each due time
+    enabled: boolean;
+}
+
+/**
+ * What ScrapeLog tells us about a venue's recent runs.
+ */
+export interface VenueRunState {
+    lastRunAt: Date | null;
+    consecutiveFailures: number;
+}
+
+/**
+ * Failure backoff: 15 min after the first failure, doubling up to a day.
+ */
+export const BACKOFF_BASE_MS = 15 * 60 * 1000;
+export const BACKOFF_MAX_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Compute when a venue is next due to be scraped.
+ * Returns null for disabled or empty schedules.
+ *
+ * - Never-scraped venues are due immediately.
+ * - The due time is the first cron/interval slot after the last run (of any
+ *   kind, so a manual scrape pushes the next scheduled one back), plus jitter.
+ * - Failing venues wait out an exponential backoff from their last run.
+ */
+export function nextRunAt(schedule: VenueSchedule, state: VenueRunState): Date | null {
+    if (!schedule.enabled || (!schedule.cron && !schedule.intervalMinutes)) {
+        return null;
+    }
+    if (!state.lastRunAt) {
+        return new Date(0);
+    }
+
+    const slot = schedule.cron
+        ? nextCronRun(schedule.cron, state.lastRunAt)
+        : new Date(state.lastRunAt.getTime() + schedule.intervalMinutes! * 60 * 1000);
+
+    let due = slot.getTime() + jitterMs(schedule.venueId, slot, schedule.jitterSeconds);
+
+    if (state.consecutiveFailures > 0) {
+        const backoff = Math.min(
+            BACKOFF_BASE_MS * Math.pow(2, state.consecutiveFailures - 1),
+            BACKOFF_MAX_MS
+        );
+        due = Math.max(due, state.lastRunAt.getTime() + backoff);
+    }
+
+    return new Date(due);
+}
+
+/**
+ * Check whether a venue should be scraped now.
+ */
+export function isDue(schedule: VenueSchedule, state: VenueRunState, now: Date = new Date()): boolean {
+    const due = nextRunAt(schedule, state);
+    return due !== null && due <= now;
+}
+
+/**
+ * Count failed runs since the last success. Logs must be newest first.
+ */
+export function countConsecutiveFailures(logs: { status: string }[]): number {
+    let count = 0;
+    for (const log of logs) {
+        if (log.status === 'success') break;
+        if (log.status === 'error') count++;
+    }
+    return count;
+}
+
+/**
+ * Deterministic jitter for a venue's slot, so every scheduler tick agrees
+ * on the same due time while venues sharing a slot are still spread out.
+ */
+function jitterMs(venueId: string, slot: Date, jitterSeconds: number): number {
+    if (jitterSeconds <= 0) return 0;
+
+    const digest = createHash('md5').update(`${venueId}|${slot.toISOString()}`).digest();
+    return (digest.readUInt32BE(0) % (jitterSeconds * 1000));
+}
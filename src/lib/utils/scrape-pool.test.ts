@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { runScrapePool, venueTimeoutFor } from './scrape-pool';
+import type { VenueScraper, RawEvent } from './scraper-core';
+
+const staticVenue = (id: string, scrape: () => Promise<RawEvent[]>): VenueScraper => ({
+    id,
+    name: id,
+    url: `https://${id}.example.com/`,
+    enabled: true,
+    fetchMode: 'static',
+    scrape,
+});
+
+describe('runScrapePool', () => {
+    let fetchMock: Mock;
+
+    beforeEach(() => {
+        fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) =>
+            String(input).endsWith('/robots.txt')
+                ? new Response('', { status: 404 })
+                : new Response('<html></html>')
+        ) as Mock;
+    });
+
+    afterEach(() => {
+        fetchMock.mockRestore();
+    });
+
+    it('runs venues in parallel up to the concurrency limit', async () => {
+        let running = 0;
+        let peak = 0;
+        const slow = async (): Promise<RawEvent[]> => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise((resolve) => setTimeout(resolve, 30));
+            running--;
+            return [{ title: 'Show', dateRaw: 'January 12, 2024' }];
+        };
+
+        const venues = ['a', 'b', 'c', 'd', 'e'].map((id) => staticVenue(id, slow));
+        const handled: string[] = [];
+
+        const results = await runScrapePool(
+            venues,
+            { concurrency: 2, venueTimeoutMs: 1000, config: { delayMs: 0 } },
+            async (venue) => { handled.push(venue.id); }
+        );
+
+        expect(peak).toBe(2);
+        expect(results).toHaveLength(5);
+        expect(results.every((r) => r.status === 'success')).toBe(true);
+        expect(handled.sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    it('times out a hung venue without blocking the others', async () => {
+        const hung = staticVenue('hung', () => new Promise<RawEvent[]>(() => {}));
+        const ok = staticVenue('ok', async () => []);
+
+        const results = await runScrapePool(
+            [hung, ok],
+            { concurrency: 2, venueTimeoutMs: 50, config: { delayMs: 0 } }
+        );
+
+        const byId = Object.fromEntries(results.map((r) => [r.venueId, r]));
+        expect(byId.ok.status).toBe('success');
+        expect(byId.hung.status).toBe('error');
+        expect(byId.hung.errorMessage).toContain('Timed out');
+    });
+});
+
+describe('venueTimeoutFor', () => {
+    it('allows five minutes per month of the horizon', () => {
+        expect(venueTimeoutFor(90)).toBe(15 * 60 * 1000);
+        expect(venueTimeoutFor(0)).toBe(5 * 60 * 1000);
+    });
+});
@@ -0,0 +1,139 @@
+import type { Browser } from 'playwright';
+import { EthicalScraper, DEFAULT_CONFIG, getFetchMode, launchBrowser } from './scraper-core';
+import type { ScraperConfig, ScrapeResult, VenueScraper } from './scraper-core';
+import { CrawlPolicy } from './crawl-policy';
+
+/**
+ * Options for a concurrent scrape run.
+ */
+export interface ScrapePoolOptions {
+    concurrency: number;       // max venues scraped at once
+    venueTimeoutMs?: number;   // per-venue budget, including retries (default: venueTimeoutFor)
+    config?: Partial<ScraperConfig>;
+}
+
+/**
+ * Default pool options loaded from environment.
+ */
+export const DEFAULT_POOL_OPTIONS: ScrapePoolOptions = {
+    concurrency: parseInt(process.env.SCRAPER_CONCURRENCY || '3', 10),
+    venueTimeoutMs: process.env.SCRAPER_VENUE_TIMEOUT_MS ? parseInt(process.env.SCRAPER_VENUE_TIMEOUT_MS, 10) : undefined,
+};
+
+/**
+ * Per-venue budget for each month of the scrape horizon.
+ */
+const VENUE_TIMEOUT_PER_MONTH_MS = 5 * 60 * 1000;
+
+/**
+ * The default per-venue budget: month-grid calendars visit detail pages for
+ * every month up to the horizon, so a longer horizon needs longer.
+ */
+export function venueTimeoutFor(horizonDays: number): number {
+    return Math.max(1, Math.ceil(horizonDays / 30)) * VENUE_TIMEOUT_PER_MONTH_MS;
+}
+
+/**
+ * Called as soon as each venue finishes, in completion order.
+ */
+export type ScrapeResultHandler = (venue: VenueScraper, result: ScrapeResult) => Promise<void>;
+
+/**
+ * Scrape venues in parallel with a bounded number of workers.
+ *
+ * - All workers share one Chromium instance, but each gets its own browser context.
+ * - All workers share one CrawlPolicy, so rate limiting stays per host.
+ * - A venue that exceeds its timeout is reported as an error and its worker's
+ *   context is torn down, so a hung page can't block the rest of the run.
+ */
+export async function runScrapePool(
+    venues: VenueScraper[],
+    options: Partial<ScrapePoolOptions> = {},
+    onResult?: ScrapeResultHandler
+): Promise<ScrapeResult[]> {
+    const { concurrency, venueTimeoutMs, config } = { ...DEFAULT_POOL_OPTIONS, ...options };
+    const scraperConfig = { ...DEFAULT_CONFIG, ...config };
+    const timeoutMs = venueTimeoutMs ?? venueTimeoutFor(scraperConfig.horizonDays);
+    const policy = new CrawlPolicy(scraperConfig.userAgent, scraperConfig.delayMs);
+
+    // Only launch Chromium if some venue actually needs it
+    const browser: Browser | null = venues.some((v) => getFetchMode(v) === 'dynamic')
+        ? await launchBrowser()
+        : null;
+
+    const results: ScrapeResult[] = [];
+    const queue = [...venues];
+
+    const newScraper = async () => {
+        const scraper = new EthicalScraper(scraperConfig, policy);
+        if (browser) await scraper.init(browser);
+        return scraper;
+    };
+
+    const worker = async () => {
+        let scraper = await newScraper();
+
+        try {
+            for (let venue = queue.shift(); venue; venue = queue.shift()) {
+                const startTime = Date.now();
+                let result: ScrapeResult;
+
+                try {
+                    result = await withTimeout(scraper.runScraper(venue), timeoutMs);
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    console.error(`[${venue.name}] ${message}`);
+                    result = {
+                        venueId: venue.id,
+                        status: 'error',
+                        events: [],
+                        errorMessage: message,
+                        durationMs: Date.now() - startTime,
+                    };
+
+                    // Tear down the hung context and start the next venue fresh
+                    await scraper.close().catch(() => {});
+                    scraper = await newScraper();
+                }
+
+                results.push(result);
+
+                if (onResult) {
+                    try {
+                        await onResult(venue, result);
+                    } catch (error) {
+                        console.error(`[${venue.name}] Failed to handle result:`, error);
+                    }
+                }
+            }
+        } finally {
+            await scraper.close();
+        }
+    };
+
+    try {
+        const workerCount = Math.max(1, Math.min(concurrency, venues.length));
+        await Promise.all(Array.from({ length: workerCount }, worker));
+    } finally {
+        if (browser) await browser.close();
+    }
+
+    return results;
+}
+
+/**
+ * Reject if a promise doesn't settle within `ms`.
+ * The original promise keeps running; callers must clean up after it.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${Math.round(ms / 1000)}s`)), ms);
+    });
+
+    // Don't surface late rejections from the abandoned promise
+    promise.catch(() => {});
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
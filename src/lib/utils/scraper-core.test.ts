@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Mock } from 'vitest';
+import { EthicalScraper, parseHTML, resolveWebUrl } from './scraper-core';
+import type { VenueScraper, RawEvent } from './scraper-core';
+
+const CALENDAR_HTML = `
+    <ul class="events">
+        <li><a href="/e/1">Band X</a><time>January 12, 2024 8:00 PM</time></li>
+        <li><a href="/e/2">Comic Y</a><time>January 13, 2024 9:00 PM</time></li>
+    </ul>
+`;
+
+const StaticVenue: VenueScraper = {
+    id: 'static-venue',
+    name: 'Static Venue',
+    url: 'https://static.example.com/calendar',
+    enabled: true,
+    fetchMode: 'static',
+
+    async scrape(page, html): Promise<RawEvent[]> {
+        expect(page).toBeNull();
+        const $ = parseHTML(html!);
+        return $('li').toArray().map((li) => ({
+            title: $(li).find('a').text(),
+            dateRaw: $(li).find('time').text(),
+            url: $(li).find('a').attr('href'),
+        }));
+    },
+};
+
+/**
+ * Mock `fetch` by URL; each handler returns a fresh Response.
+ */
+function mockFetch(handlers: Record<string, () => Response>): Mock {
+    return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+        const handler = handlers[String(input)];
+        return handler ? handler() : new Response('Not Found', { status: 404 });
+    }) as Mock;
+}
+
+const calendarCalls = (mock: Mock) =>
+    mock.mock.calls.filter(([url]) => !String(url).endsWith('/robots.txt'));
+
+describe('EthicalScraper static mode', () => {
+    let fetchMock: Mock;
+
+    afterEach(() => {
+        fetchMock.mockRestore();
+    });
+
+    it('scrapes static venues over HTTP without a browser', async () => {
+        fetchMock = mockFetch({
+            'https://static.example.com/calendar': () => new Response(CALENDAR_HTML),
+        });
+
+        const scraper = new EthicalScraper({ delayMs: 0, userAgent: 'TestBot/1.0' });
+        const result = await scraper.runScraper(StaticVenue);
+
+        expect(result.status).toBe('success');
+        expect(result.events.map((e) => e.title)).toEqual(['Band X', 'Comic Y']);
+
+        const [url, init] = calendarCalls(fetchMock)[0];
+        expect(url).toBe('https://static.example.com/calendar');
+        expect(init.headers['User-Agent']).toBe('TestBot/1.0');
+    });
+
+    it('retries failed static fetches', async () => {
+        let attempts = 0;
+        fetchMock = mockFetch({
+            'https://static.example.com/calendar': () => ++attempts === 1
+                ? new Response('', { status: 503, statusText: 'Service Unavailable' })
+                : new Response(CALENDAR_HTML),
+        });
+
+        const scraper = new EthicalScraper({ delayMs: 0 });
+        const result = await scraper.runScraper(StaticVenue);
+
+        expect(calendarCalls(fetchMock)).toHaveLength(2);
+        expect(result.status).toBe('success');
+    });
+
+    it('skips venues disallowed by robots.txt without retrying', async () => {
+        fetchMock = mockFetch({
+            'https://static.example.com/robots.txt': () => new Response('User-agent: *\nDisallow: /calendar'),
+            'https://static.example.com/calendar': () => new Response(CALENDAR_HTML),
+        });
+
+        const scraper = new EthicalScraper({ delayMs: 0 });
+        const result = await scraper.runScraper(StaticVenue);
+
+        expect(result.status).toBe('skipped');
+        expect(result.errorMessage).toContain('robots.txt');
+        expect(calendarCalls(fetchMock)).toHaveLength(0);
+    });
+});
+
+describe('resolveWebUrl', () => {
+    it('resolves links against the page', () => {
+        expect(resolveWebUrl('/event/x', 'https://venue.example.com/events/')).toBe('https://venue.example.com/event/x');
+        expect(resolveWebUrl(' http://other.example.com/y ')).toBe('http://other.example.com/y');
+    });
+
+    it('drops malformed, relative-without-a-page and non-web links', () => {
+        expect(resolveWebUrl('http://[broken', 'https://venue.example.com/')).toBeUndefined();
+        expect(resolveWebUrl('/event/x')).toBeUndefined();
+        expect(resolveWebUrl('javascript:alert(1)', 'https://venue.example.com/')).toBeUndefined();
+        expect(resolveWebUrl('data:text/html,<script>1</script>', 'https://venue.example.com/')).toBeUndefined();
+    });
+});
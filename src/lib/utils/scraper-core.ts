@@ -1,7 +1,9 @@
 import { chromium } from 'playwright';
-import type { Browser, Page, BrowserContext } from 'playwright';
+import type { Browser, Page, BrowserContext, Route } from 'playwright';
 import * as cheerio from 'cheerio';
-import { createHash } from 'crypto';
+import { CrawlPolicy, RobotsDisallowedError } from './crawl-policy';
+import { DEFAULT_HORIZON_DAYS } from './calendar-months';
+import type { Performer } from '../../../db/config';
 
 /**
  * Configuration for the EthicalScraper.
@@ -11,6 +13,7 @@ export interface ScraperConfig {
     delayMs: number;
     maxRetries: number;
     timeout: number;
+    horizonDays: number;     // how far ahead month-by-month calendars are walked
 }
 
 /**
@@ -20,8 +23,68 @@ export interface RawEvent {
     title: string;
     dateRaw: string;
     url?: string;
+    externalId?: string;         // the venue's own ID for the event (platform APIs, iCalendar UID)
+    seriesKey?: string;          // shared by every date of a recurring event or run (e.g. iCalendar UID)
     priceRaw?: string;
-    doorsRaw?: string;
+    doorsRaw?: string;           // doors time, or text with doors and show times ("Doors 7 / Show 8")
+
+    // Listing details, when the venue shows them
+    performers?: Performer[];    // headliners first
+    description?: string;
+    imageUrl?: string;
+    ticketUrl?: string;          // where to buy, if not `url`
+    ageRestriction?: string;     // as written: "19+", "All Ages"
+    soldOut?: boolean;
+
+    // From structured data (JSON-LD, microdata), when the page has it
+    startDate?: string;          // ISO 8601; preferred over a single date in dateRaw
+    endDate?: string;            // ISO 8601
+    location?: string;
+    eventStatus?: StructuredEventStatus;
+}
+
+/**
+ * schema.org eventStatus, simplified.
+ */
+export type StructuredEventStatus = 'scheduled' | 'cancelled' | 'postponed' | 'rescheduled';
+
+/**
+ * How a venue's calendar page is fetched.
+ * - 'dynamic': Playwright (JavaScript-rendered sites)
+ * - 'static': plain HTTP + Cheerio (server-rendered sites, much lighter)
+ * - 'api': no calendar page; the scraper calls a JSON API or feed itself
+ *   through its ScrapeContext (see src/lib/platforms)
+ */
+export type FetchMode = 'dynamic' | 'static' | 'api';
+
+/**
+ * Helpers the scraper runner hands to venue scrapers.
+ */
+export interface ScrapeContext {
+    /**
+     * Fetch another page's HTML over plain HTTP (e.g. an event detail page),
+     * under the same crawl policy as the calendar page.
+     */
+    fetchHtml(url: string): Promise<string>;
+
+    /**
+     * Fetch and parse a JSON document (e.g. a platform's events API),
+     * under the same crawl policy.
+     */
+    fetchJson<T = unknown>(url: string): Promise<T>;
+
+    /**
+     * How many days ahead to scrape, for calendars that page through months
+     * or expand recurring events. Defaults to DEFAULT_HORIZON_DAYS.
+     */
+    horizonDays?: number;
+
+    /**
+     * When the scrape runs, for scrapers that start from today's month or
+     * count the horizon from it. Defaults to the current time; fixture
+     * replays pass the recording time.
+     */
+    now?: Date;
 }
 
 /**
@@ -32,14 +95,16 @@ export interface VenueScraper {
     name: string;            // display: 'Rickshaw Theatre'
     url: string;             // calendar URL
     enabled: boolean;
+    fetchMode?: FetchMode;   // defaults to 'dynamic'
 
     /**
      * Scrape events from the venue.
      * @param page - Playwright page (for dynamic sites) or null (for static sites)
      * @param html - Raw HTML (for static sites using Cheerio)
+     * @param context - Helpers for fetching further pages without a browser
      * @returns Array of raw events
      */
-    scrape(page: Page | null, html: string | null): Promise<RawEvent[]>;
+    scrape(page: Page | null, html: string | null, context?: ScrapeContext): Promise<RawEvent[]>;
 }
 
 /**
@@ -56,43 +121,65 @@ export interface ScrapeResult {
 /**
  * Default configuration loaded from environment.
  */
-const DEFAULT_CONFIG: ScraperConfig = {
+export const DEFAULT_CONFIG: ScraperConfig = {
     userAgent: process.env.SCRAPER_USER_AGENT ||
         'PaperBear/1.0 (Vancouver Community Events Bot; contact@paperbear.dev)',
     delayMs: parseInt(process.env.SCRAPER_DELAY_MS || '1500', 10),
     maxRetries: 3,
     timeout: 30000,
+    horizonDays: parseInt(process.env.SCRAPER_HORIZON_DAYS || String(DEFAULT_HORIZON_DAYS), 10),
 };
 
 /**
  * EthicalScraper - Core scraping infrastructure with built-in protections.
  * 
  * Features:
- * - Rate limiting (configurable delay between requests)
+ * - robots.txt compliance (including Crawl-delay)
+ * - Per-host rate limiting, covering navigations made by venue scrapers
  * - Custom User-Agent identification
  * - Exponential backoff on failure
  * - Graceful error handling
+ * - Static (HTTP + Cheerio), dynamic (Playwright) or API fetching per venue
  */
 export class EthicalScraper {
     private config: ScraperConfig;
     private browser: Browser | null = null;
     private context: BrowserContext | null = null;
-    private lastRequestTime = 0;
+    private ownsBrowser = false;
+    private policy: CrawlPolicy;
+    private readonly scrapeContext: ScrapeContext;
 
-    constructor(config: Partial<ScraperConfig> = {}) {
+    constructor(config: Partial<ScraperConfig> = {}, policy?: CrawlPolicy) {
         this.config = { ...DEFAULT_CONFIG, ...config };
+        this.policy = policy ?? new CrawlPolicy(this.config.userAgent, this.config.delayMs);
+        this.scrapeContext = {
+            fetchHtml: (url) => this.fetchStatic(url),
+            fetchJson: async <T>(url: string) => JSON.parse(await this.fetchStatic(url, 'application/json')) as T,
+            horizonDays: this.config.horizonDays,
+        };
     }
 
     /**
      * Initialize the browser (call once before scraping).
+     * Pass a shared browser to get an isolated context in it instead of launching one.
      */
-    async init(): Promise<void> {
-        this.browser = await chromium.launch({
-            headless: true,
-        });
+    async init(browser?: Browser): Promise<void> {
+        this.ownsBrowser = !browser;
+        this.browser = browser ?? await launchBrowser();
         this.context = await this.browser.newContext({
             userAgent: this.config.userAgent,
         });
+
+        // Every navigation, including detail pages opened by venue scrapers,
+        // goes through the crawl policy
+        await this.context.route('**/*', (route) => this.guardRoute(route));
+    }
+
+    /**
+     * The browser context venue pages are opened in (null before init()).
+     */
+    get browserContext(): BrowserContext | null {
+        return this.context;
     }
 
     /**
@@ -100,24 +187,28 @@ export class EthicalScraper {
      */
     async close(): Promise<void> {
         if (this.context) await this.context.close();
-        if (this.browser) await this.browser.close();
+        if (this.browser && this.ownsBrowser) await this.browser.close();
         this.browser = null;
         this.context = null;
     }
 
     /**
-     * Enforce rate limiting between requests.
+     * Apply the crawl policy to browser navigations; other requests pass through.
      */
-    private async rateLimit(): Promise<void> {
-        const now = Date.now();
-        const elapsed = now - this.lastRequestTime;
-        const remaining = this.config.delayMs - elapsed;
+    private async guardRoute(route: Route): Promise<void> {
+        const request = route.request();
+        if (!request.isNavigationRequest()) {
+            return route.continue();
+        }
 
-        if (remaining > 0) {
-            await new Promise((resolve) => setTimeout(resolve, remaining));
+        try {
+            await this.policy.acquire(request.url());
+        } catch (error) {
+            console.warn(`[EthicalScraper] Blocked navigation:`, error instanceof Error ? error.message : error);
+            return route.abort('blockedbyclient');
         }
 
-        this.lastRequestTime = Date.now();
+        return route.continue();
     }
 
     /**
@@ -128,7 +219,8 @@ export class EthicalScraper {
             throw new Error('EthicalScraper not initialized. Call init() first.');
         }
 
-        await this.rateLimit();
+        // Fail fast on disallowed URLs; pacing happens in guardRoute()
+        await this.policy.check(url);
 
         const page = await this.context.newPage();
         await page.goto(url, {
@@ -143,13 +235,15 @@ export class EthicalScraper {
     /**
      * Fetch a page with simple HTTP (for static sites, faster).
      */
-    async fetchStatic(url: string): Promise<string> {
-        await this.rateLimit();
+    async fetchStatic(url: string, accept: string = 'text/html,*/*'): Promise<string> {
+        await this.policy.acquire(url);
 
         const response = await fetch(url, {
             headers: {
                 'User-Agent': this.config.userAgent,
+                'Accept': accept,
             },
+            signal: AbortSignal.timeout(this.config.timeout),
         });
 
         if (!response.ok) {
@@ -180,25 +274,35 @@ export class EthicalScraper {
             try {
                 console.log(`[${venue.name}] Scraping attempt ${attempt}/${this.config.maxRetries}...`);
 
-                // Fetch the page
-                const { page, html } = await this.fetchDynamic(venue.url);
-
-                try {
-                    // Run the venue-specific scraper
-                    const events = await venue.scrape(page, html);
-
-                    console.log(`[${venue.name}] Found ${events.length} events`);
-
+                // Fetch the page and run the venue-specific scraper
+                const mode = getFetchMode(venue);
+                const events = mode === 'api'
+                    ? await venue.scrape(null, null, this.scrapeContext)
+                    : mode === 'static'
+                        ? await this.scrapeStatic(venue)
+                        : await this.scrapeDynamic(venue);
+
+                console.log(`[${venue.name}] Found ${events.length} events`);
+
+                return {
+                    venueId: venue.id,
+                    status: 'success',
+                    events,
+                    durationMs: Date.now() - startTime,
+                };
+            } catch (error) {
+                // robots.txt won't change between attempts, so don't retry
+                if (error instanceof RobotsDisallowedError) {
+                    console.warn(`[${venue.name}] ${error.message}`);
                     return {
                         venueId: venue.id,
-                        status: 'success',
-                        events,
+                        status: 'skipped',
+                        events: [],
+                        errorMessage: error.message,
                         durationMs: Date.now() - startTime,
                     };
-                } finally {
-                    await page.close();
                 }
-            } catch (error) {
+
                 lastError = error instanceof Error ? error : new Error(String(error));
                 console.error(`[${venue.name}] Attempt ${attempt} failed:`, lastError.message);
 
@@ -219,21 +323,43 @@ export class EthicalScraper {
             durationMs: Date.now() - startTime,
         };
     }
+
+    /**
+     * Scrape a JavaScript-rendered calendar in a fresh Playwright page.
+     */
+    private async scrapeDynamic(venue: VenueScraper): Promise<RawEvent[]> {
+        const { page, html } = await this.fetchDynamic(venue.url);
+
+        try {
+            return await venue.scrape(page, html, this.scrapeContext);
+        } finally {
+            await page.close();
+        }
+    }
+
+    /**
+     * Scrape a server-rendered calendar from its HTML (no browser needed).
+     */
+    private async scrapeStatic(venue: VenueScraper): Promise<RawEvent[]> {
+        const html = await this.fetchStatic(venue.url);
+        return venue.scrape(null, html, this.scrapeContext);
+    }
 }
 
 /**
- * Generate a deduplication hash for an event.
- * Uses MD5 of venueId + date + title (normalized).
+ * Launch a headless Chromium instance.
  */
-export function generateEventHash(
-    venueId: string,
-    date: Date,
-    title: string
-): string {
-    const normalizedTitle = title.toLowerCase().trim().replace(/\s+/g, ' ');
-    const dateStr = date.toISOString().split('T')[0]; // YYYY-MM-DD
-    const input = `${venueId}|${dateStr}|${normalizedTitle}`;
-    return createHash('md5').update(input).digest('hex');
+export function launchBrowser(): Promise<Browser> {
+    return chromium.launch({
+        headless: true,
+    });
+}
+
+/**
+ * Get a venue's fetch mode, applying the default.
+ */
+export function getFetchMode(venue: VenueScraper): FetchMode {
+    return venue.fetchMode ?? 'dynamic';
 }
 
 /**
@@ -242,3 +368,16 @@ export function generateEventHash(
 export function parseHTML(html: string): cheerio.CheerioAPI {
     return cheerio.load(html);
 }
+
+/**
+ * Resolve a scraped link against the page it's on. Only http(s) links are
+ * kept: a malformed href, or a `javascript:` or `data:` one, gives undefined.
+ */
+export function resolveWebUrl(href: string, pageUrl?: string): string | undefined {
+    try {
+        const url = new URL(href.trim(), pageUrl);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { extractStructuredEvent, extractStructuredEvents, withStructuredData } from './structured-data';
+
+const jsonLd = (data: unknown) => `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+
+const SQUARESPACE_EVENT = `
+    <html><head>
+        <meta property="og:title" content="Band X — Fox Cabaret">
+        <meta property="og:image" content="https://images.example.com/band-x.jpg">
+        ${jsonLd({ '@context': 'https://schema.org', '@type': 'WebSite', name: 'Fox Cabaret' })}
+        ${jsonLd({
+            '@context': 'https://schema.org',
+            '@type': 'MusicEvent',
+            name: 'Band X',
+            startDate: '2024-01-12T20:00:00-08:00',
+            eventStatus: 'https://schema.org/EventScheduled',
+            location: { '@type': 'Place', name: 'Fox Cabaret', address: '2321 Main St' },
+            performer: [{ '@type': 'MusicGroup', name: 'Band X' }, { '@type': 'Person', name: 'Opener Y' }],
+            offers: [
+                { '@type': 'Offer', price: '25.00', priceCurrency: 'CAD' },
+                { '@type': 'Offer', price: 18.5, priceCurrency: 'CAD' },
+            ],
+        })}
+    </head><body><p>Doors 7pm · $30 at the door</p></body></html>
+`;
+
+describe('extractStructuredEvent', () => {
+    it('reads a schema.org Event from JSON-LD', () => {
+        expect(extractStructuredEvent(SQUARESPACE_EVENT)).toEqual({
+            name: 'Band X',
+            startDate: '2024-01-12T20:00:00-08:00',
+            url: undefined,
+            priceRaw: '$18.50 / $25',
+            performers: ['Band X', 'Opener Y'],
+            location: 'Fox Cabaret',
+            imageUrl: 'https://images.example.com/band-x.jpg',
+            eventStatus: 'scheduled',
+        });
+    });
+
+    it('finds events inside @graph and maps cancellations and free entry', () => {
+        const html = jsonLd({
+            '@graph': [
+                { '@type': 'Organization', name: 'Venue' },
+                {
+                    '@type': ['Event', 'ComedyEvent'],
+                    name: 'Comic Y',
+                    startDate: '2024-01-13T21:00',
+                    eventStatus: 'EventCancelled',
+                    isAccessibleForFree: true,
+                    image: { '@type': 'ImageObject', url: '/img/comic.png' },
+                },
+            ],
+        });
+
+        const event = extractStructuredEvent(html, 'https://venue.example.com/events/comic-y');
+
+        expect(event).toMatchObject({
+            name: 'Comic Y',
+            eventStatus: 'cancelled',
+            priceRaw: 'Free',
+            imageUrl: 'https://venue.example.com/img/comic.png',
+        });
+    });
+
+    it('reads microdata', () => {
+        const html = `
+            <div itemscope itemtype="https://schema.org/TheaterEvent">
+                <h1 itemprop="name">Play Z</h1>
+                <time itemprop="startDate" datetime="2024-02-01T19:30">Feb 1</time>
+                <div itemprop="location" itemscope itemtype="https://schema.org/Place">
+                    <span itemprop="name">Rio Theatre</span>
+                </div>
+                <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+                    <meta itemprop="price" content="12">
+                </div>
+                <link itemprop="eventStatus" href="https://schema.org/EventPostponed">
+            </div>
+        `;
+
+        expect(extractStructuredEvent(html)).toMatchObject({
+            name: 'Play Z',
+            startDate: '2024-02-01T19:30',
+            location: 'Rio Theatre',
+            priceRaw: '$12',
+            eventStatus: 'postponed',
+        });
+    });
+
+    it('lists every offer with its name and currency', () => {
+        const html = jsonLd({
+            '@type': 'Event',
+            name: 'Band X',
+            offers: [
+                { '@type': 'Offer', name: 'Door', price: '20.00', priceCurrency: 'CAD' },
+                { '@type': 'Offer', name: 'Advance', price: '15.00', priceCurrency: 'CAD' },
+                { '@type': 'Offer', name: 'Members', price: 0 },
+                { '@type': 'AggregateOffer', name: 'VIP / Meet, greet', lowPrice: 40, highPrice: 60, priceCurrency: 'usd' },
+            ],
+        });
+
+        expect(extractStructuredEvent(html)?.priceRaw).toBe('$0 Members / $15 Advance / $20 Door / US$40-US$60 VIP Meet greet');
+    });
+
+    it('keeps only web links', () => {
+        const html = jsonLd({ '@type': 'Event', name: 'Band X', url: 'javascript:alert(1)', image: 'data:image/png;base64,AAAA' });
+
+        expect(extractStructuredEvent(html, 'https://venue.example.com/')).toMatchObject({ url: undefined, imageUrl: undefined });
+    });
+
+    it('ignores broken JSON-LD and pages without events', () => {
+        expect(extractStructuredEvent('<script type="application/ld+json">{ nope</script>')).toBeNull();
+        expect(extractStructuredEvent('<meta property="og:title" content="Just a page">')).toBeNull();
+        expect(extractStructuredEvent('')).toBeNull();
+    });
+
+    it('lists every event on a page', () => {
+        const html = jsonLd([
+            { '@type': 'Event', name: 'A' },
+            { '@type': 'Event', name: 'B' },
+        ]);
+        expect(extractStructuredEvents(html).map((e) => e.name)).toEqual(['A', 'B']);
+    });
+});
+
+describe('withStructuredData', () => {
+    it('prefers structured values but keeps the scraped title and url', () => {
+        const scraped = { title: 'BAND X!!', dateRaw: 'Jan 12 8pm', url: '/band-x', priceRaw: '$30', doorsRaw: '7pm' };
+        const merged = withStructuredData(scraped, extractStructuredEvent(SQUARESPACE_EVENT));
+
+        expect(merged).toMatchObject({
+            title: 'BAND X!!',
+            url: '/band-x',
+            dateRaw: 'Jan 12 8pm',
+            doorsRaw: '7pm',
+            startDate: '2024-01-12T20:00:00-08:00',
+            // The listing's price line, not JSON-LD's
+            priceRaw: '$30',
+        });
+
+        const unpriced = { title: 'BAND X!!', dateRaw: 'Jan 12 8pm' };
+        expect(withStructuredData(unpriced, extractStructuredEvent(SQUARESPACE_EVENT)).priceRaw).toBe('$18.50 / $25');
+    });
+
+    it('maps performers to headliner and support, unless the listing already has them', () => {
+        const data = extractStructuredEvent(SQUARESPACE_EVENT);
+
+        expect(withStructuredData({ title: 'Band X', dateRaw: '' }, data).performers).toEqual([
+            { name: 'Band X', role: 'headliner' },
+            { name: 'Opener Y', role: 'support' },
+        ]);
+
+        const listed = [{ name: 'Band X', role: 'headliner' as const }];
+        expect(withStructuredData({ title: 'Band X', dateRaw: '', performers: listed }, data).performers).toBe(listed);
+    });
+
+    it('reads descriptions and sold-out offers', () => {
+        const html = jsonLd({
+            '@type': 'Event',
+            name: 'Sold Out Show',
+            startDate: '2024-01-12T20:00',
+            description: 'An evening of songs.',
+            offers: [
+                { '@type': 'Offer', price: 20, availability: 'https://schema.org/SoldOut' },
+                { '@type': 'Offer', price: 30, availability: 'SoldOut' },
+            ],
+        });
+
+        const merged = withStructuredData({ title: 'Sold Out Show', dateRaw: '' }, extractStructuredEvent(html));
+        expect(merged).toMatchObject({ description: 'An evening of songs.', soldOut: true });
+
+        const onSale = html.replace('"SoldOut"', '"InStock"');
+        expect(extractStructuredEvent(onSale)?.soldOut).toBe(false);
+    });
+
+    it('leaves events alone when there is no structured data', () => {
+        const scraped = { title: 'Band X', dateRaw: 'Jan 12 8pm', priceRaw: '$30' };
+        expect(withStructuredData(scraped, null)).toBe(scraped);
+    });
+});
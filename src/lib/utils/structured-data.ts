@@ -0,0 +1,274 @@
+import type { CheerioAPI } from 'cheerio';
+import { parseHTML, resolveWebUrl } from './scraper-core';
+import type { RawEvent, StructuredEventStatus } from './scraper-core';
+
+/**
+ * Structured event data embedded in a page: schema.org JSON-LD and
+ * microdata, with Open Graph tags filling any gaps.
+ *
+ * Venue scrapers should prefer these values over regexing page text, since
+ * they're what the site publishes for search engines and are rarely wrong.
+ */
+export interface StructuredEvent {
+    name?: string;
+    startDate?: string;          // ISO 8601, as published
+    endDate?: string;
+    url?: string;
+    description?: string;
+    priceRaw?: string;           // "$15 Advance / $20 Door" / "Free", ready for parsePrice
+    soldOut?: boolean;           // every offer is SoldOut
+    performers: string[];        // in page order; the first is taken as the headliner
+    location?: string;
+    imageUrl?: string;
+    eventStatus?: StructuredEventStatus;
+}
+
+const STATUS_MAP: Record<string, StructuredEventStatus> = {
+    EventScheduled: 'scheduled',
+    EventCancelled: 'cancelled',
+    EventPostponed: 'postponed',
+    EventRescheduled: 'rescheduled',
+    EventMovedOnline: 'scheduled',
+};
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Every schema.org Event on the page (JSON-LD first, then microdata).
+ */
+export function extractStructuredEvents(html: string, pageUrl?: string): StructuredEvent[] {
+    const $ = parseHTML(html);
+    const events = [...fromJsonLd($), ...fromMicrodata($)];
+
+    return events.map((event) => resolveUrls(event, pageUrl));
+}
+
+/**
+ * The page's main event, with Open Graph tags filling in name, url and image.
+ * Returns null if the page has no Event markup.
+ */
+export function extractStructuredEvent(html: string, pageUrl?: string): StructuredEvent | null {
+    if (!html) return null;
+
+    const [event] = extractStructuredEvents(html, pageUrl);
+    if (!event) return null;
+
+    const $ = parseHTML(html);
+    const og = (property: string) => $(`meta[property="og:${property}"]`).attr('content')?.trim() || undefined;
+
+    return resolveUrls({
+        ...event,
+        name: event.name ?? og('title'),
+        url: event.url ?? og('url'),
+        description: event.description ?? og('description'),
+        imageUrl: event.imageUrl ?? og('image'),
+    }, pageUrl);
+}
+
+/**
+ * Merge structured data into a scraped event. Structured values win over
+ * text heuristics; the scraped title and URL are kept, since they're what
+ * the calendar lists, and so are a listing's own performers, description
+ * and price text, which say more than the usual JSON-LD summary.
+ */
+export function withStructuredData(event: RawEvent, data: StructuredEvent | null): RawEvent {
+    if (!data) return event;
+
+    const performers = event.performers?.length
+        ? event.performers
+        : data.performers.map((name, i) => ({ name, role: i === 0 ? 'headliner' as const : 'support' as const }));
+
+    return {
+        ...event,
+        startDate: data.startDate ?? event.startDate,
+        endDate: data.endDate ?? event.endDate,
+        // The listing's own price line keeps tiers and fee notes JSON-LD leaves out
+        priceRaw: event.priceRaw ?? data.priceRaw,
+        soldOut: data.soldOut || event.soldOut,
+        performers: performers.length > 0 ? performers : undefined,
+        description: event.description ?? data.description,
+        location: data.location ?? event.location,
+        imageUrl: data.imageUrl ?? event.imageUrl,
+        eventStatus: data.eventStatus ?? event.eventStatus,
+    };
+}
+
+function fromJsonLd($: CheerioAPI): StructuredEvent[] {
+    const events: StructuredEvent[] = [];
+
+    for (const script of $('script[type="application/ld+json"]').toArray()) {
+        let data: unknown;
+        try {
+            data = JSON.parse($(script).text());
+        } catch {
+            continue; // Broken JSON-LD is common; ignore it
+        }
+
+        for (const node of flattenGraph(data)) {
+            if (isEventType(node['@type'])) {
+                events.push(fromSchemaObject(node));
+            }
+        }
+    }
+
+    return events;
+}
+
+/**
+ * Top-level arrays and @graph containers hold several nodes.
+ */
+function flattenGraph(data: unknown): JsonObject[] {
+    if (Array.isArray(data)) return data.flatMap(flattenGraph);
+    if (!isObject(data)) return [];
+    if (Array.isArray(data['@graph'])) return data['@graph'].flatMap(flattenGraph);
+    return [data];
+}
+
+function fromSchemaObject(node: JsonObject): StructuredEvent {
+    return {
+        name: text(node.name),
+        startDate: text(node.startDate),
+        endDate: text(node.endDate),
+        url: text(node.url),
+        description: text(node.description),
+        priceRaw: priceFromOffers(node.offers, node.isAccessibleForFree),
+        soldOut: soldOutFromOffers(toArray(node.offers).map((offer) => isObject(offer) ? text(offer.availability) : undefined)),
+        performers: toArray(node.performer).map(nameOf).filter((n): n is string => !!n),
+        location: toArray(node.location).map(nameOf).find(Boolean),
+        imageUrl: toArray(node.image).map((image) => isObject(image) ? text(image.url) : text(image)).find(Boolean),
+        eventStatus: statusOf(text(node.eventStatus)),
+    };
+}
+
+function fromMicrodata($: CheerioAPI): StructuredEvent[] {
+    return $('[itemscope][itemtype]').toArray()
+        .filter((element) => isEventType(schemaType($(element).attr('itemtype'))))
+        .map((element) => {
+            const scope = $(element);
+
+            // Properties of this item, not of items nested in it
+            const props = (name: string) => scope.find(`[itemprop="${name}"]`)
+                .filter((_, prop) => $(prop).parents('[itemscope]').get(0) === element);
+            const value = (name: string) => {
+                const prop = props(name).first();
+                if (prop.length === 0) return undefined;
+                return text(prop.attr('content') ?? prop.attr('datetime') ?? prop.attr('href') ?? prop.attr('src') ?? prop.text());
+            };
+            const nestedName = (name: string) => props(name).toArray()
+                .map((prop) => text($(prop).is('[itemscope]') ? $(prop).find('[itemprop="name"]').first().text() : $(prop).text()))
+                .filter((n): n is string => !!n);
+
+            const offer = props('offers').first();
+            const price = offer.length > 0
+                ? text(offer.find('[itemprop="price"]').attr('content') ?? offer.find('[itemprop="price"]').text())
+                : undefined;
+            const availability = props('offers').toArray().map((element) => {
+                const prop = $(element).find('[itemprop="availability"]').first();
+                return text(prop.attr('href') ?? prop.attr('content') ?? prop.text());
+            });
+
+            return {
+                name: value('name'),
+                startDate: value('startDate'),
+                endDate: value('endDate'),
+                url: value('url'),
+                description: value('description'),
+                priceRaw: priceFromOffers(price === undefined ? undefined : { price }, undefined),
+                soldOut: soldOutFromOffers(availability),
+                performers: nestedName('performer'),
+                location: nestedName('location')[0],
+                imageUrl: value('image'),
+                eventStatus: statusOf(value('eventStatus')),
+            };
+        });
+}
+
+/**
+ * Every offer as price text for the price parser, cheapest first:
+ * "$15 Advance / $20 Door", "US$25-US$40", or "Free".
+ */
+function priceFromOffers(offers: unknown, isAccessibleForFree: unknown): string | undefined {
+    if (isAccessibleForFree === true || isAccessibleForFree === 'True' || isAccessibleForFree === 'true') {
+        return 'Free';
+    }
+
+    const tiers = toArray(offers).filter(isObject).flatMap((offer) => {
+        const low = amountOf(offer.lowPrice ?? offer.price);
+        if (low === null) return [];
+
+        const high = amountOf(offer.highPrice);
+        const currency = text(offer.priceCurrency)?.toUpperCase();
+        // Separators in a name would split it into tiers of its own
+        const name = text(offer.name)?.replace(/[/|,;$]/g, ' ').replace(/\s+/g, ' ').trim();
+        return [{ low, high: high !== null && high > low ? high : null, currency, name }];
+    }).sort((a, b) => a.low - b.low);
+
+    if (tiers.length === 0) return undefined;
+    if (tiers.every((t) => t.low === 0 && t.high === null && !t.name)) return 'Free';
+
+    return tiers.map((t) => [
+        t.high === null ? money(t.low, t.currency) : `${money(t.low, t.currency)}-${money(t.high, t.currency)}`,
+        t.name,
+    ].filter(Boolean).join(' ')).join(' / ');
+}
+
+function amountOf(price: unknown): number | null {
+    const amount = typeof price === 'number' ? price : parseFloat(String(price ?? '').replace(/[^\d.]/g, ''));
+    return Number.isFinite(amount) ? amount : null;
+}
+
+function money(amount: number, currency: string | undefined): string {
+    return `${currency === 'USD' ? 'US$' : '$'}${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+}
+
+/**
+ * True when every offer with an availability says SoldOut.
+ */
+function soldOutFromOffers(availability: (string | undefined)[]): boolean | undefined {
+    const known = availability.filter((a): a is string => !!a).map(schemaType);
+    if (known.length === 0) return undefined;
+    return known.every((a) => a === 'SoldOut');
+}
+
+function statusOf(value: string | undefined): StructuredEventStatus | undefined {
+    if (!value) return undefined;
+    return STATUS_MAP[value.split('/').pop()!];
+}
+
+function isEventType(type: unknown): boolean {
+    return toArray(type).some((t) => typeof t === 'string' && /Event$|^Festival$/.test(schemaType(t) ?? ''));
+}
+
+/**
+ * "https://schema.org/MusicEvent" -> "MusicEvent"
+ */
+function schemaType(value: string | undefined): string | undefined {
+    return value?.trim().split(/[/#]/).pop();
+}
+
+function nameOf(value: unknown): string | undefined {
+    return isObject(value) ? text(value.name) : text(value);
+}
+
+function text(value: unknown): string | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+    const trimmed = String(value).replace(/\s+/g, ' ').trim();
+    return trimmed || undefined;
+}
+
+function toArray(value: unknown): unknown[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+function isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Absolute http(s) links only; relative ones need the page's URL.
+ */
+function resolveUrls(event: StructuredEvent, pageUrl?: string): StructuredEvent {
+    const resolve = (url?: string) => url && resolveWebUrl(url, pageUrl);
+    return { ...event, url: resolve(event.url), imageUrl: resolve(event.imageUrl) };
+}
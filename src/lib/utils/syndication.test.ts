@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { renderRss, renderAtom, renderJsonFeed, escapeXml } from './syndication';
+import type { FeedItem, FeedMeta } from './syndication';
+
+const meta: FeedMeta = {
+    title: 'Paper Bear',
+    description: 'New events',
+    siteUrl: 'https://paperbear.dev/',
+    feedUrl: 'https://paperbear.dev/feeds/new.rss',
+    updated: new Date('2024-01-10T12:00:00Z'),
+};
+
+const item: FeedItem = {
+    id: 'urn:paperbear:event:1',
+    title: 'Rock & Roll <Night>',
+    url: 'https://rickshawtheatre.com/event/rock',
+    summary: 'Fri, Jan 12 @ 8:00 PM · Rickshaw Theatre',
+    published: new Date('2024-01-10T12:00:00Z'),
+    updated: new Date('2024-01-10T12:00:00Z'),
+    tags: ['music'],
+};
+
+describe('syndication', () => {
+    it('renders escaped RSS items', () => {
+        const rss = renderRss(meta, [item]);
+        expect(rss).toContain('<title>Rock &amp; Roll &lt;Night&gt;</title>');
+        expect(rss).toContain('<pubDate>Wed, 10 Jan 2024 12:00:00 GMT</pubDate>');
+        expect(rss).toContain('<category>music</category>');
+    });
+
+    it('renders Atom entries with ISO dates', () => {
+        const atom = renderAtom(meta, [item]);
+        expect(atom).toContain('<id>urn:paperbear:event:1</id>');
+        expect(atom).toContain('<updated>2024-01-10T12:00:00.000Z</updated>');
+    });
+
+    it('renders JSON Feed 1.1', () => {
+        const feed = JSON.parse(renderJsonFeed(meta, [item]));
+        expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+        expect(feed.items[0]).toMatchObject({
+            id: 'urn:paperbear:event:1',
+            title: 'Rock & Roll <Night>',
+            date_published: '2024-01-10T12:00:00.000Z',
+        });
+    });
+
+    it('escapes quotes for attributes', () => {
+        expect(escapeXml(`"it's"`)).toBe('&quot;it&apos;s&quot;');
+    });
+});
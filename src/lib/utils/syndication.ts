@@ -0,0 +1,111 @@
+/**
+ * RSS 2.0, Atom 1.0 and JSON Feed 1.1 rendering.
+ * All three take the same feed description and items.
+ */
+
+export interface FeedMeta {
+    title: string;
+    description: string;
+    siteUrl: string;     // HTML page the feed describes
+    feedUrl: string;     // URL of this feed document
+    updated: Date;
+}
+
+export interface FeedItem {
+    id: string;          // stable, globally unique
+    title: string;
+    url: string;
+    summary: string;     // plain text
+    published: Date;
+    updated: Date;
+    tags: string[];
+}
+
+/**
+ * Render an RSS 2.0 channel.
+ */
+export function renderRss(meta: FeedMeta, items: FeedItem[]): string {
+    const entries = items.map((item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="false">${escapeXml(item.id)}</guid>
+      <pubDate>${item.published.toUTCString()}</pubDate>
+      <description>${escapeXml(item.summary)}</description>
+${item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`).join('\n')}
+    </item>`);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(meta.title)}</title>
+    <link>${escapeXml(meta.siteUrl)}</link>
+    <description>${escapeXml(meta.description)}</description>
+    <atom:link href="${escapeXml(meta.feedUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${meta.updated.toUTCString()}</lastBuildDate>
+${entries.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+/**
+ * Render an Atom 1.0 feed.
+ */
+export function renderAtom(meta: FeedMeta, items: FeedItem[]): string {
+    const entries = items.map((item) => `  <entry>
+    <id>${escapeXml(item.id)}</id>
+    <title>${escapeXml(item.title)}</title>
+    <link href="${escapeXml(item.url)}" />
+    <published>${item.published.toISOString()}</published>
+    <updated>${item.updated.toISOString()}</updated>
+    <summary>${escapeXml(item.summary)}</summary>
+${item.tags.map((tag) => `    <category term="${escapeXml(tag)}" />`).join('\n')}
+  </entry>`);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(meta.feedUrl)}</id>
+  <title>${escapeXml(meta.title)}</title>
+  <subtitle>${escapeXml(meta.description)}</subtitle>
+  <link href="${escapeXml(meta.siteUrl)}" />
+  <link href="${escapeXml(meta.feedUrl)}" rel="self" />
+  <updated>${meta.updated.toISOString()}</updated>
+  <author><name>Paper Bear</name></author>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+/**
+ * Render a JSON Feed 1.1 document.
+ */
+export function renderJsonFeed(meta: FeedMeta, items: FeedItem[]): string {
+    return JSON.stringify({
+        version: 'https://jsonfeed.org/version/1.1',
+        title: meta.title,
+        description: meta.description,
+        home_page_url: meta.siteUrl,
+        feed_url: meta.feedUrl,
+        items: items.map((item) => ({
+            id: item.id,
+            url: item.url,
+            title: item.title,
+            content_text: item.summary,
+            date_published: item.published.toISOString(),
+            date_modified: item.updated.toISOString(),
+            tags: item.tags,
+        })),
+    }, null, 2);
+}
+
+/**
+ * Escape text for XML element content and attribute values.
+ */
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
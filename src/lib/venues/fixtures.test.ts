@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { existsSync } from 'fs';
+import { chromium } from 'playwright';
+import type { Browser } from 'playwright';
+import { venues } from '../../config/venues';
+import { Fixture, fixtureDir, replayScrape } from '../utils/fixtures';
+import { getFetchMode } from '../utils/scraper-core';
+
+/**
+ * Replays every recorded venue fixture (see scripts/record-fixtures.ts)
+ * and checks the scraper still produces the events captured with it.
+ * Dynamic venues fail without Chromium rather than pass unchecked.
+ */
+const recorded = venues.filter((venue) => existsSync(fixtureDir(venue.id)));
+const hasChromium = existsSync(chromium.executablePath());
+
+describe('venue scrapers against recorded fixtures', () => {
+    let browser: Browser | undefined;
+
+    beforeAll(async () => {
+        if (hasChromium && recorded.some((v) => getFetchMode(v) === 'dynamic')) {
+            browser = await chromium.launch({ headless: true });
+        }
+    });
+
+    afterAll(async () => {
+        await browser?.close();
+    });
+
+    for (const venue of recorded) {
+        const needsBrowser = getFetchMode(venue) === 'dynamic';
+
+        it(venue.name, async () => {
+            if (needsBrowser && !hasChromium) {
+                throw new Error(`${venue.name} replays in Chromium, which isn't installed (npx playwright install chromium)`);
+            }
+
+            const fixture = await Fixture.load(fixtureDir(venue.id));
+            expect(await replayScrape(venue, fixture, browser)).toEqual(fixture.expected);
+        }, 120_000);
+    }
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { FoxCabaret } from './fox';
 import type { Page } from 'playwright';
+import { fromZonedTime } from 'date-fns-tz';
+import type { ScrapeContext } from '../utils/scraper-core';
+import { addMonths, monthOf } from '../utils/calendar-months';
 
 // Mock Playwright Page
 const mockPage = {
@@ -8,8 +11,23 @@ const mockPage = {
     waitForTimeout: vi.fn(),
     evaluate: vi.fn(),
     goto: vi.fn(),
+    content: vi.fn(),
+    locator: vi.fn(),
+    waitForFunction: vi.fn(),
 } as unknown as Page;
 
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+    'August', 'September', 'October', 'November', 'December'];
+
+// The calendar opens on the current month, and the walk stops at the horizon
+const thisMonth = monthOf(new Date());
+const nextMonth = addMonths(thisMonth, 1);
+const label = ({ year, month }: { year: number; month: number }) => `${MONTH_NAMES[month - 1]} ${year}`;
+
+function context(horizonDays: number): ScrapeContext {
+    return { fetchHtml: vi.fn(), fetchJson: vi.fn(), horizonDays };
+}
+
 describe('FoxCabaret Scraper', () => {
     beforeEach(() => {
         vi.resetAllMocks();
@@ -17,7 +35,7 @@ describe('FoxCabaret Scraper', () => {
 
     it('should deduplicate events that appear twice (list items and flyouts)', async () => {
         // Mock 1: Month/Year header
-        const mockMonthYear = 'January 2026';
+        const mockMonthYear = label(thisMonth);
 
         // Mock 2: Calendar scraping (simulating duplicates)
         // Squarespace often has duplicate nodes for the same event in the DOM
@@ -39,10 +57,40 @@ describe('FoxCabaret Scraper', () => {
             .mockResolvedValueOnce(mockCalendarEvents) // 2. Calendar grid
             .mockResolvedValue(mockDetails);           // 3. Detail pages (repeated)
 
-        const events = await FoxCabaret.scrape(mockPage);
+        const events = await FoxCabaret.scrape(mockPage, null, context(0));
 
         // Expectation: Duplicates should be removed
         expect(events).toHaveLength(2); // Should be 2, currently will be 3 (FAIL)
         expect(events.map(e => e.title)).toEqual(['Duplicate Event', 'Unique Event']);
     });
+
+    it('walks forward month by month until the horizon, with the right year on each grid', async () => {
+        const nextMonthStart = fromZonedTime(
+            `${nextMonth.year}-${String(nextMonth.month).padStart(2, '0')}-01T00:00:00`,
+            'America/Vancouver'
+        );
+        // Reaches into next month, but not the one after
+        const horizonDays = Math.ceil((nextMonthStart.getTime() - Date.now()) / 86_400_000);
+
+        const nextControl = { count: vi.fn().mockResolvedValue(1), click: vi.fn() };
+        (mockPage.locator as any).mockReturnValue({ first: () => nextControl });
+
+        (mockPage.evaluate as any)
+            .mockResolvedValueOnce(label(thisMonth))
+            .mockResolvedValueOnce([{ title: 'This Month', time: '8:00 PM', dayNum: '3', href: '/event-1' }])
+            .mockResolvedValueOnce(label(nextMonth))
+            .mockResolvedValueOnce([
+                { title: 'Next Month', time: '9:00 PM', dayNum: '14', href: '/event-2' },
+                { title: 'This Month', time: '8:00 PM', dayNum: '3', href: '/event-1' }, // multi-month listing
+            ])
+            .mockResolvedValue({ dateRaw: '', priceRaw: undefined, doorsRaw: undefined });
+
+        const events = await FoxCabaret.scrape(mockPage, null, context(horizonDays));
+
+        expect(nextControl.click).toHaveBeenCalledTimes(1);
+        expect(events.map((e) => [e.title, e.dateRaw])).toEqual([
+            ['This Month', `${MONTH_NAMES[thisMonth.month - 1]} 3, ${thisMonth.year} 8:00 PM`],
+            ['Next Month', `${MONTH_NAMES[nextMonth.month - 1]} 14, ${nextMonth.year} 9:00 PM`],
+        ]);
+    });
 });
@@ -1,5 +1,15 @@
 import type { Page } from 'playwright';
-import type { VenueScraper, RawEvent } from '../utils/scraper-core';
+import type { VenueScraper, RawEvent, ScrapeContext } from '../utils/scraper-core';
+import { extractStructuredEvent, withStructuredData } from '../utils/structured-data';
+import {
+    MAX_CALENDAR_MONTHS,
+    MAX_DETAIL_PAGES,
+    addMonths,
+    calendarDateRaw,
+    horizonEnd,
+    monthStartsAfter,
+    parseMonthLabel,
+} from '../utils/calendar-months';
 
 /**
  * Fox Cabaret Scraper
@@ -15,15 +25,21 @@ import type { VenueScraper, RawEvent } from '../utils/scraper-core';
  * - Title: .item-title
  * - Time: .item-time--12hr (e.g., "10:30 PM")
  * - Month/Year: table.yui3-calendar-grid[aria-label] (e.g., "January 2026")
+ * - Next month: .yui3-calendarnav-nextmonth (re-renders the grid in place)
  * 
  * Detail Page Structure:
  * - URL pattern: /monthly-calendar-list/[year]/[event-slug]
  * - Title: h1.eventitem-title
  * - Date: time.event-date (datetime attr = "2025-12-31")
  * - Time: time.event-time-12hr
- * - Description: article.eventitem (body text contains doors/price)
+ * - Description: article.eventitem (body text contains doors/price/ages),
+ *   .eventitem-column-content for the write-up
+ * - Image: meta[property="og:image"]
+ * - JSON-LD: schema.org Event (startDate, offers, location), preferred when present
  * 
  * Notes:
+ * - Months are walked forward until the scrape horizon is covered, then
+ *   detail pages visited by URL (at most MAX_DETAIL_PAGES)
  * - Price often in Eventbrite iframe or body text
  * - Doors time usually in description ("Doors 7:00pm")
  */
@@ -34,7 +50,7 @@ export const FoxCabaret: VenueScraper = {
     url: 'https://www.foxcabaret.com/monthly-calendar',
     enabled: true,
 
-    async scrape(page: Page | null): Promise<RawEvent[]> {
+    async scrape(page: Page | null, _html: string | null, context?: ScrapeContext): Promise<RawEvent[]> {
         if (!page) {
             throw new Error('Fox Cabaret requires Playwright (dynamic scraping)');
         }
@@ -43,48 +59,35 @@ export const FoxCabaret: VenueScraper = {
         await page.waitForSelector('.sqs-block-calendar', { timeout: 15000 });
         await page.waitForTimeout(1500); // Allow JS to hydrate
 
-        // Get current month/year from calendar header
-        const monthYear = await page.evaluate(() => {
-            const table = document.querySelector('table.yui3-calendar-grid');
-            return table?.getAttribute('aria-label') || '';
-        });
-        console.log(`   📅 Scanning calendar: ${monthYear}`);
-
-        // Extract all events from calendar grid
-        const calendarEvents = await page.evaluate(() => {
-            const items: {
-                title: string;
-                time: string;
-                dayNum: string;
-                href: string;
-            }[] = [];
-            const seenHrefs = new Set<string>();
-
-            const dayCells = document.querySelectorAll('td.yui3-calendar-day');
-            dayCells.forEach((cell) => {
-                const dayNum = cell.getAttribute('data-pnum') || '';
-                const events = cell.querySelectorAll('li.item');
-
-                events.forEach((event) => {
-                    const link = event.querySelector('a.item-link') as HTMLAnchorElement;
-                    if (!link) return;
-
-                    const title = link.querySelector('.item-title')?.textContent?.trim() || '';
-                    const time = link.querySelector('.item-time--12hr')?.textContent?.trim() || '';
-                    const href = link.getAttribute('href') || '';
-
-                    if (title && !seenHrefs.has(href)) {
-                        seenHrefs.add(href);
-                        items.push({ title, time, dayNum, href });
-                    }
-                });
+        const end = horizonEnd(context?.now ?? new Date(), context?.horizonDays);
+        const calendarEvents: CalendarItem[] = [];
+
+        for (let i = 0; i < MAX_CALENDAR_MONTHS; i++) {
+            // Get month/year from calendar header
+            const monthYear = await page.evaluate(() => {
+                const table = document.querySelector('table.yui3-calendar-grid');
+                return table?.getAttribute('aria-label') || '';
             });
+            const grid = parseMonthLabel(monthYear);
+            if (!grid) {
+                console.warn(`   ⚠️ Unrecognized calendar month "${monthYear}"`);
+                break;
+            }
+            console.log(`   📅 Scanning calendar: ${monthYear}`);
 
-            return items;
-        });
+            const items = await scanMonth(page);
+            calendarEvents.push(...items.map((item) => ({
+                ...item,
+                dateRaw: calendarDateRaw(grid, parseInt(item.dayNum, 10), item.time),
+            })));
 
-        // Deduplicate events (Squarespace often renders duplicates)
-        const uniqueEvents = new Map<string, typeof calendarEvents[0]>();
+            if (monthStartsAfter(addMonths(grid, 1), end)) break;
+            if (!(await showNextMonth(page, monthYear))) break;
+        }
+
+        // Deduplicate events (Squarespace often renders duplicates, and
+        // multi-day events show up in more than one month)
+        const uniqueEvents = new Map<string, CalendarItem>();
         for (const event of calendarEvents) {
             if (!uniqueEvents.has(event.href)) {
                 uniqueEvents.set(event.href, event);
@@ -97,13 +100,15 @@ export const FoxCabaret: VenueScraper = {
         const enrichedEvents: RawEvent[] = [];
         const baseUrl = 'https://www.foxcabaret.com';
 
-        // Limit for safety during development
-        const maxEvents = Math.min(dedupedEvents.length, 50);
-
-        for (let i = 0; i < maxEvents; i++) {
+        for (let i = 0; i < dedupedEvents.length; i++) {
             const event = dedupedEvents[i];
             const eventUrl = event.href.startsWith('http') ? event.href : `${baseUrl}${event.href}`;
 
+            if (i >= MAX_DETAIL_PAGES) {
+                enrichedEvents.push({ title: event.title, dateRaw: event.dateRaw, url: eventUrl });
+                continue;
+            }
+
             try {
                 // Navigate to detail page
                 await page.goto(eventUrl, { waitUntil: 'domcontentloaded', timeout: 15000 });
@@ -114,6 +119,10 @@ export const FoxCabaret: VenueScraper = {
                     const article = document.querySelector('article.eventitem');
                     if (!article) return { dateRaw: '', priceRaw: undefined, doorsRaw: undefined };
 
+                    const content = article.querySelector('.eventitem-column-content') as HTMLElement | null;
+                    const description = content?.innerText.trim() || undefined;
+                    const imageUrl = document.querySelector('meta[property="og:image"]')?.getAttribute('content') || undefined;
+
                     // Date from meta
                     const dateEl = article.querySelector('time.event-date');
                     const dateAttr = dateEl?.getAttribute('datetime') || '';
@@ -128,29 +137,38 @@ export const FoxCabaret: VenueScraper = {
 
                     // Scan body text for doors and price
                     const bodyText = article.textContent || '';
+                    const lines = (article as HTMLElement).innerText.split('\n').map((line) => line.trim());
 
-                    // Doors pattern: "Doors 7:00pm" or "Doors: 7:00 PM"
-                    const doorsMatch = bodyText.match(/Doors[:\s]+(\d{1,2}[:.]\d{2}\s*(?:AM|PM)?)/i);
-                    const doorsRaw = doorsMatch ? doorsMatch[1] : undefined;
+                    // The line with the doors time ("Doors 7:00pm / Show 8pm"); normalizeEvents reads it
+                    const doorsRaw = lines.find((line) => /\bdoors\b/i.test(line));
 
-                    // Price pattern: "$15" or "$15 advance / $20 door"
-                    const priceMatch = bodyText.match(/\$(\d+(?:\.\d{2})?)/);
-                    const priceRaw = priceMatch ? priceMatch[0] : undefined;
+                    // The whole price line ("$15 advance / $20 door + fees", "PWYC"), for the price parser
+                    const priceRaw = lines.find((line) => /\$\s*\d|\bpwyc\b|pay what you can|by donation|sliding scale/i.test(line));
 
-                    return { dateRaw, priceRaw, doorsRaw };
+                    // Ages: "19+", "All Ages"
+                    const ageMatch = bodyText.match(/\b(1[89]\s*\+|all[\s-]ages)/i);
+                    const ageRestriction = ageMatch ? ageMatch[1] : undefined;
+
+                    return { dateRaw, priceRaw, doorsRaw, ageRestriction, description, imageUrl };
                 });
 
-                enrichedEvents.push({
+                const structured = extractStructuredEvent(await page.content(), eventUrl);
+
+                enrichedEvents.push(withStructuredData({
                     title: event.title,
-                    dateRaw: details.dateRaw || `${monthYear} ${event.dayNum} ${event.time}`,
+                    dateRaw: details.dateRaw || event.dateRaw,
                     url: eventUrl,
                     priceRaw: details.priceRaw,
                     doorsRaw: details.doorsRaw,
-                });
+                    ageRestriction: details.ageRestriction,
+                    description: details.description,
+                    imageUrl: details.imageUrl,
+                    soldOut: /\bsold[\s-]out\b/i.test(event.title) || undefined,
+                }, structured));
 
                 // Progress indicator
                 if ((i + 1) % 10 === 0) {
-                    console.log(`   📄 Progress: ${i + 1}/${maxEvents} events`);
+                    console.log(`   📄 Progress: ${i + 1}/${dedupedEvents.length} events`);
                 }
 
             } catch (err) {
@@ -158,12 +176,16 @@ export const FoxCabaret: VenueScraper = {
                 console.warn(`   ⚠️ Failed to fetch details for "${event.title}"`);
                 enrichedEvents.push({
                     title: event.title,
-                    dateRaw: `${monthYear} ${event.dayNum} ${event.time}`,
+                    dateRaw: event.dateRaw,
                     url: eventUrl,
                 });
             }
         }
 
+        if (dedupedEvents.length > MAX_DETAIL_PAGES) {
+            console.warn(`   ⚠️ Visited ${MAX_DETAIL_PAGES} detail pages; later events have calendar details only`);
+        }
+
         // Navigate back to calendar for next scraper
         await page.goto('https://www.foxcabaret.com/monthly-calendar', {
             waitUntil: 'domcontentloaded'
@@ -172,3 +194,69 @@ export const FoxCabaret: VenueScraper = {
         return enrichedEvents;
     },
 };
+
+interface CalendarItem {
+    title: string;
+    time: string;
+    dayNum: string;
+    href: string;
+    dateRaw: string;
+}
+
+/**
+ * Read the events on the month grid currently shown.
+ */
+function scanMonth(page: Page): Promise<Omit<CalendarItem, 'dateRaw'>[]> {
+    return page.evaluate(() => {
+        const items: {
+            title: string;
+            time: string;
+            dayNum: string;
+            href: string;
+        }[] = [];
+        const seenHrefs = new Set<string>();
+
+        const dayCells = document.querySelectorAll('td.yui3-calendar-day');
+        dayCells.forEach((cell) => {
+            const dayNum = cell.getAttribute('data-pnum') || '';
+            const events = cell.querySelectorAll('li.item');
+
+            events.forEach((event) => {
+                const link = event.querySelector('a.item-link') as HTMLAnchorElement;
+                if (!link) return;
+
+                const title = link.querySelector('.item-title')?.textContent?.trim() || '';
+                const time = link.querySelector('.item-time--12hr')?.textContent?.trim() || '';
+                const href = link.getAttribute('href') || '';
+
+                if (title && !seenHrefs.has(href)) {
+                    seenHrefs.add(href);
+                    items.push({ title, time, dayNum, href });
+                }
+            });
+        });
+
+        return items;
+    });
+}
+
+/**
+ * Click through to the next month and wait for the grid to re-render.
+ * Returns false if the calendar has no next-month control.
+ */
+async function showNextMonth(page: Page, currentLabel: string): Promise<boolean> {
+    const next = page.locator('.yui3-calendarnav-nextmonth').first();
+    if (await next.count() === 0) {
+        console.warn('   ⚠️ No next-month control; stopping at this month');
+        return false;
+    }
+
+    await next.click();
+    await page.waitForFunction(
+        (label) => document.querySelector('table.yui3-calendar-grid')?.getAttribute('aria-label') !== label,
+        currentLabel,
+        { timeout: 15000 }
+    );
+    await page.waitForTimeout(1000); // Allow events to render
+    return true;
+}
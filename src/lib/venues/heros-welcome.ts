@@ -0,0 +1,21 @@
+import { defineVenue } from '../utils/declarative-venue';
+import { EVENTS_CALENDAR_DETAIL, EVENTS_CALENDAR_LIST } from './presets';
+
+/**
+ * Hero's Welcome Scraper
+ *
+ * Target: https://heroswelcome.ca/events/
+ * Platform: WordPress + The Events Calendar (see EVENTS_CALENDAR_LIST)
+ *
+ * Notes:
+ * - Disabled until the selectors are checked against a recorded fixture
+ *   (npm run fixtures:record -- heros-welcome)
+ */
+export const HerosWelcome = defineVenue({
+    id: 'heros-welcome',
+    name: "Hero's Welcome",
+    url: 'https://heroswelcome.ca/events/',
+    enabled: false,
+    ...EVENTS_CALENDAR_LIST,
+    detail: EVENTS_CALENDAR_DETAIL,
+});
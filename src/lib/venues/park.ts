@@ -0,0 +1,21 @@
+import { defineVenue } from '../utils/declarative-venue';
+import { EVENTS_CALENDAR_DETAIL, EVENTS_CALENDAR_LIST } from './presets';
+
+/**
+ * Park Theatre Scraper
+ *
+ * Target: https://parktheatre.ca/events/
+ * Platform: WordPress + The Events Calendar (see EVENTS_CALENDAR_LIST)
+ *
+ * Notes:
+ * - Disabled until the selectors are checked against a recorded fixture
+ *   (npm run fixtures:record -- park-theatre)
+ */
+export const ParkTheatre = defineVenue({
+    id: 'park-theatre',
+    name: 'Park Theatre',
+    url: 'https://parktheatre.ca/events/',
+    enabled: false,
+    ...EVENTS_CALENDAR_LIST,
+    detail: EVENTS_CALENDAR_DETAIL,
+});
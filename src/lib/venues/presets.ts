@@ -0,0 +1,56 @@
+import type { VenueDefinition } from '../utils/declarative-venue';
+
+/**
+ * Shared selectors for common calendar platforms, to spread into a
+ * `defineVenue` definition.
+ */
+
+/**
+ * The Events Calendar (WordPress plugin, "views v2" list view at /events/).
+ *
+ * List Page Structure:
+ * - Event item: article.tribe-events-calendar-list__event
+ * - Title + link: .tribe-events-calendar-list__event-title a
+ * - Date: time.tribe-events-calendar-list__event-datetime[datetime] ("2024-01-12")
+ * - Start time: .tribe-event-date-start ("January 12 @ 7:30 pm")
+ * - Price: .tribe-events-c-small-cta__price
+ * - Next page: a.tribe-events-c-nav__next
+ */
+export const EVENTS_CALENDAR_LIST: Pick<VenueDefinition, 'fetchMode' | 'list' | 'fields' | 'pagination'> = {
+    fetchMode: 'static',
+    list: 'article.tribe-events-calendar-list__event',
+    fields: {
+        title: '.tribe-events-calendar-list__event-title a',
+        url: { selector: '.tribe-events-calendar-list__event-title a', attr: 'href' },
+        date: [
+            { selector: 'time.tribe-events-calendar-list__event-datetime', attr: 'datetime' },
+            { selector: '.tribe-event-date-start', match: /(\d{1,2}(?::\d{2})?\s*(?:[ap]m|[ap]\.m\.))/i },
+        ],
+        price: '.tribe-events-c-small-cta__price',
+    },
+    pagination: {
+        next: { selector: 'a.tribe-events-c-nav__next', attr: 'href' },
+        maxPages: 3,
+    },
+};
+
+/**
+ * The Events Calendar single event page: doors time and ages from the
+ * description, plus the featured image and the event website (tickets).
+ */
+export const EVENTS_CALENDAR_DETAIL: NonNullable<VenueDefinition['detail']> = {
+    fields: {
+        doors: {
+            selector: '.tribe-events-single-event-description',
+            match: /\bdoors\b.{0,40}/i,   // "Doors 7pm / Show 8pm ...", read by normalizeEvents
+        },
+        price: '.tribe-events-cost',
+        description: '.tribe-events-single-event-description',
+        age: {
+            selector: '.tribe-events-single-event-description',
+            match: /\b(1[89]\s*\+|all[\s-]ages)/i,
+        },
+        image: { selector: '.tribe-events-event-image img', attr: 'src' },
+        tickets: { selector: '.tribe-events-event-url a', attr: 'href' },
+    },
+};
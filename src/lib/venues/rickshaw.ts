@@ -1,5 +1,8 @@
 import type { Page } from 'playwright';
 import type { VenueScraper, RawEvent } from '../utils/scraper-core';
+import type { Performer } from '../../../db/config';
+import { extractStructuredEvent, withStructuredData } from '../utils/structured-data';
+import type { StructuredEvent } from '../utils/structured-data';
 
 /**
  * Rickshaw Theatre Scraper
@@ -15,18 +18,18 @@ import type { VenueScraper, RawEvent } from '../utils/scraper-core';
  * - Date: span.listing_list_date + span.listing_list_time
  * - Tickets link: a.listing_link
  * - Event page: h2.listing_title a (href)
+ * - Supporting acts: p.listing_presented ("with X, Y")
  * - Sold out: span.special_type (contains "Sold Out")
  * 
  * Event Detail Page Selectors:
  * - Price: span.dollars
  * - Doors: text containing "Doors:"
+ * - Age restriction: text like "19+" or "All Ages"
+ * - Description: .entry-content / .et_pb_post_content
+ * - Image: meta[property="og:image"]
+ * - Structured data (JSON-LD/microdata), preferred when present
  */
 
-interface RickshawEvent extends RawEvent {
-    ticketsUrl?: string;
-    isSoldOut?: boolean;
-}
-
 export const RickshawTheatre: VenueScraper = {
     id: 'rickshaw-theatre',
     name: 'Rickshaw Theatre',
@@ -74,17 +77,26 @@ export const RickshawTheatre: VenueScraper = {
                 const isSoldOut = soldOutEl?.textContent?.toLowerCase().includes('sold out') || false;
 
                 return {
-                    title: supportingActs ? `${title} (w/ ${supportingActs})` : title,
+                    title,
+                    supportingActs,
                     dateRaw,
                     url,
-                    ticketsUrl,
-                    isSoldOut,
+                    ticketUrl: ticketsUrl || undefined,
+                    soldOut: isSoldOut,
                 };
             });
         });
 
         // Filter out events without titles
-        const validEvents = calendarEvents.filter((e) => e.title.length > 0);
+        const validEvents: RawEvent[] = calendarEvents
+            .filter((e) => e.title.length > 0)
+            .map(({ supportingActs, ...event }) => ({
+                ...event,
+                performers: [
+                    { name: event.title, role: 'headliner' },
+                    ...splitActs(supportingActs).map((name): Performer => ({ name, role: 'support' })),
+                ],
+            }));
 
         // Fetch event details (doors time, price) from individual pages
         console.log(`   📄 Fetching details for ${validEvents.length} events...`);
@@ -96,11 +108,14 @@ export const RickshawTheatre: VenueScraper = {
             if (event.url) {
                 try {
                     const details = await fetchEventDetails(page, event.url);
-                    enrichedEvents.push({
+                    enrichedEvents.push(withStructuredData({
                         ...event,
                         doorsRaw: details.doorsRaw,
                         priceRaw: details.priceRaw,
-                    });
+                        ageRestriction: details.ageRestriction,
+                        description: details.description,
+                        imageUrl: details.imageUrl,
+                    }, details.structured));
 
                     // Progress indicator every 10 events
                     if ((i + 1) % 10 === 0) {
@@ -120,13 +135,19 @@ export const RickshawTheatre: VenueScraper = {
     },
 };
 
+interface EventDetails {
+    doorsRaw: string | undefined;
+    priceRaw: string | undefined;
+    ageRestriction: string | undefined;
+    description: string | undefined;
+    imageUrl: string | undefined;
+    structured: StructuredEvent | null;
+}
+
 /**
- * Fetch doors time and price from an individual event page.
+ * Fetch doors time, price, description and any structured data from an individual event page.
  */
-async function fetchEventDetails(
-    page: Page,
-    eventUrl: string
-): Promise<{ doorsRaw: string | undefined; priceRaw: string | undefined }> {
+async function fetchEventDetails(page: Page, eventUrl: string): Promise<EventDetails> {
     // Navigate to event page
     await page.goto(eventUrl, { waitUntil: 'domcontentloaded', timeout: 15000 });
 
@@ -139,18 +160,37 @@ async function fetchEventDetails(
         const priceEl = document.querySelector('span.dollars');
         const priceRaw = priceEl?.textContent?.trim();
 
-        // Doors: look for text containing "Doors:"
+        // Doors: the line containing "Doors:" ("Doors: 7:00 PM / Show: 8:00 PM"); normalizeEvents reads it
         const bodyText = document.body.innerText;
-        const doorsMatch = bodyText.match(/Doors:\s*(\d{1,2}:\d{2}\s*(?:AM|PM)?)/i);
-        const doorsRaw = doorsMatch ? doorsMatch[1] : undefined;
+        const doorsRaw = bodyText.split('\n').find((line) => /\bdoors?:/i.test(line))?.trim();
+
+        // Ages: "19+", "All Ages"
+        const ageMatch = bodyText.match(/\b(1[89]\s*\+|all[\s-]ages)/i);
+        const ageRestriction = ageMatch ? ageMatch[1] : undefined;
 
-        return { priceRaw, doorsRaw };
+        const content = document.querySelector('.entry-content, .et_pb_post_content') as HTMLElement | null;
+        const description = content?.innerText.trim() || undefined;
+        const imageUrl = document.querySelector('meta[property="og:image"]')?.getAttribute('content') || undefined;
+
+        return { priceRaw, doorsRaw, ageRestriction, description, imageUrl };
     });
+    const structured = extractStructuredEvent(await page.content(), eventUrl);
 
     // Navigate back to calendar
     await page.goBack({ waitUntil: 'domcontentloaded' });
 
-    return details;
+    return { ...details, structured };
+}
+
+/**
+ * "with X, Y + Z" -> ["X", "Y", "Z"]
+ */
+export function splitActs(text: string): string[] {
+    return text
+        .replace(/^\s*(?:with|w\/|special guests?:?)\s*/i, '')
+        .split(/\s*(?:,|\s\+\s|\s\/\s|\bw\/)\s*/)
+        .map((name) => name.trim())
+        .filter(Boolean);
 }
 
 /**
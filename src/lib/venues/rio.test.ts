@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RioTheatre } from './rio';
+import type { Page } from 'playwright';
+import { fromZonedTime } from 'date-fns-tz';
+import type { ScrapeContext } from '../utils/scraper-core';
+import { addMonths, monthOf } from '../utils/calendar-months';
+import type { CalendarMonth } from '../utils/calendar-months';
+
+const CALENDAR_URL = 'https://riotheatre.ca/calendar/';
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+    'August', 'September', 'October', 'November', 'December'];
+
+// The calendar opens on the current month, and the walk stops at the horizon
+const thisMonth = monthOf(new Date());
+const nextMonth = addMonths(thisMonth, 1);
+const day = ({ month }: CalendarMonth, date: number) => `Friday ${MONTH_NAMES[month - 1]} ${date}`;
+
+interface FakeEvent {
+    title: string;
+    datePart: string;
+    time: string;
+    slug: string;
+}
+
+/**
+ * A stand-in for the Rio's calendar: month grids stepped through with the
+ * next-month control, events that open a detail page when clicked, and
+ * going back that may or may not keep the month shown. With `brokenReload`,
+ * the next-month control is gone once the calendar is reloaded.
+ */
+function fakeCalendar(
+    months: FakeEvent[][],
+    { backKeepsMonth, brokenReload = false }: { backKeepsMonth: boolean; brokenReload?: boolean }
+) {
+    let shown = 0;
+    let detail: FakeEvent | null = null;
+    let reloaded = false;
+
+    const grid = () => ({
+        firstLabel: months[shown][0].datePart,
+        items: months[shown].map(({ title, datePart, time }) => ({ title, datePart, time })),
+    });
+
+    const page = {
+        waitForSelector: vi.fn(async () => null),
+        waitForTimeout: vi.fn(async () => {}),
+        waitForFunction: vi.fn(async () => null),
+        content: vi.fn(async () => '<html></html>'),
+        url: vi.fn(() => detail ? `https://riotheatre.ca/event/${detail.slug}/` : CALENDAR_URL),
+        goto: vi.fn(async () => {
+            shown = 0;
+            detail = null;
+            reloaded = true;
+        }),
+        goBack: vi.fn(async () => {
+            detail = null;
+            if (!backKeepsMonth) shown = 0;
+        }),
+        evaluate: vi.fn(async () => detail ? { priceRaw: '$14', imageUrl: undefined } : grid()),
+        locator: vi.fn((selector: string) => {
+            if (selector !== '.an-event') {
+                // The next-month control
+                return {
+                    first: () => ({
+                        count: async () => (shown < months.length - 1 && !(brokenReload && reloaded) ? 1 : 0),
+                        click: async () => { shown++; },
+                    }),
+                };
+            }
+
+            return {
+                count: async () => months[shown].length,
+                nth: (i: number) => {
+                    const event = months[shown][i];
+                    return {
+                        locator: (field: string) => ({
+                            textContent: async () => (field === '.an-event__title' ? event.title : event.time),
+                        }),
+                        click: async () => { detail = event; },
+                    };
+                },
+            };
+        }),
+    };
+
+    return page;
+}
+
+function context(horizonDays: number): ScrapeContext {
+    return { fetchHtml: vi.fn(), fetchJson: vi.fn(), horizonDays };
+}
+
+// Reaches into next month, but not the one after
+const nextMonthStart = fromZonedTime(
+    `${nextMonth.year}-${String(nextMonth.month).padStart(2, '0')}-01T00:00:00`,
+    'America/Vancouver'
+);
+const horizonDays = Math.ceil((nextMonthStart.getTime() - Date.now()) / 86_400_000);
+
+const months: FakeEvent[][] = [
+    [{ title: 'This Month', datePart: day(thisMonth, 3), time: '7:00 pm', slug: 'this-month' }],
+    [
+        { title: 'Next Month', datePart: day(nextMonth, 14), time: '9:30 pm', slug: 'next-month' },
+        { title: 'Also Next Month', datePart: day(nextMonth, 15), time: '1:00 pm', slug: 'also-next-month' },
+    ],
+    [{ title: 'Past The Horizon', datePart: day(addMonths(nextMonth, 1), 2), time: '8:00 pm', slug: 'later' }],
+];
+
+const expected = [
+    ['This Month', `${MONTH_NAMES[thisMonth.month - 1]} 3, ${thisMonth.year} 7:00 pm`, 'https://riotheatre.ca/event/this-month/'],
+    ['Next Month', `${MONTH_NAMES[nextMonth.month - 1]} 14, ${nextMonth.year} 9:30 pm`, 'https://riotheatre.ca/event/next-month/'],
+    ['Also Next Month', `${MONTH_NAMES[nextMonth.month - 1]} 15, ${nextMonth.year} 1:00 pm`, 'https://riotheatre.ca/event/also-next-month/'],
+];
+
+describe('RioTheatre Scraper', () => {
+    it('walks forward month by month until the horizon, visiting each event', async () => {
+        const page = fakeCalendar(months, { backKeepsMonth: true });
+
+        const events = await RioTheatre.scrape(page as unknown as Page, null, context(horizonDays));
+
+        expect(events.map((e) => [e.title, e.dateRaw, e.url])).toEqual(expected);
+        expect(events.every((e) => e.priceRaw === '$14')).toBe(true);
+        // Going back kept the month, so the calendar was never reloaded
+        expect(page.goto).not.toHaveBeenCalled();
+    });
+
+    it('steps back to the month when going back loses it', async () => {
+        const page = fakeCalendar(months, { backKeepsMonth: false });
+
+        const events = await RioTheatre.scrape(page as unknown as Page, null, context(horizonDays));
+
+        expect(events.map((e) => [e.title, e.dateRaw, e.url])).toEqual(expected);
+        // Reloaded after each of next month's two events
+        expect(page.goto).toHaveBeenCalledTimes(2);
+    });
+
+    it('dates each screening by its own day, even with the same title and time', async () => {
+        const screenings: FakeEvent[][] = [[
+            { title: 'Film', datePart: day(thisMonth, 3), time: '7:00 pm', slug: 'film' },
+            { title: 'Film', datePart: day(thisMonth, 4), time: '7:00 pm', slug: 'film' },
+        ]];
+        const page = fakeCalendar(screenings, { backKeepsMonth: true });
+
+        const events = await RioTheatre.scrape(page as unknown as Page, null, context(horizonDays));
+
+        expect(events.map((e) => e.dateRaw)).toEqual([
+            `${MONTH_NAMES[thisMonth.month - 1]} 3, ${thisMonth.year} 7:00 pm`,
+            `${MONTH_NAMES[thisMonth.month - 1]} 4, ${thisMonth.year} 7:00 pm`,
+        ]);
+    });
+
+    it('stops walking when it can\'t get back to a month instead of clicking the wrong grid', async () => {
+        const page = fakeCalendar(months, { backKeepsMonth: false, brokenReload: true });
+
+        const events = await RioTheatre.scrape(page as unknown as Page, null, context(horizonDays));
+
+        // Next month's first event, then nothing from the month shown instead
+        expect(events.map((e) => e.title)).toEqual(['This Month', 'Next Month']);
+        // One failed attempt to get back, then the walk stopped
+        expect(page.goto).toHaveBeenCalledTimes(1);
+    });
+});
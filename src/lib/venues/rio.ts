@@ -1,5 +1,25 @@
 import type { Page } from 'playwright';
-import type { VenueScraper, RawEvent } from '../utils/scraper-core';
+import type { VenueScraper, RawEvent, ScrapeContext } from '../utils/scraper-core';
+import { extractStructuredEvent, withStructuredData } from '../utils/structured-data';
+import {
+    MAX_CALENDAR_MONTHS,
+    MAX_DETAIL_PAGES,
+    addMonths,
+    calendarDateRaw,
+    horizonEnd,
+    monthNumber,
+    monthOf,
+    monthStartsAfter,
+} from '../utils/calendar-months';
+import type { CalendarMonth } from '../utils/calendar-months';
+
+const CALENDAR_URL = 'https://riotheatre.ca/calendar/';
+
+/**
+ * The grid's next-month control. The calendar shows no month label, so the
+ * grid month is counted from the current one.
+ */
+const NEXT_MONTH_SELECTOR = '.schedule__nav--next, .schedule-nav__next, a[rel="next"], button[aria-label*="next" i]';
 
 /**
  * Rio Theatre Scraper
@@ -10,138 +30,283 @@ import type { VenueScraper, RawEvent } from '../utils/scraper-core';
  * 1. Scrape the calendar grid for "Day" + "Title" + "Time"
  * 2. Click each event to navigate to the detail page (or construct URL if predictable)
  * 3. Extract price/details from the detail page
+ * 4. Step to the next month until the scrape horizon is covered
+ *
+ * Going back from a detail page returns to the month it was opened from if
+ * the browser restores it; otherwise the calendar is reloaded and stepped
+ * forward again, and if even that fails the walk stops there. At most
+ * MAX_DETAIL_PAGES are visited; later events keep their calendar title
+ * and date.
  * 
  * Selectors:
  * - Event item: .an-event
  * - Title: .an-event__title
- * - Time: .an-event__time
+ * - Time: .an-event__time (films can list several screenings: "1:00 pm, 7:30 pm",
+ *   which normalization turns into one event per screening)
  * - Date: Parent .day -> .day__label--full-date (e.g., "Thursday January 8")
  * - Detail Page Price: .event-meta__price (common in similar themes, need to verify)
+ * - Detail Page Image: meta[property="og:image"]
+ * - Detail Page structured data (JSON-LD/microdata), preferred when present
+ * - Next month: NEXT_MONTH_SELECTOR. A click only counts once the first day
+ *   label changes, and the walk stops with a warning if nothing matches.
  */
 
 export const RioTheatre: VenueScraper = {
     id: 'rio-theatre',
     name: 'Rio Theatre',
-    url: 'https://riotheatre.ca/calendar/',
+    url: CALENDAR_URL,
     enabled: true,
 
-    async scrape(page: Page | null): Promise<RawEvent[]> {
+    async scrape(page: Page | null, _html: string | null, context?: ScrapeContext): Promise<RawEvent[]> {
         if (!page) {
             throw new Error('Rio Theatre requires Playwright (dynamic scraping)');
         }
 
         // Wait for calendar to load
-        await page.waitForSelector('.schedule', { timeout: 15000 });
-
-        // Allow a moment for the JS to hydrate the events
-        await page.waitForTimeout(2000);
-
-        // Initial scrape of the calendar grid
-        console.log('   🗓️  Scanning calendar grid...');
-        const calendarItems = await page.evaluate(() => {
-            const items: {
-                title: string;
-                datePart: string;
-                time: string;
-                elementIndex: number
-            }[] = [];
-
-            const days = document.querySelectorAll('.day');
-            days.forEach((day, dayIndex) => {
-                // Extract date label (e.g. "Thursday January 8")
-                const dateLabel = day.querySelector('.day__label--full-date')?.textContent?.trim() || '';
-
-                const events = day.querySelectorAll('.an-event');
-                events.forEach((event, eventIndex) => {
-                    const title = event.querySelector('.an-event__title')?.textContent?.trim() || '';
-                    const time = event.querySelector('.an-event__time')?.textContent?.trim() || '';
-
-                    if (title) {
-                        // We store the specific indices to locate and click these elements later
-                        // Note: This matches based on the flattened list order logic we'll re-run
-                        items.push({
-                            title,
-                            datePart: dateLabel,
-                            time,
-                            elementIndex: -1 // Placeholder
-                        });
-                    }
-                });
-            });
-            return items;
-        });
-
-        console.log(`   Found ${calendarItems.length} events on calendar. Visiting details...`);
+        await waitForCalendar(page);
 
+        const now = context?.now ?? new Date();
+        const end = horizonEnd(now, context?.horizonDays);
+        const firstMonth = monthOf(now);
         const enrichedEvents: RawEvent[] = [];
-        const eventCount = await page.locator('.an-event').count();
-
-        // Limit to first 20 events to avoid timeouts during development/testing (optional)
-        // For production, we'd iterate all.
-        const maxEvents = Math.min(eventCount, 50);
-
-        for (let i = 0; i < maxEvents; i++) {
-            // Re-locate elements fresh each loop to avoid stale handles
-            const eventLocator = page.locator('.an-event').nth(i);
-
-            // Extract info from grid again to match our list
-            // Note: This assumes the order hasn't changed.
-            const title = await eventLocator.locator('.an-event__title').textContent();
-            const time = await eventLocator.locator('.an-event__time').textContent();
-
-            // Find the date context
-            // This is tricky with locators. Better to rely on our first pass for date context
-            // if we can map them 1:1. 
-            // Strategy: Match by title+time from our `calendarItems`.
-            const match = calendarItems.find(c => c.title === title?.trim() && c.time === time?.trim());
-            const dateRaw = match ? `${match.datePart} ${time}` : '';
-
-            if (!match) {
-                console.warn(`   ⚠️ Could not match event at index ${i} to calendar scan.`);
-                continue;
-            }
+        const visits = { remaining: MAX_DETAIL_PAGES };
+
+        // Padding days repeat events from the neighbouring months' grids
+        const seen = new Set<string>();
 
-            try {
-                // Click to navigate to detail page
-                // We need to command-click (mac) or control-click to open in new tab? 
-                // Or just click, scrape, and go back.
-                await eventLocator.click();
-                await page.waitForTimeout(1000); // Wait for nav
-
-                const currentUrl = page.url();
-
-                // Scrape Details
-                // Price is often in the content or sidebar
-                const priceRaw = await page.evaluate(() => {
-                    const body = document.body.innerText;
-                    // Look for price patterns
-                    const match = body.match(/\$(\d+(\.\d{2})?)/);
-                    return match ? match[0] : undefined;
-                });
-
-                enrichedEvents.push({
-                    title: match.title,
-                    dateRaw: dateRaw.trim(),
-                    url: currentUrl,
-                    priceRaw,
-                    doorsRaw: undefined // Rio usually lists showtime, doors rarely separate on cal
-                });
-
-                // Go back to calendar
-                await page.goBack({ waitUntil: 'domcontentloaded' });
-                await page.waitForSelector('.schedule');
-                await page.waitForTimeout(500); // Wait for re-render
-
-            } catch (err) {
-                console.error(`   ❌ Failed to scrape detail for "${match.title}":`, err);
-                // Try to recover state
-                if (!page.url().includes('calendar')) {
-                    await page.goto('https://riotheatre.ca/calendar/');
-                    await page.waitForSelector('.schedule');
-                }
+        for (let offset = 0; offset < MAX_CALENDAR_MONTHS; offset++) {
+            const grid = addMonths(firstMonth, offset);
+            if (offset > 0) {
+                if (monthStartsAfter(grid, end)) break;
+                if (!(await showNextMonth(page))) break;
             }
+
+            console.log(`   🗓️  Scanning calendar grid (${grid.year}-${String(grid.month).padStart(2, '0')})...`);
+            const month = await scrapeMonth(page, grid, offset, seen, visits);
+            enrichedEvents.push(...month.events);
+
+            // The page is on some other month; stepping on from it would misdate events
+            if (!month.complete) break;
+        }
+
+        if (visits.remaining <= 0) {
+            console.warn(`   ⚠️ Visited ${MAX_DETAIL_PAGES} detail pages; later events have calendar details only`);
         }
 
         return enrichedEvents;
     },
 };
+
+interface GridItem {
+    title: string;
+    datePart: string;
+    time: string;
+}
+
+/**
+ * Scrape the month grid currently shown, visiting each event's detail page
+ * while `visits` allows. The page is returned to the same month after each
+ * visit; `complete` is false if that failed and the month was cut short.
+ */
+async function scrapeMonth(
+    page: Page,
+    grid: CalendarMonth,
+    offset: number,
+    seen: Set<string>,
+    visits: { remaining: number }
+): Promise<{ events: RawEvent[]; complete: boolean }> {
+    const { firstLabel, items: calendarItems } = await readGrid(page);
+
+    console.log(`   Found ${calendarItems.filter((c) => c.title).length} events on calendar. Visiting details...`);
+
+    const enrichedEvents: RawEvent[] = [];
+    const eventCount = await page.locator('.an-event').count();
+
+    for (let i = 0; i < eventCount; i++) {
+        // Re-locate elements fresh each loop to avoid stale handles
+        const eventLocator = page.locator('.an-event').nth(i);
+
+        // Extract info from grid again to match our list
+        // Note: This assumes the order hasn't changed.
+        const title = await eventLocator.locator('.an-event__title').textContent();
+        const time = await eventLocator.locator('.an-event__time').textContent();
+
+        // Locators don't give us the day, so take it from the first pass,
+        // which read the events in the same order. Should the grid have
+        // changed in between, fall back to the first event with this title
+        // and time
+        const sameEvent = (c: GridItem | undefined) => !!c?.title && c.title === title?.trim() && c.time === time?.trim();
+        const match = sameEvent(calendarItems[i]) ? calendarItems[i] : calendarItems.find(sameEvent);
+
+        if (!match) {
+            console.warn(`   ⚠️ Could not match event at index ${i} to calendar scan.`);
+            continue;
+        }
+
+        const dateRaw = gridDateRaw(grid, match.datePart, match.time);
+        const key = `${match.title}|${dateRaw}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        if (visits.remaining <= 0) {
+            enrichedEvents.push({ title: match.title, dateRaw });
+            continue;
+        }
+        visits.remaining--;
+
+        try {
+            // Click, scrape the detail page, then return to this month
+            await eventLocator.click();
+            await page.waitForTimeout(1000); // Wait for nav
+
+            const currentUrl = page.url();
+
+            // Scrape Details
+            // Price is often in the content or sidebar: keep the whole price
+            // text ("$12 / $10 members + fees", "PWYC") for the price parser
+            const { priceRaw, imageUrl } = await page.evaluate(() => {
+                const priceText = document.querySelector('.event-meta__price')?.textContent?.trim()
+                    || document.body.innerText.split('\n').find((line) => /\$\s*\d|\bpwyc\b|pay what you can|by donation/i.test(line))?.trim();
+                return {
+                    priceRaw: priceText || undefined,
+                    imageUrl: document.querySelector('meta[property="og:image"]')?.getAttribute('content') || undefined,
+                };
+            });
+
+            const structured = extractStructuredEvent(await page.content(), currentUrl);
+
+            enrichedEvents.push(withStructuredData({
+                title: match.title,
+                dateRaw,
+                url: currentUrl,
+                priceRaw,
+                imageUrl,
+                doorsRaw: undefined // Rio usually lists showtime, doors rarely separate on cal
+            }, structured));
+        } catch (err) {
+            // Still include it with calendar data
+            console.error(`   ❌ Failed to scrape detail for "${match.title}":`, err);
+            enrichedEvents.push({ title: match.title, dateRaw });
+        }
+
+        if (!(await returnToMonth(page, offset, firstLabel))) {
+            console.warn(`   ⚠️ Couldn't get back to this month's calendar; stopping the calendar walk here`);
+            return { events: enrichedEvents, complete: false };
+        }
+    }
+
+    return { events: enrichedEvents, complete: true };
+}
+
+/**
+ * The events on the month grid currently shown, and its first day label
+ * (which tells one month's grid from another's).
+ */
+function readGrid(page: Page): Promise<{ firstLabel: string; items: GridItem[] }> {
+    return page.evaluate(() => {
+        const items: {
+            title: string;
+            datePart: string;
+            time: string;
+        }[] = [];
+
+        const days = document.querySelectorAll('.day');
+        days.forEach((day) => {
+            // Extract date label (e.g. "Thursday January 8")
+            const dateLabel = day.querySelector('.day__label--full-date')?.textContent?.trim() || '';
+
+            const events = day.querySelectorAll('.an-event');
+            events.forEach((event) => {
+                const title = event.querySelector('.an-event__title')?.textContent?.trim() || '';
+                const time = event.querySelector('.an-event__time')?.textContent?.trim() || '';
+
+                // Untitled events are kept so indexes line up with the page's
+                items.push({ title, datePart: dateLabel, time });
+            });
+        });
+
+        const firstLabel = document.querySelector('.day__label--full-date')?.textContent?.trim() || '';
+        return { firstLabel, items };
+    });
+}
+
+async function waitForCalendar(page: Page): Promise<void> {
+    await page.waitForSelector('.schedule', { timeout: 15000 });
+
+    // Allow a moment for the JS to hydrate the events
+    await page.waitForTimeout(2000);
+}
+
+/**
+ * Go back from a detail page. If that doesn't land on the month the event
+ * was opened from, reload the calendar and step forward to it.
+ * Returns false if the month can't be shown again.
+ */
+async function returnToMonth(page: Page, offset: number, firstLabel: string): Promise<boolean> {
+    if (!page.url().startsWith(CALENDAR_URL)) {
+        await page.goBack({ waitUntil: 'domcontentloaded' }).catch(() => null);
+    }
+
+    const onCalendar = await page.waitForSelector('.schedule', { timeout: 5000 }).then(() => true, () => false);
+    if (onCalendar) {
+        await page.waitForTimeout(500); // Wait for re-render
+        if ((await readGrid(page)).firstLabel === firstLabel) return true;
+    }
+
+    return showMonth(page, offset);
+}
+
+/**
+ * Load the calendar and step forward `offset` months.
+ * Returns false if it can't get that far.
+ */
+async function showMonth(page: Page, offset: number): Promise<boolean> {
+    await page.goto(CALENDAR_URL, { waitUntil: 'domcontentloaded' });
+    await waitForCalendar(page);
+
+    for (let i = 0; i < offset; i++) {
+        if (!(await showNextMonth(page))) return false;
+    }
+    return true;
+}
+
+/**
+ * Click through to the next month and wait for the grid to change.
+ * Returns false if there's no next-month control or the grid stays put.
+ */
+async function showNextMonth(page: Page): Promise<boolean> {
+    const next = page.locator(NEXT_MONTH_SELECTOR).first();
+    if (await next.count() === 0) {
+        console.warn('   ⚠️ No next-month control; stopping at this month');
+        return false;
+    }
+
+    const { firstLabel } = await readGrid(page);
+    await next.click();
+
+    try {
+        await page.waitForFunction(
+            (label) => document.querySelector('.day__label--full-date')?.textContent?.trim() !== label,
+            firstLabel,
+            { timeout: 15000 }
+        );
+    } catch {
+        console.warn('   ⚠️ Next-month control didn\'t change the calendar; stopping at this month');
+        return false;
+    }
+
+    await page.waitForTimeout(1500); // Wait for the grid to re-render
+    return true;
+}
+
+/**
+ * "Thursday January 8" on the given month's grid -> "January 8, 2026 7:00 pm".
+ */
+function gridDateRaw(grid: CalendarMonth, label: string, time: string): string {
+    const match = label.match(/([A-Za-z]+)\s+(\d{1,2})\s*$/);
+    const dayMonth = match ? monthNumber(match[1]) : null;
+    if (!match || !dayMonth) {
+        return `${label} ${time}`.trim();
+    }
+    return calendarDateRaw(grid, parseInt(match[2], 10), time, dayMonth);
+}
@@ -0,0 +1,23 @@
+import { defineMiddleware } from 'astro:middleware';
+import { ADMIN_TOKEN } from 'astro:env/server';
+import { ADMIN_CHALLENGE, isAdminAuthorized, isAdminRequest } from './lib/utils/admin-auth';
+
+/**
+ * Keep the admin pages, which change data on POST, and the API calls that
+ * change data behind ADMIN_TOKEN. They don't exist at all until a token is set.
+ */
+export const onRequest = defineMiddleware((context, next) => {
+    if (!isAdminRequest(context.request.method, context.url.pathname)) return next();
+
+    if (!ADMIN_TOKEN) {
+        return new Response('Not found', { status: 404 });
+    }
+    if (!isAdminAuthorized(context.request.headers.get('authorization'), ADMIN_TOKEN)) {
+        return new Response('Authentication required', {
+            status: 401,
+            headers: { 'WWW-Authenticate': ADMIN_CHALLENGE },
+        });
+    }
+
+    return next();
+});
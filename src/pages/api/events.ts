@@ -0,0 +1,54 @@
+import type { APIRoute } from 'astro';
+import { queryEvents } from '../../lib/db/events';
+import { parseEventQuery, EventQueryError } from '../../lib/utils/event-query';
+import { toVancouverISO } from '../../lib/utils/date-parser';
+
+export const prerender = false;
+
+/**
+ * GET /api/events - Public, read-only events feed.
+ * See `parseEventQuery` for the supported query params.
+ */
+export const GET: APIRoute = async ({ url }) => {
+    let query;
+    try {
+        query = parseEventQuery(url.searchParams);
+    } catch (e) {
+        if (e instanceof EventQueryError) {
+            return json({ error: e.message, param: e.param }, 400);
+        }
+        throw e;
+    }
+
+    const { events, nextCursor } = await queryEvents(query);
+
+    return json({
+        events: events.map((e) => ({
+            id: e.id,
+            venueId: e.venueId,
+            venueName: e.venueName,
+            title: e.title,
+            date: toVancouverISO(e.date),
+            endDate: e.endDate ? toVancouverISO(e.endDate) : null,
+            doorsTime: e.doorsTime ? toVancouverISO(e.doorsTime) : null,
+            url: e.url,
+            seriesId: e.seriesId ?? null,
+            price: e.price,
+            isFree: e.isFree,
+            pricing: e.pricing ?? null,
+            eventType: e.eventType,
+            status: e.status,
+        })),
+        count: events.length,
+        nextCursor,
+    });
+};
+
+function json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body, null, 2), {
+        status,
+        headers: {
+            'Content-Type': 'application/json'
+        }
+    });
+}
@@ -0,0 +1,28 @@
+import type { APIRoute } from 'astro';
+import { ADMIN_TOKEN } from 'astro:env/server';
+import { getHealthReport, HEALTH_WINDOW_DAYS } from '../../lib/db/health';
+import { isAdminAuthorized } from '../../lib/utils/admin-auth';
+
+export const prerender = false;
+
+/**
+ * GET /api/health - Per-venue scraper health from ScrapeLog.
+ *
+ * `ok` is false when any venue is failing or has a suspicious drop in the
+ * number of events found, so this can back an uptime check. Error
+ * messages, which can name hosts and internals, are for the admin only.
+ */
+export const GET: APIRoute = async ({ request }) => {
+    const report = await getHealthReport();
+    const venues = isAdminAuthorized(request.headers.get('authorization'), ADMIN_TOKEN)
+        ? report
+        : report.map((venue) => ({ ...venue, lastError: null }));
+
+    return new Response(JSON.stringify({
+        ok: venues.every((v) => v.status === 'ok' || v.status === 'unknown'),
+        windowDays: HEALTH_WINDOW_DAYS,
+        venues,
+    }, null, 2), {
+        headers: { 'Content-Type': 'application/json' },
+    });
+};
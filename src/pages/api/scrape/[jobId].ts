@@ -0,0 +1,22 @@
+import type { APIRoute } from 'astro';
+import { getScrapeJob, describeJob } from '../../../lib/db/jobs';
+
+export const prerender = false;
+
+/**
+ * GET /api/scrape/:jobId - Poll a scrape job's status and per-venue progress.
+ */
+export const GET: APIRoute = async ({ params }) => {
+    const job = params.jobId ? await getScrapeJob(params.jobId) : undefined;
+
+    if (!job) {
+        return new Response(JSON.stringify({ error: 'Job not found' }), {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    }
+
+    return new Response(JSON.stringify(describeJob(job), null, 2), {
+        headers: { 'Content-Type': 'application/json' },
+    });
+};
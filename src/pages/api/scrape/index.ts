@@ -0,0 +1,67 @@
+import type { APIRoute } from 'astro';
+import { enqueueScrapeJob, listScrapeJobs, describeJob, JobConflictError } from '../../../lib/db/jobs';
+import { getEnabledVenues, getVenueById } from '../../../config/venues';
+import type { VenueScraper } from '../../../lib/utils/scraper-core';
+
+export const prerender = false;
+
+/**
+ * POST /api/scrape - Start a background scrape job.
+ * Body (optional JSON): { "venues": ["rio-theatre", ...] } to scrape a subset.
+ * Responds 202 with the job, or 409 if a job is already running.
+ */
+export const POST: APIRoute = async ({ request }) => {
+    let venues: VenueScraper[] = getEnabledVenues();
+
+    const body = await request.text();
+    if (body.trim()) {
+        let ids: unknown;
+        try {
+            ids = JSON.parse(body).venues;
+        } catch {
+            return json({ error: 'Body must be JSON' }, 400);
+        }
+
+        if (ids !== undefined) {
+            if (!Array.isArray(ids) || ids.length === 0 || !ids.every((id) => typeof id === 'string')) {
+                return json({ error: '"venues" must be a non-empty array of venue IDs' }, 400);
+            }
+
+            const unknown = ids.filter((id) => !getVenueById(id));
+            if (unknown.length > 0) {
+                return json({ error: `Unknown venues: ${unknown.join(', ')}` }, 400);
+            }
+            venues = ids.map((id) => getVenueById(id)!);
+        }
+    }
+
+    console.log('🐻 API Scraper Triggered');
+
+    try {
+        const { job } = await enqueueScrapeJob(venues);
+        return json(describeJob(job), 202, { Location: `/api/scrape/${job.id}` });
+    } catch (e) {
+        if (e instanceof JobConflictError) {
+            return json({ error: e.message, jobId: e.activeJobId }, 409);
+        }
+        throw e;
+    }
+};
+
+/**
+ * GET /api/scrape - List recent scrape jobs, newest first.
+ */
+export const GET: APIRoute = async () => {
+    const jobs = await listScrapeJobs();
+    return json({ jobs: jobs.map(describeJob) });
+};
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body, null, 2), {
+        status,
+        headers: {
+            'Content-Type': 'application/json',
+            ...headers,
+        }
+    });
+}
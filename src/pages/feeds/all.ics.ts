@@ -0,0 +1,22 @@
+import type { APIRoute } from 'astro';
+import { getFeedEvents, icsFeedResponse } from '../../lib/db/feeds';
+import { EventQueryError } from '../../lib/utils/event-query';
+
+export const prerender = false;
+
+/**
+ * GET /feeds/all.ics - All events as an iCalendar feed.
+ * Accepts the same filters as GET /api/events for custom feeds,
+ * e.g. /feeds/all.ics?eventType=comedy&isFree=true
+ */
+export const GET: APIRoute = async ({ request, url }) => {
+    try {
+        const events = await getFeedEvents(url.searchParams);
+        return icsFeedResponse(request, 'Paper Bear: Vancouver Events', events);
+    } catch (e) {
+        if (e instanceof EventQueryError) {
+            return new Response(e.message, { status: 400 });
+        }
+        throw e;
+    }
+};
@@ -0,0 +1,26 @@
+import type { APIRoute } from 'astro';
+import { getNewEventsFeed } from '../../lib/db/feeds';
+import { renderAtom } from '../../lib/utils/syndication';
+import { cachedResponse } from '../../lib/utils/http-cache';
+import { EventQueryError } from '../../lib/utils/event-query';
+
+export const prerender = false;
+
+/**
+ * GET /feeds/new.atom - Newly added events as Atom.
+ * Filter with ?venueId=...&eventType=...
+ */
+export const GET: APIRoute = async ({ request, url }) => {
+    try {
+        const { meta, items } = await getNewEventsFeed(url);
+        return cachedResponse(request, renderAtom(meta, items), {
+            contentType: 'application/atom+xml; charset=utf-8',
+            lastModified: meta.updated,
+        });
+    } catch (e) {
+        if (e instanceof EventQueryError) {
+            return new Response(e.message, { status: 400 });
+        }
+        throw e;
+    }
+};
@@ -0,0 +1,26 @@
+import type { APIRoute } from 'astro';
+import { getNewEventsFeed } from '../../lib/db/feeds';
+import { renderJsonFeed } from '../../lib/utils/syndication';
+import { cachedResponse } from '../../lib/utils/http-cache';
+import { EventQueryError } from '../../lib/utils/event-query';
+
+export const prerender = false;
+
+/**
+ * GET /feeds/new.json - Newly added events as JSON Feed 1.1.
+ * Filter with ?venueId=...&eventType=...
+ */
+export const GET: APIRoute = async ({ request, url }) => {
+    try {
+        const { meta, items } = await getNewEventsFeed(url);
+        return cachedResponse(request, renderJsonFeed(meta, items), {
+            contentType: 'application/feed+json; charset=utf-8',
+            lastModified: meta.updated,
+        });
+    } catch (e) {
+        if (e instanceof EventQueryError) {
+            return new Response(e.message, { status: 400 });
+        }
+        throw e;
+    }
+};
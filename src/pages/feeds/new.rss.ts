@@ -0,0 +1,26 @@
+import type { APIRoute } from 'astro';
+import { getNewEventsFeed } from '../../lib/db/feeds';
+import { renderRss } from '../../lib/utils/syndication';
+import { cachedResponse } from '../../lib/utils/http-cache';
+import { EventQueryError } from '../../lib/utils/event-query';
+
+export const prerender = false;
+
+/**
+ * GET /feeds/new.rss - Newly added events as RSS 2.0.
+ * Filter with ?venueId=...&eventType=...
+ */
+export const GET: APIRoute = async ({ request, url }) => {
+    try {
+        const { meta, items } = await getNewEventsFeed(url);
+        return cachedResponse(request, renderRss(meta, items), {
+            contentType: 'application/rss+xml; charset=utf-8',
+            lastModified: meta.updated,
+        });
+    } catch (e) {
+        if (e instanceof EventQueryError) {
+            return new Response(e.message, { status: 400 });
+        }
+        throw e;
+    }
+};
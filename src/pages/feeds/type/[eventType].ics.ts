@@ -0,0 +1,28 @@
+import type { APIRoute } from 'astro';
+import type { EventType } from '../../../../db/config';
+import { getFeedEvents, icsFeedResponse } from '../../../lib/db/feeds';
+import { EVENT_TYPES } from '../../../lib/utils/classifier';
+import { EventQueryError } from '../../../lib/utils/event-query';
+
+export const prerender = false;
+
+/**
+ * GET /feeds/type/:eventType.ics - Events of one type as an iCalendar feed.
+ */
+export const GET: APIRoute = async ({ request, url, params }) => {
+    const eventType = params.eventType as EventType;
+    if (!EVENT_TYPES.includes(eventType)) {
+        return new Response('Unknown event type', { status: 404 });
+    }
+
+    try {
+        const events = await getFeedEvents(url.searchParams, { eventTypes: [eventType] });
+        const label = eventType.charAt(0).toUpperCase() + eventType.slice(1);
+        return icsFeedResponse(request, `Paper Bear: ${label}`, events);
+    } catch (e) {
+        if (e instanceof EventQueryError) {
+            return new Response(e.message, { status: 400 });
+        }
+        throw e;
+    }
+};
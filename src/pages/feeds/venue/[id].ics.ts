@@ -0,0 +1,26 @@
+import type { APIRoute } from 'astro';
+import { getFeedEvents, icsFeedResponse } from '../../../lib/db/feeds';
+import { getVenueById } from '../../../config/venues';
+import { EventQueryError } from '../../../lib/utils/event-query';
+
+export const prerender = false;
+
+/**
+ * GET /feeds/venue/:id.ics - One venue's events as an iCalendar feed.
+ */
+export const GET: APIRoute = async ({ request, url, params }) => {
+    const venue = params.id ? getVenueById(params.id) : undefined;
+    if (!venue) {
+        return new Response('Venue not found', { status: 404 });
+    }
+
+    try {
+        const events = await getFeedEvents(url.searchParams, { venueIds: [venue.id] });
+        return icsFeedResponse(request, `Paper Bear: ${venue.name}`, events);
+    } catch (e) {
+        if (e instanceof EventQueryError) {
+            return new Response(e.message, { status: 400 });
+        }
+        throw e;
+    }
+};